@@ -1,18 +1,41 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { LayerData, ModelId, Attachment, MediaType, VideoMode, Annotation, GenerationTask } from './types';
-import { generateImageContent, generateVideoContent, generateSpeechContent, generateLayerTitle, improvePrompt, GenerationCallbacks } from './services/geminiService';
-import { saveLayers, loadLayers, saveViewState, loadViewState, saveHistory, loadHistory, clearAllData } from './services/storageService';
+import { LayerData, ModelId, GenerationModelId, Attachment, MediaType, VideoMode, Annotation, GenerationTask, ProjectMeta, PromptState, GenerationCallbacks, PersistedGenerationJob, GenerationUsage, MaskedEdit, MatteStroke, ImageAdjustments, CropRect } from './types';
+import { generateLayerTitle, improvePrompt, isMockMode, isMockOperation, setMockMode } from './services/geminiService';
+import { getLayerError } from './services/generationErrors';
+import { blendMaskedResult, getNaturalSize, toImageStrokes } from './services/inpaintService';
+import { removeBackground } from './services/mattingService';
+import { isAdjustedImage, renderAdjustedImage } from './services/adjustmentService';
+import { needsComposite, renderAnnotationsSvg, renderLayerComposite } from './services/annotationService';
+import { FULL_FRAME, hasCrop, renderCroppedVideo } from './services/cropService';
+import { getLayerBounds, hasTransform, LayerGeometry, renderTransformedImage } from './services/transformService';
+import { loadUsage, recordUsage, getBudgetStatus } from './services/usageLedger';
+import { enqueueGeneration, enqueueResume, prioritizeGeneration, setQueuePaused, subscribeToQueue } from './services/generationQueue';
+import { saveLayers, loadLayers, saveViewState, loadViewState, saveHistory, loadHistory, clearAllData, listProjects, createProject, renameProject, duplicateProject, deleteProject, getActiveProjectId, saveActiveProjectId, onStorageQuotaExceeded, saveGenerationJobs, loadGenerationJobs } from './services/storageService';
 import { generateThumbnail } from './services/thumbnailService';
 import { storeAsset, getAssetUrl, getAssetBase64 } from './services/assetStore';
 import { hasStoredApiKey, setStoredApiKey } from './services/apiKeyService';
+import { storeLayerMedia, StoredMedia } from './services/mediaAssetService';
+import { exportProjectArchive, importProjectArchive, ProjectSnapshot, ARCHIVE_EXTENSION } from './services/archiveService';
+import { alignLayers, distributeLayers, tidyIntoGrid, LayerPositions } from './services/arrangeService';
+import { collectSourceLayerIds, getLineageEdges } from './services/lineageService';
+import { getStoredPromptState, getStoredReferenceAttachments, canRetryGeneration, isExtensionPlaceholder } from './services/regenerateService';
+import { getModel } from './services/providerRegistry';
+import { collectSubtreeIds, getTopmostIds, getDepth, findDropParentId, duplicateSubtrees, fitGroupToChildren, growAncestorsToFit } from './services/layerTree';
+import { collectOrphanedAssets, formatBytes } from './services/assetGarbageCollector';
+import { getStorageReport, getQuotaStatus, requestPersistentStorage, evictFullResolution, QuotaStatus } from './services/storageQuotaService';
 import PromptBar from './components/PromptBar';
 import CanvasLayer from './components/CanvasLayer';
 import Sidebar from './components/Sidebar';
 import Minimap from './components/Minimap';
 import ApiKeyModal from './components/ApiKeyModal';
-import { Image as ImageIcon, ZoomIn, ZoomOut, MousePointer2, Undo2, Redo2, StickyNote, BoxSelect, Pencil, Type as TypeIcon, Trash2, Key } from 'lucide-react';
-import { STICKY_COLORS, GROUP_COLORS } from './constants';
+import ProjectPicker from './components/ProjectPicker';
+import StoragePanel from './components/StoragePanel';
+import UsagePanel from './components/UsagePanel';
+import SelectionToolbar from './components/SelectionToolbar';
+import LineageConnectors from './components/LineageConnectors';
+import { Image as ImageIcon, ZoomIn, ZoomOut, MousePointer2, Undo2, Redo2, StickyNote, BoxSelect, Pencil, Type as TypeIcon, Trash2, Key, HardDrive, AlertTriangle, GitFork, Shuffle, FlaskConical, Pause, Play, Receipt } from 'lucide-react';
+import { STICKY_COLORS, GROUP_COLORS, DEFAULT_MODEL } from './constants';
 
 // A simple 1x1 transparent pixel for placeholders
 const PLACEHOLDER_SRC = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
@@ -46,12 +69,44 @@ const buildPromptWithReferences = (prompt: string, attachments: Attachment[]): s
   return lines.join('\n');
 };
 
+// Move a generation result into the asset store. Falls back to the raw URL if
+// storage fails; transient object URLs (Veo downloads) are released once stored.
+const persistResultMedia = async (url: string, mediaType: MediaType): Promise<StoredMedia> => {
+  if (!url) return { src: url };
+  try {
+    const media = await storeLayerMedia(url, mediaType);
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+    return media;
+  } catch (e) {
+    console.warn('Asset storage failed:', e);
+    return { src: url };
+  }
+};
+
+// Full-resolution data for API calls and canvas work (blob URLs can't be sent, stored assets may be bigger than src)
+const getLayerBase64 = async (layer: LayerData): Promise<string> =>
+  (layer.imageId && await getAssetBase64(layer.imageId)) || layer.src;
+
+// What a layer looks like, for references: adjustments and crop baked in
+const getReferenceBase64 = async (layer: LayerData): Promise<string> => {
+  const base64 = await getLayerBase64(layer);
+  return isAdjustedImage(layer) ? renderAdjustedImage(base64, layer.adjustments, layer.crop) : base64;
+};
+
 const App: React.FC = () => {
   const [layers, setLayers] = useState<LayerData[]>([]);
   const [history, setHistory] = useState<LayerData[][]>([[]]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
-  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  // Selection set (click, shift-click, marquee). Single-layer UI (floating PromptBar,
+  // properties) only appears when exactly one layer is selected.
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
+  const selectedLayerId = selectedLayerIds.length === 1 ? selectedLayerIds[0] : null;
+  const setSelectedLayerId = useCallback((id: string | null) => setSelectedLayerIds(id ? [id] : []), []);
+  // Memoized CanvasLayers can hold stale callbacks, so bulk operations read the selection from a ref
+  const selectedLayerIdsRef = useRef<string[]>([]);
+  selectedLayerIdsRef.current = selectedLayerIds;
+  const [marquee, setMarquee] = useState<{ start: { x: number, y: number }, end: { x: number, y: number }, additive: boolean } | null>(null);
   // Generation task management for non-blocking UI
   const [generationTasks, setGenerationTasks] = useState<Map<string, GenerationTask>>(new Map());
   const hasActiveGenerations = generationTasks.size > 0;
@@ -60,6 +115,8 @@ const App: React.FC = () => {
   const [scale, setScale] = useState(0.6);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [globalAttachments, setGlobalAttachments] = useState<Attachment[]>([]);
+  // Layer whose stored settings prefill the global PromptBar (Remix)
+  const [remixSource, setRemixSource] = useState<{ layerId: string; title: string; initialValues: PromptState } | null>(null);
 
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectionTarget, setSelectionTarget] = useState<'global' | 'layer' | null>(null);
@@ -68,10 +125,25 @@ const App: React.FC = () => {
   const [snapLines, setSnapLines] = useState<{ vertical?: number, horizontal?: number } | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [showStoragePanel, setShowStoragePanel] = useState(false);
+  const [showUsagePanel, setShowUsagePanel] = useState(false);
+  // Latest cutout re-render per layer, so a slow earlier one can't overwrite it
+  const cutoutRequestsRef = useRef(new Map<string, number>());
+  const [budgetStatus, setBudgetStatus] = useState(() => getBudgetStatus());
+  const [showLineage, setShowLineage] = useState(true);
+  const [mockMode, setMockModeState] = useState(isMockMode);
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const isStorageLow = quotaExceeded || (quotaStatus !== null && quotaStatus.level !== 'ok');
   const [isChangingApiKey, setIsChangingApiKey] = useState(false);
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
 
   const fileDropRef = useRef<HTMLDivElement>(null);
   const promptInputRef = useRef<HTMLTextAreaElement>(null);
+  const isCollectingGarbageRef = useRef(false);
+  const hasRequestedPersistenceRef = useRef(false);
 
   // Cancel a generation task (also handles disconnected/orphaned generations)
   const cancelGeneration = useCallback((layerId: string) => {
@@ -100,6 +172,33 @@ const App: React.FC = () => {
     });
   }, []);
 
+  // Remember the provider's operation ID so the job can be resumed after a reload
+  const recordTaskOperation = useCallback((layerId: string, operationId?: string) => {
+    if (!operationId) return;
+    setGenerationTasks(prev => {
+      const task = prev.get(layerId);
+      if (!task || task.operationId === operationId) return prev;
+      const next = new Map(prev);
+      next.set(layerId, { ...task, operationId });
+      return next;
+    });
+  }, []);
+
+  // Mirror the queue's status, position and backoff onto the matching tasks
+  useEffect(() => subscribeToQueue(snapshot => {
+    setIsQueuePaused(snapshot.paused);
+    setGenerationTasks(prev => {
+      let next: Map<string, GenerationTask> | null = null;
+      for (const job of snapshot.jobs) {
+        const task = prev.get(job.id);
+        if (!task || (task.status === job.status && task.queuePosition === job.position && task.retryAt === job.retryAt)) continue;
+        next = next || new Map(prev);
+        next.set(job.id, { ...task, status: job.status, queuePosition: job.position, retryAt: job.retryAt, retryKind: job.retryKind });
+      }
+      return next || prev;
+    });
+  }), []);
+
   // Get task for a layer
   const getTaskForLayer = useCallback((layerId: string) => {
     return generationTasks.get(layerId);
@@ -150,53 +249,160 @@ const App: React.FC = () => {
       setSelectionOriginLayerId(null);
   }, []);
 
+  // Placeholders saved mid-generation lost their request on reload. Resume the
+  // ones whose provider operation is still running; fail the rest so they can be retried.
+  const recoverInterruptedGenerations = async (projectId: string, savedLayers: LayerData[]): Promise<LayerData[]> => {
+    if (!savedLayers.some(l => l.isLoading)) return savedLayers;
+    const jobs = await loadGenerationJobs(projectId);
+    const resumable = new Map<string, PersistedGenerationJob>(jobs.filter(j => j.operationId && j.model).map(j => [j.layerId, j]));
+    return savedLayers.map(layer => {
+      if (!layer.isLoading) return layer;
+      const job = resumable.get(layer.id);
+      if (job) {
+        resumeGenerationJob(projectId, job, layer);
+        return layer;
+      }
+      return { ...layer, isLoading: false, error: 'Interrupted by a page reload before it finished.' };
+    });
+  };
+
+  const resumeGenerationJob = async (projectId: string, job: PersistedGenerationJob, layer: LayerData) => {
+    const abortController = new AbortController();
+    setGenerationTasks(prev => new Map([...prev, [job.layerId, {
+        id: crypto.randomUUID(),
+        layerId: job.layerId,
+        status: 'queued',
+        abortController,
+        mediaType: job.mediaType,
+        startedAt: job.startedAt,
+        model: job.model,
+        operationId: job.operationId,
+        progress: 0
+    }]]));
+
+    try {
+        const result = await enqueueResume(job.layerId, job.model, job.operationId, job.startedAt, {
+            signal: abortController.signal,
+            onProgress: (progress) => updateTaskProgress(job.layerId, progress)
+        });
+        // Resumed operations report no usage of their own; the clip length was stored with the request.
+        // Mock operations cost nothing, like the mock requests that started them.
+        trackUsage(projectId, result.usage || (isMockOperation(job.operationId) ? undefined : { model: job.model, mediaType: job.mediaType, videoSeconds: parseInt(layer.generationMetadata?.duration || '8') }));
+        const media = await persistResultMedia(result.url, job.mediaType);
+        // Titles are filled in when a request is sent, except for extensions
+        const title = isExtensionPlaceholder(layer) ? `${await generateLayerTitle(layer.promptUsed || '')} (Ext)` : layer.title;
+        // Not added to history: this runs while the project loads, before its history is in state
+        setLayers(prev => prev.map(l => l.id !== job.layerId ? l : { ...l, ...media, title, videoMetadata: result.metadata, generationMetadata: result.generationConfig || l.generationMetadata, isLoading: false, duration: parseInt(l.generationMetadata?.duration || '8') }));
+    } catch (error: any) {
+        if (error.name === 'AbortError') return;
+        setLayers(prev => prev.map(l => l.id !== job.layerId ? l : { ...l, isLoading: false, ...getLayerError(error) }));
+    }
+    setGenerationTasks(prev => { const next = new Map(prev); next.delete(job.layerId); return next; });
+  };
+
+  // Record what a finished generation used, then re-check the budget
+  const trackUsage = (projectId: string | null, usage?: GenerationUsage) => {
+    if (!projectId || !usage) return;
+    recordUsage(projectId, usage)
+      .then(() => setBudgetStatus(getBudgetStatus()))
+      .catch(error => console.error('Failed to record usage:', error));
+  };
+
+  // New requests are refused once the budget cap is spent; the usage panel explains why
+  const isOverBudget = (): boolean => {
+    const status = getBudgetStatus();
+    setBudgetStatus(status);
+    if (status.exceeded) setShowUsagePanel(true);
+    return status.exceeded;
+  };
+
+  // Load a project's layers, view state and history into React state
+  const loadProjectState = async (projectId: string) => {
+    const [savedLayers, savedView, savedHistory] = await Promise.all([
+      loadLayers(projectId),
+      loadViewState(projectId),
+      loadHistory(projectId)
+    ]);
+    setLayers(savedLayers ? await recoverInterruptedGenerations(projectId, savedLayers) : []);
+    setCanvasOffset(savedView?.offset || { x: 0, y: 0 });
+    setScale(savedView?.scale || 0.6);
+    setHistory(savedHistory?.history || [[]]);
+    setHistoryIndex(savedHistory?.index || 0);
+    setSelectedLayerId(null);
+  };
+
   // Hydrate state from IndexedDB on mount
   useEffect(() => {
     const hydrate = async () => {
       try {
-        const [savedLayers, savedView, savedHistory] = await Promise.all([
-          loadLayers(),
-          loadViewState(),
-          loadHistory()
-        ]);
-        if (savedLayers) setLayers(savedLayers);
-        if (savedView) {
-          setCanvasOffset(savedView.offset);
-          setScale(savedView.scale);
-        }
-        if (savedHistory) {
-          setHistory(savedHistory.history);
-          setHistoryIndex(savedHistory.index);
-        }
+        const projectId = await getActiveProjectId();
+        const [allProjects] = await Promise.all([listProjects(), loadProjectState(projectId)]);
+        setProjects(allProjects);
+        setActiveProjectId(projectId);
+        await loadUsage();
+        setBudgetStatus(getBudgetStatus());
       } catch (error) {
         console.error('Failed to hydrate state:', error);
       }
       setIsHydrated(true);
-      // Check for API key after hydration
-      if (!hasStoredApiKey()) {
+      // Sweep assets orphaned by earlier sessions (deleted layers, trimmed history)
+      collectOrphanedAssets().catch(error => console.error('Asset GC failed:', error));
+      // Check for API key after hydration (mock mode never calls the API)
+      if (!hasStoredApiKey() && !isMockMode()) {
         setShowApiKeyModal(true);
       }
     };
     hydrate();
   }, []);
 
+  // Persist running jobs whenever one starts, ends or reports its operation ID (not on every progress tick)
+  const generationJobs = useMemo<PersistedGenerationJob[]>(() => [...generationTasks.values()].map(({ layerId, mediaType, startedAt, model, operationId }) => ({ layerId, mediaType, startedAt, model, operationId })), [generationTasks]);
+  const generationJobsSignature = generationJobs.map(j => `${j.layerId}:${j.operationId || ''}`).join('|');
+  useEffect(() => {
+    if (!isHydrated || !activeProjectId) return;
+    saveGenerationJobs(activeProjectId, generationJobs);
+  }, [generationJobsSignature, isHydrated, activeProjectId]);
+
   // Auto-save layers, history, and view state with debounce
   useEffect(() => {
-    if (!isHydrated) return;
+    if (!isHydrated || !activeProjectId) return;
     const timeoutId = setTimeout(() => {
-      saveLayers(layers);
-      saveHistory(history, historyIndex);
+      saveLayers(activeProjectId, layers);
+      saveHistory(activeProjectId, history, historyIndex);
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [layers, history, historyIndex, isHydrated]);
+  }, [layers, history, historyIndex, isHydrated, activeProjectId]);
 
   useEffect(() => {
-    if (!isHydrated) return;
+    if (!isHydrated || !activeProjectId) return;
     const timeoutId = setTimeout(() => {
-      saveViewState(canvasOffset, scale);
+      saveViewState(activeProjectId, canvasOffset, scale);
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [canvasOffset, scale, isHydrated]);
+  }, [canvasOffset, scale, isHydrated, activeProjectId]);
+
+  // Surface failed saves that ran out of space
+  useEffect(() => {
+    onStorageQuotaExceeded(() => setQuotaExceeded(true));
+    return () => onStorageQuotaExceeded(null);
+  }, []);
+
+  // Re-check the storage quota as the board grows
+  const refreshQuotaStatus = useCallback(async () => {
+    const status = await getQuotaStatus().catch(() => null);
+    setQuotaStatus(status);
+    if (status && status.level !== 'ok' && !hasRequestedPersistenceRef.current) {
+      // Ask once per session so the browser doesn't evict the board under pressure
+      hasRequestedPersistenceRef.current = true;
+      requestPersistentStorage().catch(error => console.warn('Persistent storage request failed:', error));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timeoutId = setTimeout(refreshQuotaStatus, 3000);
+    return () => clearTimeout(timeoutId);
+  }, [layers, isHydrated, refreshQuotaStatus]);
 
   // Prevent browser zoom on pinch/Ctrl+scroll - must use native listener with passive: false
   useEffect(() => {
@@ -257,6 +463,12 @@ const App: React.FC = () => {
     setShowApiKeyModal(true);
   };
 
+  const toggleMockMode = () => {
+    setMockMode(!mockMode);
+    setMockModeState(!mockMode);
+    if (mockMode && !hasStoredApiKey()) setShowApiKeyModal(true);
+  };
+
   const startCanvasSelection = (target: 'global' | 'layer') => {
       setIsSelectionMode(true);
       setSelectionTarget(target);
@@ -266,25 +478,169 @@ const App: React.FC = () => {
   const handleLayerSelectForAttachment = async (layer: LayerData) => {
       if (!isSelectionMode) return;
       if (layer.type === 'video') alert("Selecting video layers as reference is not fully supported for all models yet.");
-      // Get base64 from asset store if available (blob URLs don't work for API calls)
-      let base64Data = layer.src;
-      if (layer.imageId) {
-          const assetBase64 = await getAssetBase64(layer.imageId);
-          if (assetBase64) base64Data = assetBase64;
-      }
-      const attachment: Attachment = { id: crypto.randomUUID(), file: new File([], `${layer.title || 'reference'}.png`, { type: 'image/png' }), previewUrl: layer.src, mimeType: 'image/png', base64: base64Data, displayName: layer.title || 'reference' };
+      // Full-res from the asset store (blob URLs don't work for API calls), as adjusted
+      const base64Data = await getReferenceBase64(layer);
+      const attachment: Attachment = { id: crypto.randomUUID(), file: new File([], `${layer.title || 'reference'}.png`, { type: 'image/png' }), previewUrl: isAdjustedImage(layer) ? base64Data : layer.src, mimeType: 'image/png', base64: base64Data, displayName: layer.title || 'reference', sourceLayerId: layer.id };
       if (selectionTarget === 'global') setGlobalAttachments(prev => [...prev, attachment]); else if (selectionTarget === 'layer') setInjectedAttachment(attachment);
       setIsSelectionMode(false); setSelectionTarget(null);
   };
 
   const handleClearCanvas = async () => {
-      await clearAllData();
+      if (!activeProjectId) return;
+      await clearAllData(activeProjectId);
       setLayers([]);
       setHistory([[]]);
       setHistoryIndex(0);
       setSelectedLayerId(null);
       setCanvasOffset({ x: 0, y: 0 });
       setScale(1);
+      collectOrphanedAssets().catch(error => console.error('Asset GC failed:', error));
+  };
+
+  const handleCollectGarbage = async (): Promise<string> => {
+      if (isCollectingGarbageRef.current) return 'Cleanup already running.';
+      isCollectingGarbageRef.current = true;
+      try {
+          await flushActiveProject();
+          // In-memory history can hold more states than were persisted
+          const result = await collectOrphanedAssets([layers, ...history]);
+          setQuotaExceeded(false);
+          refreshQuotaStatus();
+          return result.deletedCount > 0
+              ? `Freed ${formatBytes(result.freedBytes)} by removing ${result.deletedCount} unused asset${result.deletedCount === 1 ? '' : 's'}.`
+              : `No unused assets found (${result.scannedCount} checked).`;
+      } finally {
+          isCollectingGarbageRef.current = false;
+      }
+  };
+
+  // --- Storage Eviction ---
+  // Drop full-res images (keeping thumbnails) for a project, then sweep the freed blobs
+  const handleEvictFullRes = async (projectId: string, olderThan: number): Promise<string> => {
+      const isActive = projectId === activeProjectId;
+      if (isActive && hasActiveGenerations) throw new Error('Wait for running generations to finish.');
+      // Pause autosave so a pending write can't restore the evicted references
+      if (isActive) setIsHydrated(false);
+      try {
+          if (isActive) await flushActiveProject();
+          const evictedCount = await evictFullResolution(projectId, olderThan);
+          if (isActive) await loadProjectState(projectId);
+          // The reloaded canvas is already persisted; otherwise keep the open canvas's unsaved history alive
+          const result = await collectOrphanedAssets(isActive ? [] : [layers, ...history]);
+          setQuotaExceeded(false);
+          refreshQuotaStatus();
+          if (evictedCount === 0) return 'No full-resolution images matched.';
+          return `Kept thumbnails only for ${evictedCount} image${evictedCount === 1 ? '' : 's'} and freed ${formatBytes(result.freedBytes)}. Recently created or shared assets are freed once nothing else uses them.`;
+      } finally {
+          if (isActive) setIsHydrated(true);
+      }
+  };
+
+  const handleArchiveAndEvict = async (projectId: string, olderThan: number): Promise<string> => {
+      if (!(await handleExportProject(projectId))) throw new Error('Export failed, nothing was removed.');
+      return handleEvictFullRes(projectId, olderThan);
+  };
+
+  // --- Project Handlers ---
+  // Flush the open project to storage (bypasses the autosave debounce)
+  const flushActiveProject = async () => {
+      if (!activeProjectId) return;
+      await Promise.all([
+          saveLayers(activeProjectId, layers),
+          saveHistory(activeProjectId, history, historyIndex),
+          saveViewState(activeProjectId, canvasOffset, scale)
+      ]);
+  };
+
+  const switchProject = async (projectId: string, skipFlush: boolean = false) => {
+      if (projectId === activeProjectId || hasActiveGenerations) return;
+      // Pause autosave so the outgoing layers are never written under the new project
+      setIsHydrated(false);
+      try {
+          if (!skipFlush) await flushActiveProject();
+          await loadProjectState(projectId);
+          setActiveProjectId(projectId);
+          await saveActiveProjectId(projectId);
+      } catch (error) {
+          console.error('Failed to switch project:', error);
+      }
+      setIsHydrated(true);
+  };
+
+  const handleCreateProject = async (name: string) => {
+      if (hasActiveGenerations) return;
+      const project = await createProject(name);
+      setProjects(prev => [...prev, project]);
+      await switchProject(project.id);
+  };
+
+  const handleRenameProject = async (projectId: string, name: string) => {
+      await renameProject(projectId, name);
+      setProjects(prev => prev.map(p => p.id === projectId ? { ...p, name, updatedAt: Date.now() } : p));
+  };
+
+  const handleDuplicateProject = async (projectId: string) => {
+      if (projectId === activeProjectId) await flushActiveProject();
+      const copy = await duplicateProject(projectId);
+      if (copy) setProjects(prev => [...prev, copy]);
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+      const remaining = projects.filter(p => p.id !== projectId);
+      if (remaining.length === 0) return;
+      const isDeletingActive = projectId === activeProjectId;
+      if (isDeletingActive) {
+          if (hasActiveGenerations) return;
+          await switchProject(remaining[0].id, true);
+      }
+      await deleteProject(projectId);
+      setProjects(remaining);
+      // The open canvas's undo history may reach further back than what was persisted
+      collectOrphanedAssets(isDeletingActive ? [] : [layers, ...history]).catch(error => console.error('Asset GC failed:', error));
+  };
+
+  const handleExportProject = async (projectId: string): Promise<boolean> => {
+      const project = projects.find(p => p.id === projectId);
+      if (!project) return false;
+      try {
+          let snapshot: ProjectSnapshot;
+          if (projectId === activeProjectId) {
+              snapshot = { name: project.name, layers, viewState: { offset: canvasOffset, scale }, history, historyIndex };
+          } else {
+              const [savedLayers, savedView, savedHistory] = await Promise.all([loadLayers(projectId), loadViewState(projectId), loadHistory(projectId)]);
+              snapshot = { name: project.name, layers: savedLayers || [], viewState: savedView, history: savedHistory?.history || [], historyIndex: savedHistory?.index || 0 };
+          }
+          const archive = await exportProjectArchive(snapshot);
+          const url = URL.createObjectURL(archive);
+          const link = document.createElement('a');
+          link.download = `${project.name.replace(/\s+/g, '_')}${ARCHIVE_EXTENSION}`;
+          link.href = url;
+          link.click();
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+          return true;
+      } catch (error) {
+          console.error('Project export failed:', error);
+          alert('Failed to export canvas.');
+          return false;
+      }
+  };
+
+  const handleImportProject = async (file: File) => {
+      if (hasActiveGenerations) return;
+      try {
+          const snapshot = await importProjectArchive(file);
+          const project = await createProject(snapshot.name || file.name.replace(/\.[^/.]+$/, ''));
+          await Promise.all([
+              saveLayers(project.id, snapshot.layers),
+              saveHistory(project.id, snapshot.history.length > 0 ? snapshot.history : [snapshot.layers], snapshot.historyIndex),
+              snapshot.viewState ? saveViewState(project.id, snapshot.viewState.offset, snapshot.viewState.scale) : Promise.resolve()
+          ]);
+          setProjects(prev => [...prev, project]);
+          await switchProject(project.id);
+      } catch (error: any) {
+          console.error('Project import failed:', error);
+          alert(error.message || 'Failed to import canvas.');
+      }
   };
 
   const handleLayerFocus = (id: string) => {
@@ -331,7 +687,8 @@ const App: React.FC = () => {
   };
 
   // --- Generation Handlers ---
-  const handleGlobalGenerate = async (prompt: string, attachments: Attachment[], model: ModelId, aspectRatio: string, creativity: number, imageSize: string, resolution: '720p' | '1080p', mediaType: MediaType, duration: string, videoMode: VideoMode, startImageIndex?: number, count: number = 1, voice?: string, shouldImprovePrompt: boolean = false) => {
+  const handleGlobalGenerate = async (prompt: string, attachments: Attachment[], model: GenerationModelId, aspectRatio: string, creativity: number, imageSize: string, resolution: '720p' | '1080p', mediaType: MediaType, duration: string, videoMode: VideoMode, startImageIndex?: number, count: number = 1, voice?: string, shouldImprovePrompt: boolean = false) => {
+    if (isOverBudget()) return;
     const requestCount = mediaType === 'video' || mediaType === 'audio' ? 1 : count;
     const allBase64s = attachments.map(a => a.base64);
     let finalAspectRatio = aspectRatio;
@@ -367,6 +724,7 @@ const App: React.FC = () => {
             improvedPrompt: undefined,              // Will be set after improvement completes
             lastDraftPrompt: undefined,             // Output layer starts with empty PromptBar
             referenceImages: allBase64s,
+            sourceLayerIds: collectSourceLayerIds(attachments),
             title: shouldImprovePrompt && mediaType === 'image' ? "Enhancing..." : "Generating...",
             createdAt: Date.now(), isLoading: true,
             generationMetadata: { model, aspectRatio: finalAspectRatio, creativity, imageSize, resolution, duration, videoMode, voice }
@@ -375,10 +733,11 @@ const App: React.FC = () => {
         newTasks.set(layerId, {
             id: crypto.randomUUID(),
             layerId,
-            status: 'generating',
+            status: 'queued',
             abortController,
             mediaType,
             startedAt: Date.now(),
+            model,
             progress: 0
         });
     }
@@ -409,7 +768,8 @@ const App: React.FC = () => {
 
         const callbacks: GenerationCallbacks = {
             signal: task.abortController.signal,
-            onProgress: (progress) => updateTaskProgress(placeholder.id, progress)
+            onProgress: (progress) => updateTaskProgress(placeholder.id, progress),
+            onPolling: (operationId) => recordTaskOperation(placeholder.id, operationId)
         };
 
         try {
@@ -419,35 +779,18 @@ const App: React.FC = () => {
                  if (videoMode === 'standard' && allBase64s.length > 0) startImage = allBase64s[0];
                  else if (videoMode === 'interpolation') { if (allBase64s.length > 0) startImage = allBase64s[0]; if (allBase64s.length > 1) endImage = allBase64s[1]; }
                  else if (videoMode === 'references') { refs = allBase64s; startImage = undefined; }
-                 result = await generateVideoContent({ prompt: apiPrompt, model, mediaType, videoMode, startImage, endImage, referenceImages: refs, aspectRatio: finalAspectRatio, resolution, durationSeconds: duration }, callbacks);
+                 result = await enqueueGeneration(placeholder.id, { prompt: apiPrompt, model, mediaType, videoMode, startImage, endImage, referenceImages: refs, aspectRatio: finalAspectRatio, resolution, durationSeconds: duration }, callbacks);
             } else if (mediaType === 'audio') {
-                 result = await generateSpeechContent({ prompt: apiPrompt, model, mediaType, voice }, callbacks);
+                 result = await enqueueGeneration(placeholder.id, { prompt: apiPrompt, model, mediaType, voice }, callbacks);
             } else {
                 // Build prompt with @image reference mapping for image generation
                 const promptWithRefs = buildPromptWithReferences(apiPrompt, attachments);
-                result = await generateImageContent({ prompt: promptWithRefs, model, mediaType, referenceImages: allBase64s, aspectRatio: finalAspectRatio, creativity, imageSize }, callbacks);
-            }
-            // Store in asset store for images (blob-based for performance)
-            let finalSrc = result.url;
-            let thumbnail: string | undefined;
-            let imageId: string | undefined;
-            let thumbnailId: string | undefined;
-            if (mediaType === 'image' && result.url) {
-                try {
-                  const thumbnailBase64 = await generateThumbnail(result.url);
-                  [imageId, thumbnailId] = await Promise.all([
-                    storeAsset(result.url),
-                    storeAsset(thumbnailBase64)
-                  ]);
-                  const [imageUrl, thumbUrl] = await Promise.all([
-                    getAssetUrl(imageId),
-                    getAssetUrl(thumbnailId)
-                  ]);
-                  finalSrc = imageUrl || result.url;
-                  thumbnail = thumbUrl;
-                } catch (e) { console.warn('Asset storage failed:', e); }
+                result = await enqueueGeneration(placeholder.id, { prompt: promptWithRefs, model, mediaType, referenceImages: allBase64s, aspectRatio: finalAspectRatio, creativity, imageSize }, callbacks);
             }
-            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, src: finalSrc, thumbnail, imageId, thumbnailId, title: title, videoMetadata: result.metadata, generationMetadata: result.generationConfig, isLoading: false, duration: mediaType === 'video' ? parseInt(duration) : undefined }));
+            trackUsage(activeProjectId, result.usage);
+            // Store in asset store (blob-based, survives reload)
+            const media = await persistResultMedia(result.url, mediaType);
+            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, ...media, title: title, videoMetadata: result.metadata, generationMetadata: result.generationConfig, isLoading: false, duration: mediaType === 'video' ? parseInt(duration) : undefined }));
             // Remove completed task
             setGenerationTasks(prev => { const next = new Map(prev); next.delete(placeholder.id); return next; });
         } catch (error: any) {
@@ -455,36 +798,46 @@ const App: React.FC = () => {
                 // Cancelled - layer already removed by cancelGeneration
                 return;
             }
-            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, isLoading: false, error: error.message || "Generation failed" }));
+            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, isLoading: false, ...getLayerError(error) }));
             setGenerationTasks(prev => { const next = new Map(prev); next.delete(placeholder.id); return next; });
         }
     }))
     setLayers(current => { addToHistory(current); return current; }); setIsSidebarOpen(true);
   };
 
-  const handleLayerGenerate = async (originalLayerId: string, prompt: string, attachments: Attachment[], model: ModelId, aspectRatio: string, creativity: number, imageSize: string, resolution: '720p' | '1080p', mediaType: MediaType, duration: string, videoMode: VideoMode, startImageIndex?: number, count: number = 1, voice?: string, shouldImprovePrompt: boolean = false) => {
+  const handleLayerGenerate = async (originalLayerId: string, prompt: string, attachments: Attachment[], model: GenerationModelId, aspectRatio: string, creativity: number, imageSize: string, resolution: '720p' | '1080p', mediaType: MediaType, duration: string, videoMode: VideoMode, startImageIndex?: number, count: number = 1, voice?: string, shouldImprovePrompt: boolean = false, rerun?: { improvedPrompt?: string }, edit?: MaskedEdit) => {
     const original = layers.find(l => l.id === originalLayerId);
-    if (!original) return;
-
-    // Save the draft prompt to the source layer (so it remembers what was typed)
-    setLayers(prev => prev.map(l =>
-      l.id === originalLayerId
-        ? { ...l, lastDraftPrompt: prompt }
-        : l
-    ));
+    if (!original || isOverBudget()) return;
+
+    // Save the draft prompt to the source layer (so it remembers what was typed).
+    // Re-runs from stored settings weren't typed into this layer, so they leave its draft alone.
+    if (!rerun) {
+        setLayers(prev => prev.map(l =>
+          l.id === originalLayerId
+            ? { ...l, lastDraftPrompt: prompt }
+            : l
+        ));
+    }
 
     const requestCount = mediaType === 'video' || mediaType === 'audio' ? 1 : count;
     let finalAspectRatio = aspectRatio === 'Auto' ? (mediaType === 'video' ? '16:9' : resolveAspectRatio(aspectRatio, original)) : aspectRatio;
 
     let width = 400, height = 400;
     if (mediaType === 'audio') { width = 300; height = 120; }
+    else if (edit) { width = edit.width ?? original.width; height = edit.height ?? original.height; } // Masked edits keep the source's scale
     else { const dim = getDimensionsFromAspectRatio(finalAspectRatio); width = dim.width; height = dim.height; }
 
-    const isPlaceholder = original.src === PLACEHOLDER_SRC;
+    // Failed generations are retried in place, like a placeholder being filled
+    const isPlaceholder = original.src === PLACEHOLDER_SRC || !!original.error;
     const pos = isPlaceholder ? { x: original.x, y: original.y } : findSmartPosition(original, width, height, layers);
 
     const gap = 20; const cols = Math.ceil(Math.sqrt(requestCount));
 
+    // Lineage: results derive from the edited layer; a replaced placeholder passes on its own sources instead
+    const sourceLayerIds = isPlaceholder
+        ? collectSourceLayerIds(attachments, ...(original.sourceLayerIds || [])).filter(id => id !== originalLayerId)
+        : collectSourceLayerIds(attachments, originalLayerId);
+
     // 1. Create placeholders IMMEDIATELY (before any API calls)
     const placeholders: LayerData[] = [];
     const newTasks = new Map<string, GenerationTask>();
@@ -500,6 +853,8 @@ const App: React.FC = () => {
             improvedPrompt: undefined,          // Will be set after improvement completes
             lastDraftPrompt: undefined,         // Output layer starts with empty PromptBar
             referenceImages: attachments.map(a => a.base64),
+            maskedEdit: edit,
+            sourceLayerIds,
             title: shouldImprovePrompt && mediaType === 'image' ? "Enhancing..." : "Remixing...",
             createdAt: Date.now(), isLoading: true,
             generationMetadata: { model, aspectRatio: finalAspectRatio, creativity, imageSize, resolution, duration, videoMode, voice }
@@ -508,10 +863,11 @@ const App: React.FC = () => {
         newTasks.set(layerId, {
             id: crypto.randomUUID(),
             layerId,
-            status: 'generating',
+            status: 'queued',
             abortController,
             mediaType,
             startedAt: Date.now(),
+            model,
             progress: 0
         });
     }
@@ -526,7 +882,9 @@ const App: React.FC = () => {
     // 2. Run prompt improvement and title generation IN PARALLEL
     const allBase64s = attachments.map(a => a.base64);
     const [enhancedPrompt, title] = await Promise.all([
-        shouldImprovePrompt && mediaType === 'image' && prompt.trim()
+        rerun?.improvedPrompt
+            ? Promise.resolve(rerun.improvedPrompt)
+            : shouldImprovePrompt && mediaType === 'image' && prompt.trim()
             ? improvePrompt(prompt, attachments).catch(() => undefined)
             : Promise.resolve(undefined),
         generateLayerTitle(prompt)
@@ -547,7 +905,8 @@ const App: React.FC = () => {
 
         const callbacks: GenerationCallbacks = {
             signal: task.abortController.signal,
-            onProgress: (progress) => updateTaskProgress(placeholder.id, progress)
+            onProgress: (progress) => updateTaskProgress(placeholder.id, progress),
+            onPolling: (operationId) => recordTaskOperation(placeholder.id, operationId)
         };
 
         try {
@@ -557,40 +916,25 @@ const App: React.FC = () => {
                  if (videoMode === 'standard' && allBase64s.length > 0) startImage = allBase64s[0];
                  else if (videoMode === 'interpolation') { if (allBase64s.length > 0) startImage = allBase64s[0]; if (allBase64s.length > 1) endImage = allBase64s[1]; }
                  else if (videoMode === 'references') { refs = allBase64s; startImage = undefined; }
-                 result = await generateVideoContent({ prompt: apiPrompt, model, mediaType, videoMode, startImage, endImage, referenceImages: refs, aspectRatio: finalAspectRatio, resolution, durationSeconds: duration }, callbacks);
+                 result = await enqueueGeneration(placeholder.id, { prompt: apiPrompt, model, mediaType, videoMode, startImage, endImage, referenceImages: refs, aspectRatio: finalAspectRatio, resolution, durationSeconds: duration }, callbacks);
             } else if (mediaType === 'audio') {
-                 result = await generateSpeechContent({ prompt: apiPrompt, model, mediaType, voice }, callbacks);
+                 result = await enqueueGeneration(placeholder.id, { prompt: apiPrompt, model, mediaType, voice }, callbacks);
             } else {
                 // Build prompt with @image reference mapping for image generation
                 const promptWithRefs = buildPromptWithReferences(apiPrompt, attachments);
-                result = await generateImageContent({ prompt: promptWithRefs, model, mediaType, referenceImages: allBase64s, aspectRatio: finalAspectRatio, creativity, imageSize }, callbacks);
+                result = await enqueueGeneration(placeholder.id, { prompt: promptWithRefs, model, mediaType, referenceImages: allBase64s, maskImage: edit?.mask, aspectRatio: finalAspectRatio, creativity, imageSize }, callbacks);
             }
-            // Store in asset store for images (blob-based for performance)
-            let finalSrc = result.url;
-            let thumbnail: string | undefined;
-            let imageId: string | undefined;
-            let thumbnailId: string | undefined;
-            if (mediaType === 'image' && result.url) {
-                try {
-                  const thumbnailBase64 = await generateThumbnail(result.url);
-                  [imageId, thumbnailId] = await Promise.all([
-                    storeAsset(result.url),
-                    storeAsset(thumbnailBase64)
-                  ]);
-                  const [imageUrl, thumbUrl] = await Promise.all([
-                    getAssetUrl(imageId),
-                    getAssetUrl(thumbnailId)
-                  ]);
-                  finalSrc = imageUrl || result.url;
-                  thumbnail = thumbUrl;
-                } catch (e) { console.warn('Asset storage failed:', e); }
-            }
-            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, src: finalSrc, thumbnail, imageId, thumbnailId, title: title, videoMetadata: result.metadata, generationMetadata: result.generationConfig, isLoading: false, duration: mediaType === 'video' ? parseInt(duration) : undefined }));
+            trackUsage(activeProjectId, result.usage);
+            // Masked edits keep the original's pixels outside the mask, whatever the model changed there
+            const url = edit ? await blendMaskedResult(allBase64s[0], result.url, edit.mask, edit.seam) : result.url;
+            // Store in asset store (blob-based, survives reload)
+            const media = await persistResultMedia(url, mediaType);
+            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, ...media, title: title, videoMetadata: result.metadata, generationMetadata: result.generationConfig, isLoading: false, duration: mediaType === 'video' ? parseInt(duration) : undefined }));
             setGenerationTasks(prev => { const next = new Map(prev); next.delete(placeholder.id); return next; });
             if (requestCount === 1 && idx === 0) setSelectedLayerId(placeholder.id);
         } catch (error: any) {
             if (error.name === 'AbortError') return;
-            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, isLoading: false, error: error.message || "Generation failed" }));
+            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, isLoading: false, ...getLayerError(error) }));
             setGenerationTasks(prev => { const next = new Map(prev); next.delete(placeholder.id); return next; });
         }
     }))
@@ -599,11 +943,12 @@ const App: React.FC = () => {
 
   const handleExtendVideo = async (layerId: string, prompt: string) => {
       const original = layers.find(l => l.id === layerId);
-      if (!original) return;
+      if (!original || isOverBudget()) return;
 
       let inputVideoMetadata = original.videoMetadata;
       if (!inputVideoMetadata && original.src) {
-            const src = original.src; const parts = src.split(','); const base64Data = parts[1] || src; let mimeType = 'video/mp4'; const match = src.match(/data:([^;]+);base64,/); if (match) mimeType = match[1];
+            // Blob URLs can't be sent to the API - read the stored video back as base64
+            const src = (original.imageId && await getAssetBase64(original.imageId)) || original.src; const parts = src.split(','); const base64Data = parts[1] || src; let mimeType = 'video/mp4'; const match = src.match(/data:([^;]+);base64,/); if (match) mimeType = match[1];
             inputVideoMetadata = { videoBytes: base64Data, mimeType: mimeType };
       }
       if (!inputVideoMetadata) { alert("Cannot extend this layer."); return; }
@@ -612,15 +957,16 @@ const App: React.FC = () => {
       const placeholderId = crypto.randomUUID();
       const abortController = new AbortController();
 
-      const placeholder: LayerData = { id: placeholderId, type: 'video', x: pos.x, y: pos.y, width: original.width, height: original.height, src: '', promptUsed: prompt, referenceImages: [], title: "Extending...", createdAt: Date.now(), isLoading: true };
+      const placeholder: LayerData = { id: placeholderId, type: 'video', x: pos.x, y: pos.y, width: original.width, height: original.height, src: '', promptUsed: prompt, referenceImages: [], sourceLayerIds: [layerId], title: "Extending...", createdAt: Date.now(), isLoading: true };
 
       const task: GenerationTask = {
           id: crypto.randomUUID(),
           layerId: placeholderId,
-          status: 'generating',
+          status: 'queued',
           abortController,
           mediaType: 'video',
           startedAt: Date.now(),
+          model: ModelId.VEO_3_1_HIGH,
           progress: 0
       };
 
@@ -629,32 +975,128 @@ const App: React.FC = () => {
 
       const callbacks: GenerationCallbacks = {
           signal: abortController.signal,
-          onProgress: (progress) => updateTaskProgress(placeholderId, progress)
+          onProgress: (progress) => updateTaskProgress(placeholderId, progress),
+          onPolling: (operationId) => recordTaskOperation(placeholderId, operationId)
       };
 
       try {
-            const [videoResult, title] = await Promise.all([ generateVideoContent({ prompt: prompt, model: ModelId.VEO_3_1_HIGH, mediaType: 'video', inputVideoMetadata: inputVideoMetadata, resolution: '720p', aspectRatio: '16:9' }, callbacks), generateLayerTitle(prompt) ]);
-            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, src: videoResult.url, title: title + " (Ext)", videoMetadata: videoResult.metadata, generationMetadata: videoResult.generationConfig, isLoading: false, duration: 8 }));
+            const [videoResult, title] = await Promise.all([ enqueueGeneration(placeholderId, { prompt: prompt, model: ModelId.VEO_3_1_HIGH, mediaType: 'video', inputVideoMetadata: inputVideoMetadata, resolution: '720p', aspectRatio: '16:9' }, callbacks), generateLayerTitle(prompt) ]);
+            trackUsage(activeProjectId, videoResult.usage);
+            const media = await persistResultMedia(videoResult.url, 'video');
+            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, ...media, title: title + " (Ext)", videoMetadata: videoResult.metadata, generationMetadata: videoResult.generationConfig, isLoading: false, duration: 8 }));
             setGenerationTasks(prev => { const next = new Map(prev); next.delete(placeholderId); return next; });
             setSelectedLayerId(placeholder.id);
       } catch (error: any) {
             if (error.name === 'AbortError') return;
-            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, isLoading: false, error: error.message || "Extension failed" }));
+            setLayers(prev => prev.map(l => l.id !== placeholder.id ? l : { ...l, isLoading: false, ...getLayerError(error, "Extension failed") }));
             setGenerationTasks(prev => { const next = new Map(prev); next.delete(placeholderId); return next; });
       }
       finally { setLayers(current => { addToHistory(current); return current; }); setIsSidebarOpen(true); }
   };
 
+  // Queue the exact stored request again; the variation lands beside the original
+  const handleRegenerateLayer = (layerId: string) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer) return;
+      const settings = getStoredPromptState(layer);
+      handleLayerGenerate(layerId, settings.prompt, getStoredReferenceAttachments(layer), settings.model, settings.aspectRatio, settings.creativity, settings.imageSize, settings.videoResolution, settings.mediaType, settings.videoDuration, settings.videoMode, -1, 1, settings.voice, false, { improvedPrompt: layer.improvedPrompt }, layer.maskedEdit);
+  };
+
+  // Send a failed generation again from what its placeholder stored, replacing it. Optionally on another model.
+  const handleRetryGeneration = (layerId: string, model?: GenerationModelId) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer || !canRetryGeneration(layer)) return;
+      if (isExtensionPlaceholder(layer)) {
+          setLayers(prev => prev.filter(l => l.id !== layerId));
+          handleExtendVideo(layer.sourceLayerIds![0], layer.promptUsed || '');
+          return;
+      }
+      const settings = getStoredPromptState(layer);
+      handleLayerGenerate(layerId, settings.prompt, getStoredReferenceAttachments(layer), model || settings.model, settings.aspectRatio, settings.creativity, settings.imageSize, settings.videoResolution, settings.mediaType, settings.videoDuration, settings.videoMode, -1, 1, settings.voice, false, { improvedPrompt: layer.improvedPrompt }, layer.maskedEdit);
+  };
+
+  // Open the global PromptBar prefilled with the stored request so a single parameter can be changed
+  const handleRemixLayer = (layerId: string) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer) return;
+      setSelectedLayerIds([]);
+      setGlobalAttachments(getStoredReferenceAttachments(layer));
+      setRemixSource({ layerId, title: layer.title, initialValues: getStoredPromptState(layer) });
+      setTimeout(() => promptInputRef.current?.focus(), 50);
+  };
+
+  const cancelRemix = () => {
+      setRemixSource(null);
+      setGlobalAttachments([]);
+  };
+
+  const handleRemixSubmit: typeof handleGlobalGenerate = async (prompt, attachments, model, aspectRatio, creativity, imageSize, resolution, mediaType, duration, videoMode, startImageIndex, count, voice, shouldImprovePrompt) => {
+      if (!remixSource) return;
+      const { layerId } = remixSource;
+      setRemixSource(null);
+      setGlobalAttachments([]);
+      // The source may have been deleted while the remix was being edited
+      if (!layers.some(l => l.id === layerId)) { await handleGlobalGenerate(prompt, attachments, model, aspectRatio, creativity, imageSize, resolution, mediaType, duration, videoMode, startImageIndex, count, voice, shouldImprovePrompt); return; }
+      await handleLayerGenerate(layerId, prompt, attachments, model, aspectRatio, creativity, imageSize, resolution, mediaType, duration, videoMode, startImageIndex, count, voice, shouldImprovePrompt, {});
+  };
+
+  // Re-cut a cutout from its original with the given refine strokes. Only the latest request per layer lands.
+  const updateCutout = async (layer: LayerData, strokes: MatteStroke[]) => {
+      const source = layers.find(l => l.id === layer.matte?.sourceLayerId);
+      if (!source) { alert('The original layer was deleted, so this cutout can no longer be redone or refined.'); return; }
+      const request = (cutoutRequestsRef.current.get(layer.id) ?? 0) + 1;
+      cutoutRequestsRef.current.set(layer.id, request);
+      try {
+          const media = await persistResultMedia(await removeBackground(await getLayerBase64(source), strokes), 'image');
+          if (cutoutRequestsRef.current.get(layer.id) !== request) return;
+          setLayers(prev => { const next = prev.map(l => l.id !== layer.id ? l : { ...l, ...media, fullResEvicted: undefined, matte: { sourceLayerId: source.id, strokes } }); addToHistory(next); return next; });
+      } catch (error) {
+          console.error('Cutout update failed:', error);
+      }
+  };
+
+  // Cut the subject out locally, no model call. The original stays put and the cutout lands beside it, linked
+  // so it can be redone; on a cutout itself this redoes the cut from the original, dropping refinements.
+  // The matte is cut from the raw pixels, so the cutout carries the original's adjustments to look the same.
   const handleRemoveBackground = async (layerId: string) => {
-      const layer = layers.find(l => l.id === layerId); if (!layer || layer.type === 'video') return;
-      // Get base64 from asset store if available (blob URLs don't work for API calls)
-      let base64Data = layer.src;
-      if (layer.imageId) {
-          const assetBase64 = await getAssetBase64(layer.imageId);
-          if (assetBase64) base64Data = assetBase64;
+      const layer = layers.find(l => l.id === layerId); if (!layer || layer.type !== 'image') return;
+      if (layer.matte) { await updateCutout(layer, []); return; }
+      try {
+          const media = await persistResultMedia(await removeBackground(await getLayerBase64(layer)), 'image');
+          const pos = findSmartPosition(layer, layer.width, layer.height, layers);
+          const cutout: LayerData = {
+              id: crypto.randomUUID(), type: 'image', x: pos.x, y: pos.y, width: layer.width, height: layer.height, ...media,
+              title: `${layer.title} (Cutout)`, createdAt: Date.now(), flipX: layer.flipX, flipY: layer.flipY, crop: layer.crop, adjustments: layer.adjustments,
+              sourceLayerIds: [layer.id], matte: { sourceLayerId: layer.id, strokes: [] }
+          };
+          setLayers(prev => { const next = [...prev, cutout]; addToHistory(next); return next; });
+          setSelectedLayerId(cutout.id);
+      } catch (error) {
+          console.error('Background removal failed:', error);
+          alert('Background removal failed. The image could not be read.');
       }
-      const attachment: Attachment = { id: crypto.randomUUID(), file: new File([], "layer.png"), previewUrl: layer.src, mimeType: 'image/png', base64: base64Data };
-      await handleLayerGenerate(layerId, "Remove the background. Keep subject.", [attachment], ModelId.GEMINI_2_5_FLASH_IMAGE, "Auto", 30, "1K", "720p", "image", "6", "standard", -1);
+  };
+
+  // Refine brush strokes arrive in the cutout layer's coordinates, all those painted since its last update
+  const handleRefineMatte = async (layerId: string, strokes: MatteStroke[]) => {
+      const layer = layers.find(l => l.id === layerId);
+      const source = layers.find(l => l.id === layer?.matte?.sourceLayerId);
+      if (!layer?.matte) return;
+      if (!source) { await updateCutout(layer, layer.matte.strokes); return; } // Reports the missing original
+      const size = await getNaturalSize(await getLayerBase64(source));
+      // The layer shows the cropped part; strokes land on the whole image, shifted by the crop
+      const crop = layer.crop ?? FULL_FRAME;
+      const imageStrokes = toImageStrokes(strokes, layer, size.width * crop.width, size.height * crop.height)
+          .map(stroke => ({ ...stroke, points: stroke.points.map(p => ({ x: p.x + crop.x * size.width, y: p.y + crop.y * size.height })) }));
+      await updateCutout(layer, [...layer.matte.strokes, ...imageStrokes]);
+  };
+
+  // Inpaint or outpaint an image layer. The first attachment is the image being edited; the rest are extra references.
+  const handleMaskedEdit = (layerId: string, prompt: string, attachments: Attachment[], edit: MaskedEdit, model: GenerationModelId, creativity: number, imageSize: string, shouldImprovePrompt?: boolean) => {
+      const imageModel = getModel(model)?.type === 'image' ? model : DEFAULT_MODEL;
+      // Outpainting grows the frame, so the ratio comes from the new size rather than the layer's
+      const aspectRatio = edit.width && edit.height ? getClosestAspectRatio(edit.width, edit.height) : 'Auto';
+      handleLayerGenerate(layerId, prompt, attachments, imageModel, aspectRatio, creativity, imageSize, '720p', 'image', '6', 'standard', -1, 1, undefined, shouldImprovePrompt, undefined, edit);
   };
 
   // --- Creation Handlers ---
@@ -700,7 +1142,17 @@ const App: React.FC = () => {
     setSelectedLayerId(newLayer.id);
   };
 
+  // Layers an action on `id` applies to: the whole selection if `id` is part of it
+  const getActionTargetIds = useCallback((id: string): string[] => {
+    const selection = selectedLayerIdsRef.current;
+    return selection.includes(id) ? selection : [id];
+  }, []);
+
   const updateLayerPosition = useCallback((id: string, x: number, y: number) => {
+    // Dragging a member of the selection moves the whole selection; everything nested in a moving group travels along
+    const movingIds = collectSubtreeIds(layers, getActionTargetIds(id));
+    const isMoving = (l: LayerData) => movingIds.has(l.id);
+
     // Snapping Logic
     const SNAP_THRESHOLD = 5 / scale;
     let snappedX = x;
@@ -711,39 +1163,42 @@ const App: React.FC = () => {
     const movingLayer = layers.find(l => l.id === id);
 
     if (movingLayer) {
-        const movingLeft = x;
-        const movingRight = x + movingLayer.width;
-        const movingCenterX = x + movingLayer.width / 2;
-        const movingTop = y;
-        const movingBottom = y + movingLayer.height;
-        const movingCenterY = y + movingLayer.height / 2;
+        // Edges are those of the box the layer covers on the canvas, so rotated layers snap by what is visible
+        const moving = getLayerBounds({ ...movingLayer, x, y });
+        const offsetX = moving.x - x;
+        const offsetY = moving.y - y;
+        const movingLeft = moving.x;
+        const movingRight = moving.x + moving.width;
+        const movingCenterX = moving.x + moving.width / 2;
+        const movingTop = moving.y;
+        const movingBottom = moving.y + moving.height;
+        const movingCenterY = moving.y + moving.height / 2;
 
         layers.forEach(other => {
-            if (other.id === id) return;
-            // Don't snap to children if moving parent
-            if (other.parentId === id) return;
-            // Don't snap to parent if moving child? (optional, usually ok)
-
-            const otherLeft = other.x;
-            const otherRight = other.x + other.width;
-            const otherCenterX = other.x + other.width / 2;
-            const otherTop = other.y;
-            const otherBottom = other.y + other.height;
-            const otherCenterY = other.y + other.height / 2;
+            // Don't snap to anything that is moving along (selection, contents of moving groups)
+            if (isMoving(other)) return;
+
+            const otherBounds = getLayerBounds(other);
+            const otherLeft = otherBounds.x;
+            const otherRight = otherBounds.x + otherBounds.width;
+            const otherCenterX = otherBounds.x + otherBounds.width / 2;
+            const otherTop = otherBounds.y;
+            const otherBottom = otherBounds.y + otherBounds.height;
+            const otherCenterY = otherBounds.y + otherBounds.height / 2;
 
             // X Snapping
-            if (Math.abs(movingLeft - otherLeft) < SNAP_THRESHOLD) { snappedX = otherLeft; verticalSnap = otherLeft; }
-            else if (Math.abs(movingLeft - otherRight) < SNAP_THRESHOLD) { snappedX = otherRight; verticalSnap = otherRight; }
-            else if (Math.abs(movingRight - otherLeft) < SNAP_THRESHOLD) { snappedX = otherLeft - movingLayer.width; verticalSnap = otherLeft; }
-            else if (Math.abs(movingRight - otherRight) < SNAP_THRESHOLD) { snappedX = otherRight - movingLayer.width; verticalSnap = otherRight; }
-            else if (Math.abs(movingCenterX - otherCenterX) < SNAP_THRESHOLD) { snappedX = otherCenterX - movingLayer.width/2; verticalSnap = otherCenterX; }
+            if (Math.abs(movingLeft - otherLeft) < SNAP_THRESHOLD) { snappedX = otherLeft - offsetX; verticalSnap = otherLeft; }
+            else if (Math.abs(movingLeft - otherRight) < SNAP_THRESHOLD) { snappedX = otherRight - offsetX; verticalSnap = otherRight; }
+            else if (Math.abs(movingRight - otherLeft) < SNAP_THRESHOLD) { snappedX = otherLeft - moving.width - offsetX; verticalSnap = otherLeft; }
+            else if (Math.abs(movingRight - otherRight) < SNAP_THRESHOLD) { snappedX = otherRight - moving.width - offsetX; verticalSnap = otherRight; }
+            else if (Math.abs(movingCenterX - otherCenterX) < SNAP_THRESHOLD) { snappedX = otherCenterX - moving.width/2 - offsetX; verticalSnap = otherCenterX; }
 
             // Y Snapping
-            if (Math.abs(movingTop - otherTop) < SNAP_THRESHOLD) { snappedY = otherTop; horizontalSnap = otherTop; }
-            else if (Math.abs(movingTop - otherBottom) < SNAP_THRESHOLD) { snappedY = otherBottom; horizontalSnap = otherBottom; }
-            else if (Math.abs(movingBottom - otherTop) < SNAP_THRESHOLD) { snappedY = otherTop - movingLayer.height; horizontalSnap = otherTop; }
-            else if (Math.abs(movingBottom - otherBottom) < SNAP_THRESHOLD) { snappedY = otherBottom - movingLayer.height; horizontalSnap = otherBottom; }
-            else if (Math.abs(movingCenterY - otherCenterY) < SNAP_THRESHOLD) { snappedY = otherCenterY - movingLayer.height/2; horizontalSnap = otherCenterY; }
+            if (Math.abs(movingTop - otherTop) < SNAP_THRESHOLD) { snappedY = otherTop - offsetY; horizontalSnap = otherTop; }
+            else if (Math.abs(movingTop - otherBottom) < SNAP_THRESHOLD) { snappedY = otherBottom - offsetY; horizontalSnap = otherBottom; }
+            else if (Math.abs(movingBottom - otherTop) < SNAP_THRESHOLD) { snappedY = otherTop - moving.height - offsetY; horizontalSnap = otherTop; }
+            else if (Math.abs(movingBottom - otherBottom) < SNAP_THRESHOLD) { snappedY = otherBottom - moving.height - offsetY; horizontalSnap = otherBottom; }
+            else if (Math.abs(movingCenterY - otherCenterY) < SNAP_THRESHOLD) { snappedY = otherCenterY - moving.height/2 - offsetY; horizontalSnap = otherCenterY; }
         });
     }
 
@@ -756,21 +1211,21 @@ const App: React.FC = () => {
         const dx = snappedX - target.x;
         const dy = snappedY - target.y;
 
-        // Move Group + Children Logic (Explicit ParentID)
-        if (target.type === 'group') {
-            return prev.map(l => {
-                if (l.id === id) return { ...l, x: snappedX, y: snappedY };
-                if (l.parentId === id) {
-                    return { ...l, x: l.x + dx, y: l.y + dy };
-                }
-                return l;
-            });
-        }
-        return prev.map(l => l.id === id ? { ...l, x: snappedX, y: snappedY } : l);
+        // Move Group + Subtree Logic (Explicit ParentID)
+        const subtree = collectSubtreeIds(prev, movingIds);
+        return prev.map(l => subtree.has(l.id) ? { ...l, x: l.x + dx, y: l.y + dy } : l);
     });
-  }, [layers, scale]);
+  }, [layers, scale, getActionTargetIds]);
   
   const updateLayerTransform = useCallback((id: string, x: number, y: number, width: number, height: number) => { setLayers(prev => prev.map(l => l.id === id ? { ...l, x, y, width, height } : l)); }, []);
+  const updateLayerAdjustments = useCallback((id: string, adjustments: ImageAdjustments) => { setLayers(prev => prev.map(l => l.id === id ? { ...l, adjustments } : l)); }, []);
+  const updateLayerGeometry = useCallback((id: string, geometry: LayerGeometry) => { setLayers(prev => prev.map(l => l.id === id ? { ...l, ...geometry } : l)); }, []);
+  // One undo step for a change that was applied live (sliders, numeric fields); nothing if nothing changed since the last step
+  const commitLayerChange = useCallback(() => { setLayers(current => { if (current !== history[historyIndex]) addToHistory(current); return current; }); }, [addToHistory, history, historyIndex]);
+  // Crop applied from the layer: the crop, the box it leaves and the annotations moved with it, as one undo step
+  const cropLayer = useCallback((id: string, crop: CropRect | undefined, geometry: LayerGeometry, annotations?: Annotation[]) => {
+      setLayers(prev => { const next = prev.map(l => l.id !== id ? l : { ...l, ...geometry, crop, annotations: annotations ?? l.annotations }); addToHistory(next); return next; });
+  }, [addToHistory]);
   const updateLayerAnnotations = useCallback((id: string, annotations: Annotation[]) => { setLayers(prev => prev.map(l => l.id === id ? { ...l, annotations } : l)); }, []);
   const updateLayerText = useCallback((id: string, text: string) => { setLayers(prev => prev.map(l => l.id === id ? { ...l, text } : l)); }, []);
   const updateLayerColor = useCallback((id: string, color: string) => { setLayers(prev => prev.map(l => l.id === id ? { ...l, color } : l)); }, []);
@@ -786,75 +1241,157 @@ const App: React.FC = () => {
   }, []);
   
   const reorderLayer = useCallback((id: string, action: 'front' | 'back' | 'forward' | 'backward') => {
+      const ids = new Set(getActionTargetIds(id));
       setLayers(prev => {
-          const idx = prev.findIndex(l => l.id === id);
-          if (idx === -1) return prev;
-          const newLayers = [...prev];
-          const item = newLayers.splice(idx, 1)[0];
-          
-          if (action === 'front') newLayers.push(item);
-          else if (action === 'back') newLayers.unshift(item);
-          else if (action === 'forward') {
-              const newIdx = Math.min(idx + 1, newLayers.length);
-              newLayers.splice(newIdx, 0, item);
-          } else if (action === 'backward') {
-              const newIdx = Math.max(idx - 1, 0);
-              newLayers.splice(newIdx, 0, item);
+          const moving = prev.filter(l => ids.has(l.id));
+          if (moving.length === 0) return prev;
+          const rest = prev.filter(l => !ids.has(l.id));
+
+          let newLayers: LayerData[];
+          if (action === 'front') newLayers = [...rest, ...moving];
+          else if (action === 'back') newLayers = [...moving, ...rest];
+          else {
+              // Step each selected layer one slot, only swapping with unselected neighbours so the selection keeps its order
+              newLayers = [...prev];
+              const step = action === 'forward' ? 1 : -1;
+              const indices = newLayers.map((l, i) => ids.has(l.id) ? i : -1).filter(i => i !== -1);
+              if (action === 'forward') indices.reverse();
+              for (const i of indices) {
+                  const j = i + step;
+                  if (j < 0 || j >= newLayers.length || ids.has(newLayers[j].id)) continue;
+                  [newLayers[i], newLayers[j]] = [newLayers[j], newLayers[i]];
+              }
           }
+          addToHistory(newLayers);
           return newLayers;
       });
-      setHistoryIndex(i => i + 1); // Simple history tick
-  }, []);
+  }, [addToHistory, getActionTargetIds]);
 
   const handleDragEnd = useCallback((id: string) => { 
       setSnapLines(null);
+      // A multi-selection drag is committed as a single history entry
+      const draggedIds = getActionTargetIds(id);
       setLayers(currentLayers => { 
-          // Check Parent-Child Assignment
-          const dragged = currentLayers.find(l => l.id === id);
-          if (!dragged) return currentLayers;
-          
-          // Don't reparent groups into groups to avoid infinite recursion complexity for now
-          if (dragged.type === 'group') {
-              addToHistory(currentLayers);
-              return currentLayers;
-          }
-
-          const center = { x: dragged.x + dragged.width/2, y: dragged.y + dragged.height/2 };
-          let newParentId: string | undefined = undefined;
-
-          // Find group containing center, iterate in reverse to find top-most group
-          for (let i = currentLayers.length - 1; i >= 0; i--) {
-              const l = currentLayers[i];
-              if (l.type === 'group' && l.id !== id) {
-                  if (center.x >= l.x && center.x <= l.x + l.width && center.y >= l.y && center.y <= l.y + l.height) {
-                      newParentId = l.id;
-                      break;
-                  }
+          let updated = currentLayers;
+          // Layers nested inside another dragged group keep their parent
+          const rootIds = getTopmostIds(updated, draggedIds);
+          for (const draggedId of rootIds) {
+              // Check Parent-Child Assignment
+              const dragged = updated.find(l => l.id === draggedId);
+              if (!dragged) continue;
+
+              // Innermost group under the center; the dragged subtree is excluded so groups can't end up inside themselves
+              const newParentId = findDropParentId(updated, dragged);
+
+              // Update parentId if changed
+              if (dragged.parentId !== newParentId) {
+                 updated = updated.map(l => l.id === draggedId ? { ...l, parentId: newParentId } : l);
               }
           }
-          
-          // Update parentId if changed
-          if (dragged.parentId !== newParentId) {
-             const updated = currentLayers.map(l => l.id === id ? { ...l, parentId: newParentId } : l);
-             addToHistory(updated);
-             return updated;
-          }
-          
-          addToHistory(currentLayers); 
-          return currentLayers; 
+          // Frames grow to keep what was dropped into them fully inside
+          updated = growAncestorsToFit(updated, rootIds);
+          addToHistory(updated); 
+          return updated; 
       }); 
+  }, [addToHistory, getActionTargetIds]);
+
+  // Deleting a group deletes everything nested inside it
+  const deleteLayer = useCallback((id: string) => {
+      const targetIds = getActionTargetIds(id);
+      setLayers(prev => {
+          const ids = collectSubtreeIds(prev, targetIds);
+          const next = prev.filter(l => !ids.has(l.id)); addToHistory(next);
+          setSelectedLayerIds(selection => selection.filter(selectedId => !ids.has(selectedId)));
+          return next;
+      });
+  }, [addToHistory, getActionTargetIds]);
+  // Duplicating a group copies its whole subtree
+  const duplicateLayer = useCallback((id: string) => {
+      const targetIds = getActionTargetIds(id);
+      setLayers(prev => {
+          const { copies, rootCopyIds } = duplicateSubtrees(prev, targetIds.filter(targetId => prev.some(l => l.id === targetId)));
+          if (copies.length === 0) return prev;
+          // Group copies go to the back like new groups so they stay behind content
+          const next = [...copies.filter(c => c.type === 'group'), ...prev, ...copies.filter(c => c.type !== 'group')];
+          addToHistory(next); setSelectedLayerIds(rootCopyIds); return next;
+      });
+  }, [addToHistory, getActionTargetIds]);
+  const fitGroup = useCallback((id: string) => {
+      setLayers(prev => {
+          const fitted = fitGroupToChildren(prev, id);
+          if (fitted === prev) return prev;
+          // Parent frames may need to grow around the refitted group
+          const next = growAncestorsToFit(fitted, [id]);
+          addToHistory(next); return next;
+      });
+  }, [addToHistory]);
+
+  // --- Arrange ---
+  // Move the selection to positions computed by an arrange command, as one history entry
+  const applyArrangement = useCallback((arrange: (targets: LayerData[]) => LayerPositions) => {
+      const ids = selectedLayerIdsRef.current;
+      setLayers(prev => {
+          // Contents of selected groups travel with their group instead of being arranged on their own
+          const topmostIds = new Set(getTopmostIds(prev, ids));
+          // Arranged by the box each layer covers on the canvas, so rotated layers line up by what is visible
+          const targets = prev.filter(l => topmostIds.has(l.id)).map(l => ({ ...l, ...getLayerBounds(l) }));
+          const positions = arrange(targets);
+          if (positions.size === 0) return prev;
+          const deltas = new Map<string, { dx: number, dy: number }>();
+          targets.forEach(bounds => {
+              const pos = positions.get(bounds.id);
+              if (!pos) return;
+              // Same move for the bounds and the layer's own box
+              for (const movedId of collectSubtreeIds(prev, [bounds.id])) deltas.set(movedId, { dx: pos.x - bounds.x, dy: pos.y - bounds.y });
+          });
+          const next = prev.map(l => {
+              const delta = deltas.get(l.id);
+              return delta ? { ...l, x: l.x + delta.dx, y: l.y + delta.dy } : l;
+          });
+          addToHistory(next);
+          return next;
+      });
   }, [addToHistory]);
 
-  const deleteLayer = useCallback((id: string) => { setLayers(prev => { const next = prev.filter(l => l.id !== id); addToHistory(next); return next; }); if (selectedLayerId === id) setSelectedLayerId(null); }, [selectedLayerId, addToHistory]);
-  const duplicateLayer = useCallback((id: string) => { setLayers(prev => { const layer = prev.find(l => l.id === id); if (!layer) return prev; const newLayer: LayerData = { ...layer, id: crypto.randomUUID(), x: layer.x + 20, y: layer.y + 20, title: `${layer.title} (Copy)`, createdAt: Date.now() }; const next = [...prev, newLayer]; addToHistory(next); setSelectedLayerId(newLayer.id); return next; }); }, [addToHistory]);
-  const exportLayer = useCallback(async (id: string, format: 'png' | 'jpg' | 'mp4' | 'wav') => {
+  // Click / shift-click selection. Clicking a member of a multi-selection keeps the set so it can be dragged together.
+  const handleLayerSelect = useCallback((id: string, additive: boolean = false) => {
+      if (!id) { setSelectedLayerIds([]); return; }
+      setSelectedLayerIds(prev => {
+          if (additive) return prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id];
+          return prev.includes(id) ? prev : [id];
+      });
+  }, []);
+
+  const exportLayer = useCallback(async (id: string, format: 'png' | 'jpg' | 'mp4' | 'wav' | 'svg') => {
     const layer = layers.find(l => l.id === id);
-    if (!layer || !layer.src) return;
+    if (!layer || (!layer.src && !needsComposite(layer))) return;
 
     try {
       let exportUrl = layer.src;
       const filename = `${(layer.title || 'export').replace(/\s+/g, '_')}.${format}`;
 
+      // Drawings and annotation overlays as vectors, for picking up in an illustration tool
+      if (format === 'svg') {
+        const url = URL.createObjectURL(new Blob([renderAnnotationsSvg(layer)], { type: 'image/svg+xml' }));
+        const link = document.createElement('a');
+        link.download = filename;
+        link.href = url;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        return;
+      }
+
+      // A cropped video is re-recorded through the crop, which only WebM can hold
+      if (layer.type === 'video' && hasCrop(layer.crop)) {
+        const url = URL.createObjectURL(await renderCroppedVideo(await getLayerBase64(layer), layer.crop));
+        const link = document.createElement('a');
+        link.download = filename.replace(/\.\w+$/, '.webm');
+        link.href = url;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        return;
+      }
+
       // For video/audio, just download directly
       if (layer.type === 'video' || layer.type === 'audio') {
         const link = document.createElement('a');
@@ -864,46 +1401,19 @@ const App: React.FC = () => {
         return;
       }
 
-      // For images with annotations, composite them
-      if (layer.annotations && layer.annotations.length > 0) {
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        img.src = layer.src;
-        await new Promise(r => img.onload = r);
+      // Adjustments and crop are baked in before anything is drawn over them
+      if (isAdjustedImage(layer)) {
+        exportUrl = await renderAdjustedImage(await getLayerBase64(layer), layer.adjustments, layer.crop);
+      }
 
-        const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(img, 0, 0);
-          // Draw annotations (simplified - text and rectangles)
-          for (const ann of layer.annotations) {
-            ctx.strokeStyle = ann.color || '#ffffff';
-            ctx.fillStyle = ann.color || '#ffffff';
-            ctx.lineWidth = ann.strokeWidth || 2;
-            if (ann.type === 'text' && ann.text) {
-              ctx.font = `${ann.fontSize || 24}px sans-serif`;
-              ctx.fillText(ann.text, ann.points[0].x, ann.points[0].y);
-            } else if (ann.type === 'rectangle' && ann.points.length >= 4) {
-              ctx.beginPath();
-              ctx.moveTo(ann.points[0].x, ann.points[0].y);
-              for (let i = 1; i < ann.points.length; i++) {
-                ctx.lineTo(ann.points[i].x, ann.points[i].y);
-              }
-              ctx.closePath();
-              ctx.stroke();
-            } else if (ann.type === 'pencil' && ann.points.length > 1) {
-              ctx.beginPath();
-              ctx.moveTo(ann.points[0].x, ann.points[0].y);
-              for (let i = 1; i < ann.points.length; i++) {
-                ctx.lineTo(ann.points[i].x, ann.points[i].y);
-              }
-              ctx.stroke();
-            }
-          }
-          exportUrl = canvas.toDataURL(format === 'jpg' ? 'image/jpeg' : 'image/png', 0.9);
-        }
+      // Annotations, and sticky, text and drawing layers, go through the shared rasterizer
+      if (needsComposite(layer)) {
+        exportUrl = await renderLayerComposite(layer, layer.type === 'image' ? exportUrl : undefined);
+      }
+
+      // Rotated or skewed layers export as they sit on the canvas, transparent around the turned frame
+      if (hasTransform(layer)) {
+        exportUrl = await renderTransformedImage(exportUrl, layer);
       }
 
       // Convert to JPG if needed (with white background)
@@ -937,13 +1447,9 @@ const App: React.FC = () => {
   const handleAddAsReference = useCallback(async (layerId: string) => {
       const layer = layers.find(l => l.id === layerId);
       if (!layer || layer.type === 'video') return;
-      // Get base64 from asset store if available (blob URLs don't work for API calls)
-      let base64Data = layer.src;
-      if (layer.imageId) {
-          const assetBase64 = await getAssetBase64(layer.imageId);
-          if (assetBase64) base64Data = assetBase64;
-      }
-      const newAttachment: Attachment = { id: crypto.randomUUID(), file: new File([], `${layer.title || 'reference'}.png`, { type: 'image/png' }), previewUrl: layer.src, mimeType: 'image/png', base64: base64Data, displayName: layer.title || 'reference' };
+      // Full-res from the asset store (blob URLs don't work for API calls), as adjusted
+      const base64Data = await getReferenceBase64(layer);
+      const newAttachment: Attachment = { id: crypto.randomUUID(), file: new File([], `${layer.title || 'reference'}.png`, { type: 'image/png' }), previewUrl: isAdjustedImage(layer) ? base64Data : layer.src, mimeType: 'image/png', base64: base64Data, displayName: layer.title || 'reference', sourceLayerId: layer.id };
       setGlobalAttachments(prev => [...prev, newAttachment]);
       setSelectedLayerId(null);
       setTimeout(() => promptInputRef.current?.focus(), 50);
@@ -996,14 +1502,19 @@ const App: React.FC = () => {
             }; img.src = base64;
         }; reader.readAsDataURL(file);
       } else if (isVideo) {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-             const base64 = event.target?.result as string; const video = document.createElement('video'); video.preload = 'metadata';
-             video.onloadedmetadata = () => { let w = video.videoWidth; let h = video.videoHeight; const MAX = 400; if (w > MAX || h > MAX) { if (w > h) { h = (h / w) * MAX; w = MAX; } else { w = (w / h) * MAX; h = MAX; } }
-                 const newLayer: LayerData = { id: crypto.randomUUID(), type: 'video', x: dropX - (w/2), y: dropY - (h/2), width: w, height: h, src: base64, title: file.name.replace(/\.[^/.]+$/, ""), createdAt: Date.now(), promptUsed: "Uploaded Video", duration: video.duration };
-                 setLayers(prev => { const next = [...prev, newLayer]; addToHistory(next); return next; }); setSelectedLayerId(newLayer.id);
-             }; video.src = base64;
-          }; reader.readAsDataURL(file);
+          // Store the file blob directly - no base64 round-trip for large videos
+          let media: StoredMedia;
+          try {
+              media = await storeLayerMedia(file, 'video');
+          } catch (e) {
+              console.warn('Asset storage failed, falling back to inline:', e);
+              media = { src: await new Promise<string>((resolve) => { const reader = new FileReader(); reader.onload = () => resolve(reader.result as string); reader.readAsDataURL(file); }) };
+          }
+          const video = document.createElement('video'); video.preload = 'metadata';
+          video.onloadedmetadata = () => { let w = video.videoWidth; let h = video.videoHeight; const MAX = 400; if (w > MAX || h > MAX) { if (w > h) { h = (h / w) * MAX; w = MAX; } else { w = (w / h) * MAX; h = MAX; } }
+              const newLayer: LayerData = { id: crypto.randomUUID(), type: 'video', x: dropX - (w/2), y: dropY - (h/2), width: w, height: h, ...media, title: file.name.replace(/\.[^/.]+$/, ""), createdAt: Date.now(), promptUsed: "Uploaded Video", duration: video.duration };
+              setLayers(prev => { const next = [...prev, newLayer]; addToHistory(next); return next; }); setSelectedLayerId(newLayer.id);
+          }; video.src = media.src;
       }
     }
   };
@@ -1014,8 +1525,43 @@ const App: React.FC = () => {
   // RAF batching for smooth pan performance
   const pendingOffsetRef = useRef<{x: number, y: number} | null>(null);
   const rafIdRef = useRef<number>(0);
-  const handleCanvasMouseDown = (e: React.MouseEvent) => { if (e.button === 1 || (e.button === 0 && e.shiftKey)) { e.preventDefault(); setIsPanning(true); panStartRef.current = { x: e.clientX, y: e.clientY }; } else { handleBackgroundClick(e); } };
+  const getCanvasPoint = (e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button === 1 || (e.button === 0 && e.shiftKey)) { e.preventDefault(); setIsPanning(true); panStartRef.current = { x: e.clientX, y: e.clientY }; }
+    else if (e.button === 0 && e.target === e.currentTarget && !isSelectionMode) {
+      // Rubber-band selection on empty canvas; Ctrl/Cmd adds to the current selection
+      const additive = e.ctrlKey || e.metaKey;
+      if (!additive) setSelectedLayerIds([]);
+      const point = getCanvasPoint(e);
+      setMarquee({ start: point, end: point, additive });
+    } else { handleBackgroundClick(e); }
+  };
+  const finishMarquee = () => {
+    if (!marquee) return;
+    setMarquee(null);
+    const left = Math.min(marquee.start.x, marquee.end.x); const top = Math.min(marquee.start.y, marquee.end.y);
+    const right = Math.max(marquee.start.x, marquee.end.x); const bottom = Math.max(marquee.start.y, marquee.end.y);
+    if (right - left < 4 && bottom - top < 4) return; // Plain click - selection already cleared
+    // Convert screen rect to world coordinates
+    const worldLeft = (left - canvasOffset.x) / scale; const worldTop = (top - canvasOffset.y) / scale;
+    const worldRight = (right - canvasOffset.x) / scale; const worldBottom = (bottom - canvasOffset.y) / scale;
+    const hits = layers.filter(layer => {
+      const l = getLayerBounds(layer); // As displayed, rotation and skew included
+      // Group frames are large backdrops - only select them when fully enclosed
+      if (layer.type === 'group') return l.x >= worldLeft && l.y >= worldTop && l.x + l.width <= worldRight && l.y + l.height <= worldBottom;
+      return l.x < worldRight && l.x + l.width > worldLeft && l.y < worldBottom && l.y + l.height > worldTop;
+    }).map(l => l.id);
+    setSelectedLayerIds(prev => marquee.additive ? [...prev, ...hits.filter(id => !prev.includes(id))] : hits);
+  };
   const handleCanvasMouseMove = (e: React.MouseEvent) => {
+    if (marquee) {
+      const point = getCanvasPoint(e);
+      setMarquee(m => m ? { ...m, end: point } : m);
+      return;
+    }
     if (isPanning) {
       const dx = e.clientX - panStartRef.current.x;
       const dy = e.clientY - panStartRef.current.y;
@@ -1036,7 +1582,7 @@ const App: React.FC = () => {
       }
     }
   };
-  const handleCanvasMouseUp = () => { setIsPanning(false); if (rafIdRef.current) { cancelAnimationFrame(rafIdRef.current); rafIdRef.current = 0; } };
+  const handleCanvasMouseUp = () => { finishMarquee(); setIsPanning(false); if (rafIdRef.current) { cancelAnimationFrame(rafIdRef.current); rafIdRef.current = 0; } };
   const handleWheel = (e: React.WheelEvent) => {
     if (e.ctrlKey || e.metaKey) {
       e.preventDefault();
@@ -1055,6 +1601,8 @@ const App: React.FC = () => {
   };
   const zoomIn = () => setScale(s => Math.min(s + 0.1, 5)); const zoomOut = () => setScale(s => Math.max(s - 0.1, 0.1));
 
+  const lineageEdges = useMemo(() => showLineage ? getLineageEdges(layers) : [], [layers, showLineage]);
+
   // Viewport culling: only render layers that are visible or near the viewport
   const visibleLayers = useMemo(() => {
     // Use window dimensions for viewport size
@@ -1071,23 +1619,24 @@ const App: React.FC = () => {
     const margin = 500;
 
     return layers.filter(layer => {
-      // Always show selected layer
-      if (layer.id === selectedLayerId) return true;
+      // Always show selected layers
+      if (selectedLayerIds.includes(layer.id)) return true;
       // Always show layers that are loading (they have UI that shouldn't disappear)
       if (layer.isLoading) return true;
 
-      // Check if layer intersects with expanded viewport
-      const layerRight = layer.x + layer.width;
-      const layerBottom = layer.y + layer.height;
+      // Check if layer (as rotated) intersects with expanded viewport
+      const bounds = getLayerBounds(layer);
+      const layerRight = bounds.x + bounds.width;
+      const layerBottom = bounds.y + bounds.height;
 
       return !(
         layerRight < viewLeft - margin ||
-        layer.x > viewRight + margin ||
+        bounds.x > viewRight + margin ||
         layerBottom < viewTop - margin ||
-        layer.y > viewBottom + margin
+        bounds.y > viewBottom + margin
       );
     });
-  }, [layers, canvasOffset, scale, selectedLayerId]);
+  }, [layers, canvasOffset, scale, selectedLayerIds]);
 
   return (
     <div className={`w-screen h-screen bg-background relative overflow-hidden flex flex-col ${isSelectionMode ? 'cursor-crosshair' : ''}`}>
@@ -1116,10 +1665,14 @@ const App: React.FC = () => {
                  <CanvasLayer
                     layer={layer}
                     isSelected={selectedLayerId === layer.id}
+                    isInSelection={selectedLayerIds.length > 1 && selectedLayerIds.includes(layer.id)}
+                    depth={layer.type === 'group' ? getDepth(layers, layer.id) : 0}
                     scale={scale}
-                    onSelect={(id) => { if (isSelectionMode) handleLayerSelectForAttachment(layer); else setSelectedLayerId(id); }}
+                    onSelect={(id, additive) => { if (isSelectionMode) handleLayerSelectForAttachment(layer); else handleLayerSelect(id, additive); }}
                     onUpdatePosition={updateLayerPosition}
                     onUpdateTransform={updateLayerTransform}
+                    onUpdateGeometry={updateLayerGeometry}
+                    onCrop={cropLayer}
                     onUpdateAnnotations={updateLayerAnnotations}
                     onUpdateText={updateLayerText}
                     onUpdateColor={updateLayerColor}
@@ -1132,11 +1685,17 @@ const App: React.FC = () => {
                     onFlip={flipLayer}
                     onAddReference={handleAddAsReference}
                     onRemoveBackground={handleRemoveBackground}
+                    onRefineMatte={handleRefineMatte}
+                    onMaskedEdit={handleMaskedEdit}
                     onExtendVideo={handleExtendVideo}
                     onReorder={reorderLayer}
+                    onFitGroup={fitGroup}
                     isGenerating={hasActiveGenerations}
                     generationTask={getTaskForLayer(layer.id)}
                     onCancelGeneration={() => cancelGeneration(layer.id)}
+                    onPrioritizeGeneration={() => prioritizeGeneration(layer.id)}
+                    isQueuePaused={isQueuePaused}
+                    onRetryGeneration={canRetryGeneration(layer) ? handleRetryGeneration : undefined}
                     onSelectOnCanvasStart={() => startCanvasSelection('layer')}
                     injectedAttachment={selectionOriginLayerId === layer.id ? injectedAttachment : null}
                     onInjectedAttachmentConsumed={clearInjectedAttachment}
@@ -1145,6 +1704,9 @@ const App: React.FC = () => {
             </div>
             ))}
             
+            {/* Lineage connectors between source and derived layers */}
+            <LineageConnectors layers={layers} edges={lineageEdges} selectedLayerIds={selectedLayerIds} scale={scale} />
+
             {/* Snap Lines - Warm Ember amber */}
             {snapLines?.vertical !== undefined && (
                 <div className="absolute top-[-10000px] bottom-[-10000px] w-px border-l border-dashed border-primary z-[100]" style={{ left: snapLines.vertical }}></div>
@@ -1153,11 +1715,23 @@ const App: React.FC = () => {
                 <div className="absolute left-[-10000px] right-[-10000px] h-px border-t border-dashed border-primary z-[100]" style={{ top: snapLines.horizontal }}></div>
             )}
         </div>
+
+        {/* Marquee selection rectangle (screen space) */}
+        {marquee && (
+            <div className="absolute border border-primary bg-primary/10 pointer-events-none z-[90]" style={{ left: Math.min(marquee.start.x, marquee.end.x), top: Math.min(marquee.start.y, marquee.end.y), width: Math.abs(marquee.end.x - marquee.start.x), height: Math.abs(marquee.end.y - marquee.start.y) }} />
+        )}
       </div>
 
-      {selectedLayerId === null && (
+      {selectedLayerIds.length === 0 && (
           <div className="absolute bottom-8 left-0 right-0 px-4 z-50 pointer-events-none transition-all duration-300" style={{ marginLeft: isSidebarOpen ? 320 : 0 }}>
-             <div className="pointer-events-auto"><PromptBar onSubmit={handleGlobalGenerate} isGenerating={hasActiveGenerations} variant="global" attachments={globalAttachments} onAttachmentsChange={setGlobalAttachments} onSelectOnCanvasStart={() => startCanvasSelection('global')} inputRef={promptInputRef} /></div>
+             {remixSource && (
+                 <div className="mx-auto mb-2 w-max pointer-events-auto flex items-center gap-2 bg-elevated/80 backdrop-blur-xl border border-primary/30 rounded-full px-3 py-1 text-[11px] text-stone-300 shadow-lg">
+                     <Shuffle size={12} className="text-primary" />
+                     <span>Remixing <span className="text-white font-medium">{remixSource.title || 'Untitled'}</span></span>
+                 </div>
+             )}
+             {/* Remounted for a remix so the stored settings become its initial state */}
+             <div className="pointer-events-auto"><PromptBar key={remixSource ? `remix-${remixSource.layerId}` : 'global'} onSubmit={remixSource ? handleRemixSubmit : handleGlobalGenerate} isGenerating={hasActiveGenerations} variant="global" initialValues={remixSource?.initialValues} persistSettings={!remixSource} onCancel={remixSource ? cancelRemix : undefined} placeholder={remixSource ? 'Change what you like, then generate a variation...' : undefined} attachments={globalAttachments} onAttachmentsChange={setGlobalAttachments} onSelectOnCanvasStart={() => startCanvasSelection('global')} inputRef={promptInputRef} /></div>
           </div>
       )}
       
@@ -1166,9 +1740,38 @@ const App: React.FC = () => {
          <div className="bg-elevated/70 backdrop-blur-xl border border-border/50 px-4 py-2 rounded-full text-xs font-medium flex items-center gap-4 shadow-xl shadow-black/30">
              <span className="font-display font-semibold text-primary">GenCanvas</span>
              <span className="w-px h-3 bg-border"></span>
+             <ProjectPicker
+               projects={projects}
+               activeProjectId={activeProjectId}
+               onSwitch={switchProject}
+               onCreate={handleCreateProject}
+               onRename={handleRenameProject}
+               onDuplicate={handleDuplicateProject}
+               onDelete={handleDeleteProject}
+               onExport={handleExportProject}
+               onImport={handleImportProject}
+               disabled={hasActiveGenerations}
+             />
+             <span className="w-px h-3 bg-border"></span>
              <span className="flex items-center gap-1.5 text-text-secondary"><MousePointer2 size={12}/> Select</span>
              <span className="flex items-center gap-1.5 text-text-secondary"><span className="border border-border rounded px-1.5 py-0.5 text-[10px] bg-surface/50">Shift</span> + Drag to Pan</span>
          </div>
+         {isStorageLow && (
+             <button onClick={() => setShowStoragePanel(true)} className={`mx-auto mt-2 flex items-center gap-1.5 px-3 py-1 rounded-full text-[11px] border backdrop-blur-xl ${quotaExceeded || quotaStatus?.level === 'critical' ? 'bg-red-500/15 border-red-500/40 text-red-300' : 'bg-amber-500/15 border-amber-500/40 text-amber-200'}`}>
+                 <AlertTriangle size={12} />
+                 {quotaExceeded ? 'Storage full, changes are not being saved' : 'Storage almost full'} · Manage
+             </button>
+         )}
+         {selectedLayerIds.length > 1 && (
+             <SelectionToolbar
+               count={selectedLayerIds.length}
+               onAlign={(mode) => applyArrangement(targets => alignLayers(targets, mode))}
+               onDistribute={(axis) => applyArrangement(targets => distributeLayers(targets, axis))}
+               onTidy={() => applyArrangement(targets => tidyIntoGrid(targets))}
+               onDuplicate={() => duplicateLayer(selectedLayerIds[0])}
+               onDelete={() => deleteLayer(selectedLayerIds[0])}
+             />
+         )}
       </div>
 
       {/* Right-side Toolbar - Warm Ember enhanced glassmorphism */}
@@ -1180,8 +1783,21 @@ const App: React.FC = () => {
          <button onClick={createTextLayer} className="p-2 rounded-lg text-text-secondary hover:bg-primary/10 hover:text-primary hover:scale-105 transition-all duration-200" title="Add Text Layer"><TypeIcon size={18} /></button>
          <button onClick={createGroup} className="p-2 rounded-lg text-text-secondary hover:bg-primary/10 hover:text-primary hover:scale-105 transition-all duration-200" title="Add Group Frame"><BoxSelect size={18} /></button>
          <button onClick={createDrawingLayer} className="p-2 rounded-lg text-text-secondary hover:bg-primary/10 hover:text-primary hover:scale-105 transition-all duration-200" title="Add Drawing Layer"><Pencil size={18} /></button>
+         <button onClick={() => setShowLineage(prev => !prev)} className={`p-2 rounded-lg transition-all duration-200 hover:scale-105 ${showLineage ? 'bg-primary/10 text-primary' : 'text-text-secondary hover:bg-primary/10 hover:text-primary'}`} title={showLineage ? 'Hide Lineage Connectors' : 'Show Lineage Connectors'}><GitFork size={18} /></button>
+         {(hasActiveGenerations || isQueuePaused) && (
+            <button onClick={() => setQueuePaused(!isQueuePaused)} className={`p-2 rounded-lg transition-all duration-200 hover:scale-105 ${isQueuePaused ? 'bg-amber-500/15 text-amber-400' : 'text-text-secondary hover:bg-primary/10 hover:text-primary'}`} title={isQueuePaused ? 'Resume Generation Queue' : 'Pause Generation Queue (running jobs finish)'}>{isQueuePaused ? <Play size={18} /> : <Pause size={18} />}</button>
+         )}
          <div className="w-full h-px bg-border my-1"></div>
          <button onClick={handleChangeApiKey} className="p-2 rounded-lg text-text-secondary hover:bg-primary/10 hover:text-primary hover:scale-105 transition-all duration-200" title="Change API Key"><Key size={18} /></button>
+         <button onClick={toggleMockMode} className={`p-2 rounded-lg transition-all duration-200 hover:scale-105 ${mockMode ? 'bg-amber-500/15 text-amber-400' : 'text-text-secondary hover:bg-primary/10 hover:text-primary'}`} title={mockMode ? 'Mock Generation On (offline placeholders) - click to use Gemini' : 'Use Mock Generation (offline, no API key)'}><FlaskConical size={18} /></button>
+         <button onClick={() => setShowUsagePanel(true)} className={`relative p-2 rounded-lg transition-all duration-200 hover:scale-105 ${budgetStatus.exceeded ? 'bg-red-500/15 text-red-400' : 'text-text-secondary hover:bg-primary/10 hover:text-primary'}`} title={budgetStatus.exceeded ? 'Budget Reached - new generations are blocked' : 'Usage & Cost'}>
+            <Receipt size={18} />
+            {!budgetStatus.exceeded && budgetStatus.cap !== undefined && budgetStatus.spent >= budgetStatus.cap * 0.8 && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-amber-500" />}
+         </button>
+         <button onClick={() => setShowStoragePanel(true)} className="relative p-2 rounded-lg text-text-secondary hover:bg-primary/10 hover:text-primary hover:scale-105 transition-all duration-200" title="Storage">
+            <HardDrive size={18} />
+            {isStorageLow && <span className={`absolute top-1 right-1 w-2 h-2 rounded-full ${quotaExceeded || quotaStatus?.level === 'critical' ? 'bg-red-500' : 'bg-amber-500'}`} />}
+         </button>
          <button onClick={handleClearCanvas} className="p-2 rounded-lg text-red-400/80 hover:bg-red-500/20 hover:text-red-400 hover:scale-105 transition-all duration-200" title="Clear Canvas"><Trash2 size={18} /></button>
       </div>
 
@@ -1200,7 +1816,28 @@ const App: React.FC = () => {
         onViewportChange={setCanvasOffset}
       />
 
-      <Sidebar isOpen={isSidebarOpen} onToggle={() => setIsSidebarOpen(!isSidebarOpen)} layers={layers} selectedLayerId={selectedLayerId} onSelectLayer={setSelectedLayerId} onRenameLayer={renameLayer} onLayerDoubleClick={handleLayerFocus} onDeleteLayer={deleteLayer} onExportLayer={exportLayer} onDuplicateLayer={duplicateLayer} />
+      <Sidebar isOpen={isSidebarOpen} onToggle={() => setIsSidebarOpen(!isSidebarOpen)} layers={layers} selectedLayerId={selectedLayerId} selectedLayerIds={selectedLayerIds} onSelectLayer={(id, additive) => additive ? handleLayerSelect(id, true) : setSelectedLayerId(id)} onRenameLayer={renameLayer} onLayerDoubleClick={handleLayerFocus} onDeleteLayer={deleteLayer} onExportLayer={exportLayer} onDuplicateLayer={duplicateLayer} onRegenerateLayer={handleRegenerateLayer} onRemixLayer={handleRemixLayer} onAdjustLayer={updateLayerAdjustments} onAdjustLayerEnd={commitLayerChange} onTransformLayer={updateLayerGeometry} onTransformLayerEnd={commitLayerChange} />
+
+      <StoragePanel
+        isOpen={showStoragePanel}
+        onClose={() => setShowStoragePanel(false)}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        loadReport={() => getStorageReport(activeProjectId ? { projectId: activeProjectId, states: [layers, ...history] } : undefined)}
+        onCollectGarbage={handleCollectGarbage}
+        onEvictFullRes={handleEvictFullRes}
+        onArchiveAndEvict={handleArchiveAndEvict}
+        quotaExceeded={quotaExceeded}
+        disabled={hasActiveGenerations}
+      />
+
+      <UsagePanel
+        isOpen={showUsagePanel}
+        onClose={() => setShowUsagePanel(false)}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSettingsChange={() => setBudgetStatus(getBudgetStatus())}
+      />
 
       {/* API Key Modal */}
       <ApiKeyModal
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ImageAdjustments } from '../types';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { hasAdjustments } from '../services/adjustmentService';
+
+interface AdjustmentsPanelProps {
+  adjustments: ImageAdjustments;
+  onChange: (adjustments: ImageAdjustments) => void; // Live, while a slider moves
+  onCommit: () => void; // Slider released; records one undo step
+}
+
+type SliderKey = keyof ImageAdjustments;
+
+const SLIDERS: { key: SliderKey; label: string; min: number; max: number; step: number; format?: (value: number) => string }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05, format: value => `${value > 0 ? '+' : ''}${value.toFixed(2)} EV` },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1, format: value => `${value}°` },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'grayscale', label: 'Grayscale', min: 0, max: 100, step: 1 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+  { key: 'blur', label: 'Blur', min: 0, max: 100, step: 1 },
+];
+
+const sliderClassName = "w-full h-1.5 bg-surface/50 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-110 transition-all";
+
+// Exposure, colour and detail sliders for an image layer (see services/adjustmentService.ts)
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ adjustments, onChange, onCommit }) => {
+  const setValue = (key: SliderKey, value: number) => onChange({ ...adjustments, [key]: value || undefined });
+
+  const commitProps = { onPointerUp: onCommit, onKeyUp: onCommit };
+
+  return (
+    <div className="space-y-2.5">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-semibold text-stone-500 uppercase tracking-wider flex items-center gap-1.5">
+          <SlidersHorizontal size={11} className="text-primary" />
+          Adjustments
+        </span>
+        <button
+          onClick={() => { onChange({}); onCommit(); }}
+          disabled={!hasAdjustments(adjustments)}
+          className="p-1.5 hover:bg-white/5 rounded-md transition-colors text-stone-600 hover:text-stone-400 disabled:opacity-40 disabled:pointer-events-none"
+          title="Reset all adjustments"
+        >
+          <RotateCcw size={12} />
+        </button>
+      </div>
+      <div className="bg-[#0d0c0a] p-3 rounded-lg border border-white/[0.04] space-y-2.5">
+        {SLIDERS.map(({ key, label, min, max, step, format }) => {
+          const value = adjustments[key] ?? 0;
+          return (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center justify-between text-[10px]">
+                <span className="text-stone-500">{label}</span>
+                <button onClick={() => { setValue(key, 0); onCommit(); }} className="font-mono text-stone-400 hover:text-stone-200" title="Reset">
+                  {format ? format(value) : value}
+                </button>
+              </div>
+              <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => setValue(key, parseFloat(e.target.value))} {...commitProps} className={sliderClassName} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentsPanel;
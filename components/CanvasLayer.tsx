@@ -1,8 +1,15 @@
 
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { LayerData, Attachment, ModelId, MediaType, VideoMode, Annotation, PromptState, GenerationTask } from '../types';
+import { LayerData, Attachment, GenerationModelId, MediaType, VideoMode, Annotation, PromptState, GenerationTask, MaskedEdit, MatteStroke, CropRect } from '../types';
 import { DEFAULT_MODEL, STICKY_COLORS, GROUP_COLORS } from '../constants';
 import { getAssetBase64 } from '../services/assetStore';
+import { GENERATION_ERROR_INFO } from '../services/generationErrors';
+import { getRetryModels } from '../services/regenerateService';
+import { getCssFilter, getSharpenMatrix, getTemperatureMatrix, hasAdjustments, isAdjustedImage, needsPixelFilter, renderAdjustedImage } from '../services/adjustmentService';
+import { CROP_ASPECT_RATIOS, CropHandle, FULL_FRAME, fitCropToAspect, getCropFrame, hasCrop, mirrorCrop, moveCrop, parseAspectRatio, renderCroppedVideo, resizeCrop } from '../services/cropService';
+import { getLayerTransform, hasTransform, LayerGeometry, normalizeRotation, renderTransformedImage, resizeFromCorner, ResizeCorner, toCanvasVector, toLocalVector } from '../services/transformService';
+import { canExportSvg, createShapeAnnotation, drawAnnotations, getAnnotationHandles, getAnnotationSize, getCalloutRadius, getContrastColor, getNextCalloutNumber, HIGHLIGHTER_OPACITY, HIGHLIGHTER_WIDTH_SCALE, moveAnnotationHandle, needsComposite, offsetAnnotation, renderAnnotationsSvg, renderLayerComposite, setAnnotationSize, ShapeTool } from '../services/annotationService';
+import { MaskStroke, OutpaintBounds, paintMaskStrokes, renderMaskImage, renderOutpaintCanvas, hasMaskedArea, getNaturalSize } from '../services/inpaintService';
 import PromptBar from './PromptBar';
 import {
     Move, Trash2, MoreHorizontal, Copy, FlipHorizontal,
@@ -10,14 +17,17 @@ import {
     Edit3, PlusCircle, Eraser, Play, Volume2, VolumeX, Loader2, AlertCircle,
     Pencil, Type as TypeIcon, Palette, RotateCcw, BoxSelect, StickyNote,
     BringToFront, SendToBack, ArrowUp, ArrowDown, Mic, Pause, Minus, Plus,
-    Maximize, Square
+    Maximize, Square, Shrink, ListStart, Brush, BrushCleaning, ArrowLeft, ArrowRight, Expand,
+    WandSparkles, CirclePlus, CircleMinus, Sparkles, Check, Highlighter, Circle, Slash, MoveUpRight, CircleDot
 } from 'lucide-react';
 
 interface CanvasLayerProps {
   layer: LayerData;
   isSelected: boolean;
+  isInSelection?: boolean; // Member of a multi-layer selection (highlighted, no single-layer controls)
+  depth?: number; // Group nesting depth, so child frames stack above their parents
   scale: number;
-  onSelect: (id: string) => void;
+  onSelect: (id: string, additive?: boolean) => void;
   onUpdatePosition: (id: string, x: number, y: number) => void;
   onUpdateTransform: (id: string, x: number, y: number, width: number, height: number) => void;
   onUpdateAnnotations: (id: string, annotations: Annotation[]) => void;
@@ -28,7 +38,7 @@ interface CanvasLayerProps {
   onGenerate: (
     prompt: string,
     attachments: Attachment[],
-    model: ModelId,
+    model: GenerationModelId,
     aspectRatio: string,
     creativity: number,
     imageSize: string,
@@ -47,11 +57,19 @@ interface CanvasLayerProps {
   onFlip: (id: string, axis: 'x' | 'y') => void;
   onAddReference: (id: string) => void;
   onRemoveBackground: (id: string) => void;
+  onMaskedEdit?: (id: string, prompt: string, attachments: Attachment[], edit: MaskedEdit, model: GenerationModelId, creativity: number, imageSize: string, shouldImprovePrompt?: boolean) => void;
+  onRefineMatte?: (id: string, strokes: MatteStroke[]) => void; // Strokes in layer coordinates
+  onUpdateGeometry?: (id: string, geometry: LayerGeometry) => void; // Rotation and skew; committed with onDragEnd
+  onCrop?: (id: string, crop: CropRect | undefined, geometry: LayerGeometry, annotations?: Annotation[]) => void; // One undo step
   onExtendVideo?: (id: string, prompt: string) => void;
   onReorder: (id: string, action: 'front' | 'back' | 'forward' | 'backward') => void;
+  onFitGroup?: (id: string) => void;
   isGenerating: boolean;
   generationTask?: GenerationTask;
   onCancelGeneration?: () => void;
+  onPrioritizeGeneration?: () => void;
+  isQueuePaused?: boolean;
+  onRetryGeneration?: (id: string, model?: GenerationModelId) => void;
   onSelectOnCanvasStart?: () => void;
   injectedAttachment?: Attachment | null;
   onInjectedAttachmentConsumed?: () => void;
@@ -61,16 +79,41 @@ interface CanvasLayerProps {
 const DRAWING_COLORS = ['#FFFFFF', '#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#6366F1', '#8B5CF6', '#EC4899', '#000000'];
 const STROKE_WIDTHS = [1, 2, 3, 4, 6, 8, 12, 16];
 const FONT_SIZES = [12, 16, 20, 24, 32, 48, 64];
-
-// Helper to determine text color based on background
-const getContrastColor = (hexColor: string) => {
-    if (!hexColor) return '#000000';
-    const r = parseInt(hexColor.substr(1, 2), 16);
-    const g = parseInt(hexColor.substr(3, 2), 16);
-    const b = parseInt(hexColor.substr(5, 2), 16);
-    const yiq = ((r * 299) + (g * 587) + (b * 114)) / 1000;
-    return (yiq >= 128) ? '#000000' : '#ffffff';
-};
+const MASK_BRUSH_SIZES = [10, 20, 40, 60, 90, 120];
+const MASK_COLOR = '#EF4444';
+const REFINE_MODES: { mode: MatteStroke['mode']; color: string; title: string; icon: typeof Brush }[] = [
+  { mode: 'keep', color: '#22C55E', title: 'Keep (restore subject)', icon: CirclePlus },
+  { mode: 'remove', color: '#EF4444', title: 'Remove (clear background)', icon: CircleMinus },
+  { mode: 'edge', color: '#3B82F6', title: 'Soften Edge (hair, fur, fuzzy outlines)', icon: Sparkles },
+];
+const DEFAULT_OUTPAINT_AMOUNT = 256; // Image pixels added per step
+type AnnotationTool = 'pencil' | 'highlighter' | 'text' | ShapeTool | 'callout';
+const ANNOTATION_TOOLS: { tool: AnnotationTool; title: string; icon: React.ElementType }[] = [
+    { tool: 'pencil', title: 'Draw', icon: Pencil },
+    { tool: 'highlighter', title: 'Highlighter', icon: Highlighter },
+    { tool: 'text', title: 'Add Text Overlay', icon: TypeIcon },
+    { tool: 'rectangle', title: 'Draw Rectangle', icon: Square },
+    { tool: 'ellipse', title: 'Draw Ellipse', icon: Circle },
+    { tool: 'line', title: 'Draw Line', icon: Slash },
+    { tool: 'arrow', title: 'Draw Arrow', icon: MoveUpRight },
+    { tool: 'callout', title: 'Numbered Callout (double-click one to label it)', icon: CircleDot },
+];
+const isShapeTool = (tool: string): tool is ShapeTool => tool === 'rectangle' || tool === 'ellipse' || tool === 'line' || tool === 'arrow';
+const CROP_HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-top-2 -left-2 cursor-nw-resize' },
+  { handle: 'ne', className: '-top-2 -right-2 cursor-ne-resize' },
+  { handle: 'sw', className: '-bottom-2 -left-2 cursor-sw-resize' },
+  { handle: 'se', className: '-bottom-2 -right-2 cursor-se-resize' },
+];
+
+type OutpaintDirection = 'left' | 'top' | 'right' | 'bottom' | 'all';
+const OUTPAINT_DIRECTIONS: { direction: OutpaintDirection; label: string; icon: React.ElementType }[] = [
+    { direction: 'left', label: 'Expand Left', icon: ArrowLeft },
+    { direction: 'top', label: 'Expand Up', icon: ArrowUp },
+    { direction: 'right', label: 'Expand Right', icon: ArrowRight },
+    { direction: 'bottom', label: 'Expand Down', icon: ArrowDown },
+    { direction: 'all', label: 'Expand All Sides', icon: Expand },
+];
 
 // Helper to add alpha to hex color
 const hexToRgba = (hex: string, alpha: number) => {
@@ -81,6 +124,8 @@ const hexToRgba = (hex: string, alpha: number) => {
 const CanvasLayer: React.FC<CanvasLayerProps> = ({
   layer,
   isSelected,
+  isInSelection = false,
+  depth = 0,
   scale,
   onSelect,
   onUpdatePosition,
@@ -97,11 +142,19 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   onFlip,
   onAddReference,
   onRemoveBackground,
+  onMaskedEdit,
+  onRefineMatte,
+  onUpdateGeometry,
+  onCrop,
   onExtendVideo,
   onReorder,
+  onFitGroup,
   isGenerating,
   generationTask,
   onCancelGeneration,
+  onPrioritizeGeneration,
+  isQueuePaused = false,
+  onRetryGeneration,
   onSelectOnCanvasStart,
   injectedAttachment,
   onInjectedAttachmentConsumed,
@@ -113,7 +166,9 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const [showArrangeMenu, setShowArrangeMenu] = useState(false);
   
   const [isResizingMode, setIsResizingMode] = useState(false);
-  const [resizeBounds, setResizeBounds] = useState({ x: 0, y: 0, width: layer.width, height: layer.height });
+  const [resizeBounds, setResizeBounds] = useState<OutpaintBounds>({ x: 0, y: 0, width: layer.width, height: layer.height });
+  const [outpaintAmount, setOutpaintAmount] = useState(DEFAULT_OUTPAINT_AMOUNT);
+  const [imageNaturalSize, setImageNaturalSize] = useState<{ width: number, height: number } | null>(null);
   
   const [isExtendingMode, setIsExtendingMode] = useState(false);
 
@@ -121,7 +176,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const [isMuted, setIsMuted] = useState(false);
 
   // Annotation State
-  const [tool, setTool] = useState<'cursor' | 'pencil' | 'text' | 'rectangle'>('cursor');
+  const [tool, setTool] = useState<'cursor' | AnnotationTool | 'mask' | 'refine'>('cursor');
   const [color, setColor] = useState('#EF4444');
   const [strokeWidth, setStrokeWidth] = useState(3);
   const [annotationFontSize, setAnnotationFontSize] = useState(16);
@@ -130,6 +185,14 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const [showFontSizePicker, setShowFontSizePicker] = useState(false);
   const [drawingPath, setDrawingPath] = useState<{x: number, y: number}[]>([]);
   const [drawingRect, setDrawingRect] = useState<{startX: number, startY: number, endX?: number, endY?: number} | null>(null);
+
+  // Inpainting Mask State (painted with the mask tool, cleared on deselect)
+  const [maskStrokes, setMaskStrokes] = useState<MaskStroke[]>([]);
+  const [maskBrushSize, setMaskBrushSize] = useState(40);
+  const [isErasingMask, setIsErasingMask] = useState(false);
+  // Cutout refine brush: strokes wait here until the re-cut cutout comes back (shares the mask brush size)
+  const [refineMode, setRefineMode] = useState<MatteStroke['mode']>('keep');
+  const [pendingRefineStrokes, setPendingRefineStrokes] = useState<MatteStroke[]>([]);
   
   // Annotation Selection
   const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
@@ -137,7 +200,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const [isResizingAnnotation, setIsResizingAnnotation] = useState(false);
   const [isDraggingVertex, setIsDraggingVertex] = useState(false);
   const [draggingVertexIndex, setDraggingVertexIndex] = useState<number | null>(null);
-  const annotationDragStartRef = useRef<{x: number, y: number, initialX: number, initialY: number, initialSize?: number, initialVertices?: {x: number, y: number}[]}>({ x: 0, y: 0, initialX: 0, initialY: 0 });
+  const annotationDragStartRef = useRef<{x: number, y: number, initialAnnotation?: Annotation, initialSize?: number}>({ x: 0, y: 0 });
 
   // Text Tool State
   const [textInput, setTextInput] = useState<{x: number, y: number, value: string} | null>(null);
@@ -151,7 +214,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const [promptAttachments, setPromptAttachments] = useState<Attachment[]>([]);
   const [draftState, setDraftState] = useState<Partial<PromptState>>(() => ({
       prompt: layer.lastDraftPrompt || '',  // Use draft prompt, not creation prompt (output layers start empty)
-      model: (layer.generationMetadata?.model as ModelId) || DEFAULT_MODEL,
+      model: layer.generationMetadata?.model || DEFAULT_MODEL,
       aspectRatio: layer.generationMetadata?.aspectRatio || 'Auto',
       creativity: layer.generationMetadata?.creativity || 65,
       imageSize: layer.generationMetadata?.imageSize || '1K',
@@ -175,6 +238,17 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       }
   }, [layer.imageId, layer.src]);
 
+  // The layer as shown, for models and exports: adjustments and crop baked in
+  const getAdjustedBase64 = (): Promise<string> =>
+      isAdjustedImage(layer) ? renderAdjustedImage(resolvedBase64, layer.adjustments, layer.crop) : Promise.resolve(resolvedBase64);
+
+  // Swap this layer's own attachment for its adjusted pixels
+  const withAdjustedLayer = async (attachments: Attachment[]): Promise<Attachment[]> => {
+      if (!isAdjustedImage(layer)) return attachments;
+      const base64 = await getAdjustedBase64();
+      return attachments.map(att => att.id === layer.id ? { ...att, base64, previewUrl: base64 } : att);
+  };
+
   // Memoized callback to prevent infinite loops
   const handleDraftStateChange = useCallback((updates: Partial<PromptState>) => {
       setDraftState(prev => ({ ...prev, ...updates }));
@@ -183,6 +257,8 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   // Resize Layer State
   const [isResizingLayer, setIsResizingLayer] = useState(false);
   const [isResizingCrop, setIsResizingCrop] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const rotateStartRef = useRef<{ center: { x: number, y: number }, pointerAngle: number, rotation: number } | null>(null);
 
   const resizeStartRef = useRef<{ 
       corner: string, 
@@ -198,6 +274,9 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const refineCanvasRef = useRef<HTMLCanvasElement>(null);
   const textInputRef = useRef<HTMLTextAreaElement>(null);
 
   // LOD (Level of Detail) state for performance
@@ -206,6 +285,37 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const renderedWidth = layer.width * scale;
   const shouldShowFullRes = renderedWidth >= FULL_RES_THRESHOLD;
 
+  // Live adjustments: a CSS filter chain, and a crop window once the media's proportions are known
+  const [mediaSize, setMediaSize] = useState<{ width: number; height: number } | null>(null);
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => setMediaSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+  const handleVideoMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => setMediaSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight });
+  const adjustments = layer.type === 'image' && hasAdjustments(layer.adjustments) ? layer.adjustments! : undefined;
+  const adjustmentFilterId = `adjust-${layer.id}`;
+  const cropFrame = hasCrop(layer.crop) && mediaSize ? getCropFrame(layer, mediaSize, layer.crop) : null;
+  const mediaClassName = cropFrame ? 'absolute max-w-none pointer-events-none' : 'absolute inset-0 w-full h-full object-contain pointer-events-none';
+  const imageStyle: React.CSSProperties = {
+      ...cropFrame,
+      filter: adjustments ? getCssFilter(adjustments, adjustmentFilterId, Math.max(layer.width, layer.height)) : undefined,
+  };
+
+  // Crop tool: the draft is on the layer as displayed (flips applied) and only lands on apply.
+  // While it is open the whole media shows at the current scale, reaching past the layer's box.
+  const [cropDraft, setCropDraft] = useState<CropRect | null>(null);
+  const [cropAspect, setCropAspect] = useState('Auto');
+  const [isDraggingCrop, setIsDraggingCrop] = useState(false);
+  const [cropPixelSize, setCropPixelSize] = useState<{ width: number, height: number } | null>(null); // Full-res size for the readout; the canvas may be showing the thumbnail
+  const cropDragRef = useRef<{ handle: CropHandle | 'move', start: CropRect, mouseX: number, mouseY: number } | null>(null);
+  const fullFrame = mediaSize ? getCropFrame(layer, mediaSize, mirrorCrop(layer.crop ?? FULL_FRAME, layer.flipX, layer.flipY)) : null;
+  const toFrameRect = (crop: CropRect) => fullFrame && {
+      x: fullFrame.left + crop.x * fullFrame.width,
+      y: fullFrame.top + crop.y * fullFrame.height,
+      width: crop.width * fullFrame.width,
+      height: crop.height * fullFrame.height,
+  };
+  const cropRect = cropDraft && toFrameRect(cropDraft);
+  const cropPreviewSrc = layer.type === 'video' ? layer.thumbnail : layer.src; // Poster frame for video
+  const flipTransform = `scaleX(${layer.flipX?-1:1}) scaleY(${layer.flipY?-1:1})`;
+
   // Auto-focus pencil for drawing layers
   useEffect(() => {
       if (layer.type === 'drawing' && isSelected && tool === 'cursor') {
@@ -228,7 +338,11 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       if (!isSelected) {
           setIsResizingMode(false);
           setIsExtendingMode(false);
+          setCropDraft(null);
           setTool('cursor');
+          setMaskStrokes([]);
+          setIsErasingMask(false);
+          setPendingRefineStrokes([]);
           setTextInput(null);
           setSelectedAnnotationId(null);
           setIsEditingSticky(false);
@@ -271,7 +385,12 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       }
   }, [isEditingSticky]);
 
-  // Render Pencil Paths
+  // A pencil or highlighter stroke in the current colour and width
+  const getDrawnPath = (points: { x: number, y: number }[]): Annotation => tool === 'highlighter'
+      ? { id: crypto.randomUUID(), type: 'path', points, color, width: strokeWidth * HIGHLIGHTER_WIDTH_SCALE, opacity: HIGHLIGHTER_OPACITY }
+      : { id: crypto.randomUUID(), type: 'path', points, color, width: strokeWidth };
+
+  // Render annotations and the one being drawn
   useEffect(() => {
       const canvas = canvasRef.current;
       if (!canvas) return;
@@ -282,82 +401,79 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       if (!ctx) return;
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-
-      if (layer.annotations) {
-          layer.annotations.forEach(ann => {
-              if (ann.type === 'path') {
-                  if (ann.points.length < 2) return;
-                  ctx.beginPath();
-                  ctx.strokeStyle = ann.color;
-                  ctx.lineWidth = ann.width;
-                  ctx.moveTo(ann.points[0].x, ann.points[0].y);
-                  for (let i = 1; i < ann.points.length; i++) {
-                      ctx.lineTo(ann.points[i].x, ann.points[i].y);
-                  }
-                  ctx.stroke();
-              } else if (ann.type === 'rectangle') {
-                  if (ann.vertices.length !== 4) return;
-                  ctx.beginPath();
-                  ctx.strokeStyle = ann.color;
-                  ctx.lineWidth = ann.strokeWidth;
-                  ctx.moveTo(ann.vertices[0].x, ann.vertices[0].y);
-                  for (let i = 1; i < ann.vertices.length; i++) {
-                      ctx.lineTo(ann.vertices[i].x, ann.vertices[i].y);
-                  }
-                  ctx.closePath();
-                  ctx.stroke();
-              }
-          });
-      }
 
-      if (drawingPath.length > 1) {
-          ctx.beginPath();
-          ctx.strokeStyle = color;
-          ctx.lineWidth = strokeWidth;
-          ctx.moveTo(drawingPath[0].x, drawingPath[0].y);
-          for (let i = 1; i < drawingPath.length; i++) {
-              ctx.lineTo(drawingPath[i].x, drawingPath[i].y);
-          }
-          ctx.stroke();
-      }
+      // Text annotations are HTML overlays so they can be edited in place
+      if (layer.annotations) drawAnnotations(ctx, layer.annotations.filter(ann => ann.type !== 'text'));
 
-      // Draw rectangle preview while drawing
-      if (drawingRect && drawingRect.endX !== undefined && drawingRect.endY !== undefined) {
-          const minX = Math.min(drawingRect.startX, drawingRect.endX);
-          const minY = Math.min(drawingRect.startY, drawingRect.endY);
-          const width = Math.abs(drawingRect.endX - drawingRect.startX);
-          const height = Math.abs(drawingRect.endY - drawingRect.startY);
+      if (drawingPath.length > 1 && (tool === 'pencil' || tool === 'highlighter')) {
+          drawAnnotations(ctx, [getDrawnPath(drawingPath)]);
+      }
 
-          ctx.beginPath();
-          ctx.strokeStyle = color;
-          ctx.lineWidth = strokeWidth;
+      // Dashed preview of the shape being dragged out
+      if (drawingRect && drawingRect.endX !== undefined && drawingRect.endY !== undefined && isShapeTool(tool)) {
+          const shape = createShapeAnnotation(tool, { x: drawingRect.startX, y: drawingRect.startY }, { x: drawingRect.endX, y: drawingRect.endY }, color, strokeWidth);
           ctx.setLineDash([5, 5]);
-          ctx.strokeRect(minX, minY, width, height);
+          if (shape) drawAnnotations(ctx, [shape]);
           ctx.setLineDash([]);
       }
 
-  }, [layer.width, layer.height, layer.annotations, drawingPath, color, strokeWidth, drawingRect]);
+  }, [layer.width, layer.height, layer.annotations, drawingPath, color, strokeWidth, drawingRect, tool]);
+
+  // Render the inpainting mask, including the stroke being painted
+  useEffect(() => {
+      const canvas = maskCanvasRef.current;
+      if (!canvas) return;
+      canvas.width = layer.width;
+      canvas.height = layer.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const current: MaskStroke[] = drawingPath.length > 0 ? [{ points: drawingPath, size: maskBrushSize, erase: isErasingMask }] : [];
+      paintMaskStrokes(ctx, [...maskStrokes, ...current], MASK_COLOR);
+  }, [tool, layer.width, layer.height, maskStrokes, drawingPath, maskBrushSize, isErasingMask]);
+
+  // Render refine strokes still being applied, each in its mode's colour
+  useEffect(() => {
+      const canvas = refineCanvasRef.current;
+      if (!canvas) return;
+      canvas.width = layer.width;
+      canvas.height = layer.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const current: MatteStroke[] = drawingPath.length > 0 ? [{ points: drawingPath, size: maskBrushSize, mode: refineMode }] : [];
+      [...pendingRefineStrokes, ...current].forEach(stroke => paintMaskStrokes(ctx, [stroke], REFINE_MODES.find(m => m.mode === stroke.mode)!.color));
+  }, [tool, layer.width, layer.height, pendingRefineStrokes, drawingPath, maskBrushSize, refineMode]);
+
+  // A new matte includes the pending strokes (or was redone from scratch)
+  useEffect(() => {
+      setPendingRefineStrokes([]);
+  }, [layer.matte]);
 
   // ... [Keep Annotation manipulation functions similar to before, summarized below]
   const handleAnnotationMouseDown = (e: React.MouseEvent, annId: string) => {
       if (tool !== 'cursor') return;
       e.stopPropagation(); e.preventDefault();
-      setSelectedAnnotationId(annId); setIsDraggingAnnotation(true);
+      setSelectedAnnotationId(annId);
       const ann = layer.annotations?.find(a => a.id === annId);
-      if (ann && ann.type === 'text') {
-        annotationDragStartRef.current = { x: e.clientX, y: e.clientY, initialX: ann.x, initialY: ann.y };
-      } else if (ann && ann.type === 'rectangle') {
-        // For rectangles, we just select them, dragging is handled by vertex handles
-        setIsDraggingAnnotation(false);
-      }
+      if (!ann) return;
+      setIsDraggingAnnotation(true);
+      annotationDragStartRef.current = { x: e.clientX, y: e.clientY, initialAnnotation: ann };
+  };
+  const handleCalloutDoubleClick = (e: React.MouseEvent, annId: string) => {
+      e.stopPropagation();
+      const ann = layer.annotations?.find(a => a.id === annId);
+      if (!ann || ann.type !== 'callout') return;
+      const label = window.prompt("Callout label:", ann.label || '');
+      if (label === null) return;
+      onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === annId ? { ...ann, label: label.trim() || undefined } : a));
+      onDragEnd(layer.id);
   };
   const handleAnnotationResizeMouseDown = (e: React.MouseEvent, annId: string) => {
       e.stopPropagation(); e.preventDefault(); setIsResizingAnnotation(true);
       const ann = layer.annotations?.find(a => a.id === annId);
       if (ann && ann.type === 'text') {
-        annotationDragStartRef.current = { x: e.clientX, y: e.clientY, initialX: ann.x, initialY: ann.y, initialSize: ann.fontSize };
+        annotationDragStartRef.current = { x: e.clientX, y: e.clientY, initialAnnotation: ann, initialSize: ann.fontSize };
       }
   };
   const handleDeleteAnnotation = (annId: string) => {
@@ -369,14 +485,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       onDragEnd(layer.id);
   };
   const handleUpdateAnnotationSize = (annId: string, newSize: number) => {
-      onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => {
-          if (a.id === annId) {
-              if (a.type === 'text') return { ...a, fontSize: newSize };
-              if (a.type === 'rectangle') return { ...a, strokeWidth: newSize };
-              if (a.type === 'path') return { ...a, width: newSize };
-          }
-          return a;
-      }));
+      onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === annId ? setAnnotationSize(a, newSize) : a));
       onDragEnd(layer.id);
   };
   const handleVertexMouseDown = (e: React.MouseEvent, annId: string, vertexIndex: number) => {
@@ -385,62 +494,24 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       setDraggingVertexIndex(vertexIndex);
       setSelectedAnnotationId(annId);
       const ann = layer.annotations?.find(a => a.id === annId);
-      if (ann && ann.type === 'rectangle') {
-          annotationDragStartRef.current = {
-              x: e.clientX,
-              y: e.clientY,
-              initialX: 0,
-              initialY: 0,
-              initialVertices: [...ann.vertices]
-          };
-      }
+      if (ann) annotationDragStartRef.current = { x: e.clientX, y: e.clientY, initialAnnotation: ann };
   };
   useEffect(() => {
       const handleGlobalMouseMove = (e: MouseEvent) => {
           if (!isDraggingAnnotation && !isResizingAnnotation && !isDraggingVertex) return;
           if (!selectedAnnotationId) return;
-          const deltaX = (e.clientX - annotationDragStartRef.current.x) / scale;
-          const deltaY = (e.clientY - annotationDragStartRef.current.y) / scale;
+          const { x: deltaX, y: deltaY } = toLocalVector(layer, (e.clientX - annotationDragStartRef.current.x) / scale, (e.clientY - annotationDragStartRef.current.y) / scale);
+          const { initialAnnotation } = annotationDragStartRef.current;
+          if (!initialAnnotation) return;
           if (isDraggingAnnotation) {
-              onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === selectedAnnotationId && a.type === 'text' ? { ...a, x: annotationDragStartRef.current.initialX + deltaX, y: annotationDragStartRef.current.initialY + deltaY } : a));
+              onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === selectedAnnotationId ? offsetAnnotation(initialAnnotation, deltaX, deltaY) : a));
           } else if (isResizingAnnotation) {
               const newSize = Math.max(10, (annotationDragStartRef.current.initialSize || 24) + ((deltaX + deltaY) * 0.5));
-              onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === selectedAnnotationId && a.type === 'text' ? { ...a, fontSize: newSize } : a));
-          } else if (isDraggingVertex && draggingVertexIndex !== null && annotationDragStartRef.current.initialVertices) {
-              onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => {
-                  if (a.id === selectedAnnotationId && a.type === 'rectangle') {
-                      // Vertex indices: 0=TL, 1=TR, 2=BR, 3=BL
-                      const newVertices = annotationDragStartRef.current.initialVertices!.map(v => ({ ...v }));
-                      const draggedIdx = draggingVertexIndex;
-                      const newPos = {
-                          x: annotationDragStartRef.current.initialVertices![draggedIdx].x + deltaX,
-                          y: annotationDragStartRef.current.initialVertices![draggedIdx].y + deltaY
-                      };
-
-                      // Update dragged vertex
-                      newVertices[draggedIdx] = newPos;
-
-                      // Update adjacent vertices to maintain rectangle shape:
-                      // - Vertex sharing X with dragged gets new X
-                      // - Vertex sharing Y with dragged gets new Y
-                      if (draggedIdx === 0) { // TL: fix BR(2), update TR(1).y and BL(3).x
-                          newVertices[1] = { ...newVertices[1], y: newPos.y };
-                          newVertices[3] = { ...newVertices[3], x: newPos.x };
-                      } else if (draggedIdx === 1) { // TR: fix BL(3), update TL(0).y and BR(2).x
-                          newVertices[0] = { ...newVertices[0], y: newPos.y };
-                          newVertices[2] = { ...newVertices[2], x: newPos.x };
-                      } else if (draggedIdx === 2) { // BR: fix TL(0), update TR(1).x and BL(3).y
-                          newVertices[1] = { ...newVertices[1], x: newPos.x };
-                          newVertices[3] = { ...newVertices[3], y: newPos.y };
-                      } else if (draggedIdx === 3) { // BL: fix TR(1), update TL(0).x and BR(2).y
-                          newVertices[0] = { ...newVertices[0], x: newPos.x };
-                          newVertices[2] = { ...newVertices[2], y: newPos.y };
-                      }
-
-                      return { ...a, vertices: newVertices };
-                  }
-                  return a;
-              }));
+              onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === selectedAnnotationId ? setAnnotationSize(a, newSize) : a));
+          } else if (isDraggingVertex && draggingVertexIndex !== null) {
+              const vertex = getAnnotationHandles(initialAnnotation)[draggingVertexIndex];
+              const point = { x: vertex.x + deltaX, y: vertex.y + deltaY };
+              onUpdateAnnotations(layer.id, (layer.annotations || []).map(a => a.id === selectedAnnotationId ? moveAnnotationHandle(initialAnnotation, draggingVertexIndex, point) : a));
           }
       };
       const handleGlobalMouseUp = () => {
@@ -450,79 +521,86 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       };
       if (isDraggingAnnotation || isResizingAnnotation || isDraggingVertex) { window.addEventListener('mousemove', handleGlobalMouseMove); window.addEventListener('mouseup', handleGlobalMouseUp); }
       return () => { window.removeEventListener('mousemove', handleGlobalMouseMove); window.removeEventListener('mouseup', handleGlobalMouseUp); };
-  }, [isDraggingAnnotation, isResizingAnnotation, isDraggingVertex, draggingVertexIndex, selectedAnnotationId, scale, layer.annotations, onUpdateAnnotations, onDragEnd, layer.id]);
+  }, [isDraggingAnnotation, isResizingAnnotation, isDraggingVertex, draggingVertexIndex, selectedAnnotationId, scale, layer.annotations, onUpdateAnnotations, onDragEnd, layer.id, layer.rotation, layer.skewX, layer.skewY]);
+
+  // Pointer position in layer coordinates. The canvas' screen rect bounds the rotated box and
+  // shares its centre, so the offset from the centre is turned back onto the layer's axes.
+  const getLayerPoint = (e: React.MouseEvent) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect) return null;
+      const local = toLocalVector(layer, (e.clientX - rect.left - rect.width / 2) / scale, (e.clientY - rect.top - rect.height / 2) / scale);
+      return { x: local.x + layer.width / 2, y: local.y + layer.height / 2 };
+  };
 
   // ... [Canvas Drawing Handlers]
   const handleCanvasMouseDown = (e: React.MouseEvent) => {
-      if (tool === 'pencil') {
+      if (tool === 'pencil' || tool === 'highlighter' || tool === 'mask' || tool === 'refine') {
           e.stopPropagation(); e.preventDefault();
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (!rect) return;
-          setDrawingPath([{x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale}]);
+          const point = getLayerPoint(e);
+          if (!point) return;
+          setDrawingPath([point]);
       } else if (tool === 'text') {
           e.stopPropagation(); e.preventDefault();
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (!rect) return;
+          const point = getLayerPoint(e);
+          if (!point) return;
           if (textInput) commitText();
-          setTextInput({ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale, value: '' });
-      } else if (tool === 'rectangle') {
+          setTextInput({ ...point, value: '' });
+      } else if (isShapeTool(tool)) {
+          e.stopPropagation(); e.preventDefault();
+          const point = getLayerPoint(e);
+          if (!point) return;
+          setDrawingRect({ startX: point.x, startY: point.y });
+      } else if (tool === 'callout') {
           e.stopPropagation(); e.preventDefault();
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (!rect) return;
-          setDrawingRect({ startX: (e.clientX - rect.left) / scale, startY: (e.clientY - rect.top) / scale });
+          const point = getLayerPoint(e);
+          if (!point) return;
+          // Stays on the tool so a run of markers can be dropped in order
+          const callout: Annotation = { id: crypto.randomUUID(), type: 'callout', ...point, number: getNextCalloutNumber(layer.annotations), color, fontSize: annotationFontSize };
+          onUpdateAnnotations(layer.id, [...(layer.annotations || []), callout]);
+          onDragEnd(layer.id);
       } else if (tool === 'cursor') {
           setSelectedAnnotationId(null);
       }
   };
   const handleCanvasMouseMove = (e: React.MouseEvent) => {
-      if (tool === 'pencil' && drawingPath.length > 0) {
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (!rect) return;
-          setDrawingPath(prev => [...prev, {x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale}]);
-      } else if (tool === 'rectangle' && drawingRect && drawingRect.startX !== undefined) {
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (!rect) return;
+      if ((tool === 'pencil' || tool === 'highlighter' || tool === 'mask' || tool === 'refine') && drawingPath.length > 0) {
+          const point = getLayerPoint(e);
+          if (!point) return;
+          setDrawingPath(prev => [...prev, point]);
+      } else if (isShapeTool(tool) && drawingRect && drawingRect.startX !== undefined) {
+          const point = getLayerPoint(e);
+          if (!point) return;
           setDrawingRect({
               ...drawingRect,
-              endX: (e.clientX - rect.left) / scale,
-              endY: (e.clientY - rect.top) / scale
+              endX: point.x,
+              endY: point.y
           });
       }
   };
   const handleCanvasMouseUp = (e?: React.MouseEvent) => {
-      if (tool === 'pencil' && drawingPath.length > 0) {
-          const newPath: Annotation = { id: crypto.randomUUID(), type: 'path', points: drawingPath, color: color, width: strokeWidth };
-          onUpdateAnnotations(layer.id, [...(layer.annotations || []), newPath]);
+      if (tool === 'mask' && drawingPath.length > 0) {
+          setMaskStrokes(prev => [...prev, { points: drawingPath, size: maskBrushSize, erase: isErasingMask }]);
+          setDrawingPath([]);
+      }
+      if (tool === 'refine' && drawingPath.length > 0) {
+          // Send everything not yet in the matte; App keeps only the latest re-cut
+          const strokes = [...pendingRefineStrokes, { points: drawingPath, size: maskBrushSize, mode: refineMode }];
+          setPendingRefineStrokes(strokes);
+          onRefineMatte?.(layer.id, strokes);
+          setDrawingPath([]);
+      }
+      if ((tool === 'pencil' || tool === 'highlighter') && drawingPath.length > 0) {
+          onUpdateAnnotations(layer.id, [...(layer.annotations || []), getDrawnPath(drawingPath)]);
           onDragEnd(layer.id); setDrawingPath([]);
       }
-      if (tool === 'rectangle' && drawingRect && e) {
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (!rect) return;
-          const endX = (e.clientX - rect.left) / scale;
-          const endY = (e.clientY - rect.top) / scale;
-          const minX = Math.min(drawingRect.startX, endX);
-          const minY = Math.min(drawingRect.startY, endY);
-          const maxX = Math.max(drawingRect.startX, endX);
-          const maxY = Math.max(drawingRect.startY, endY);
-
-          // Only create rectangle if it has some size
-          if (Math.abs(maxX - minX) > 5 && Math.abs(maxY - minY) > 5) {
-              const vertices = [
-                  { x: minX, y: minY },        // top-left
-                  { x: maxX, y: minY },        // top-right
-                  { x: maxX, y: maxY },        // bottom-right
-                  { x: minX, y: maxY }         // bottom-left
-              ];
-              const newRect: Annotation = {
-                  id: crypto.randomUUID(),
-                  type: 'rectangle',
-                  vertices,
-                  color: color,
-                  strokeWidth: strokeWidth
-              };
-              onUpdateAnnotations(layer.id, [...(layer.annotations || []), newRect]);
+      if (isShapeTool(tool) && drawingRect && e) {
+          const point = getLayerPoint(e);
+          if (!point) return;
+          const shape = createShapeAnnotation(tool, { x: drawingRect.startX, y: drawingRect.startY }, point, color, strokeWidth);
+          if (shape) {
+              onUpdateAnnotations(layer.id, [...(layer.annotations || []), shape]);
               onDragEnd(layer.id);
-              setSelectedAnnotationId(newRect.id);
+              setSelectedAnnotationId(shape.id);
               setTool('cursor');
           }
           setDrawingRect(null);
@@ -558,8 +636,8 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       const handleGlobalMouseMove = (e: MouseEvent) => {
           if ((!isResizingLayer && !isResizingCrop) || !resizeStartRef.current) return;
           const { corner, startX, startY, startWidth, startHeight, mouseX, mouseY } = resizeStartRef.current;
-          const deltaX = (e.clientX - mouseX) / scale;
-          const deltaY = (e.clientY - mouseY) / scale;
+          // Along the layer's own axes when it is rotated or skewed
+          const { x: deltaX, y: deltaY } = toLocalVector(layer, (e.clientX - mouseX) / scale, (e.clientY - mouseY) / scale);
           
           if (isResizingCrop && corner.startsWith('crop-')) {
              let newX = startX, newY = startY, newWidth = startWidth, newHeight = startHeight;
@@ -607,6 +685,10 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                  newHeight = isMedia ? newWidth / aspectRatio : Math.max(50, startHeight - deltaY);
                  newY = (startY + startHeight) - newHeight;
               }
+              // A turned layer keeps the opposite corner where it is on the canvas, not in its unturned box
+              if (hasTransform(layer)) {
+                  ({ x: newX, y: newY } = resizeFromCorner({ ...layer, x: startX, y: startY, width: startWidth, height: startHeight }, corner as ResizeCorner, newWidth, newHeight));
+              }
               onUpdateTransform(layer.id, newX, newY, newWidth, newHeight);
           }
       };
@@ -616,25 +698,49 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       };
       if (isResizingLayer || isResizingCrop) { window.addEventListener('mousemove', handleGlobalMouseMove); window.addEventListener('mouseup', handleGlobalMouseUp); }
       return () => { window.removeEventListener('mousemove', handleGlobalMouseMove); window.removeEventListener('mouseup', handleGlobalMouseUp); };
-  }, [isResizingLayer, isResizingCrop, layer.id, onUpdateTransform, onDragEnd, scale, layer.type]);
+  }, [isResizingLayer, isResizingCrop, layer.id, onUpdateTransform, onDragEnd, scale, layer.type, layer.rotation, layer.skewX, layer.skewY]);
+
+  // ... [Rotate Handler]: the angle of the pointer around the layer's centre, relative to where the drag began
+  const handleRotateStart = (e: React.MouseEvent) => {
+      e.stopPropagation(); e.preventDefault();
+      const rect = contentRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+      rotateStartRef.current = { center, pointerAngle: Math.atan2(e.clientY - center.y, e.clientX - center.x) * 180 / Math.PI, rotation: layer.rotation ?? 0 };
+      setIsRotating(true);
+  };
+
+  useEffect(() => {
+      if (!isRotating) return;
+      const handleGlobalMouseMove = (e: MouseEvent) => {
+          const start = rotateStartRef.current;
+          if (!start) return;
+          const pointerAngle = Math.atan2(e.clientY - start.center.y, e.clientX - start.center.x) * 180 / Math.PI;
+          onUpdateGeometry?.(layer.id, { rotation: normalizeRotation(start.rotation + pointerAngle - start.pointerAngle, e.shiftKey) });
+      };
+      const handleGlobalMouseUp = () => { setIsRotating(false); rotateStartRef.current = null; onDragEnd(layer.id); };
+      window.addEventListener('mousemove', handleGlobalMouseMove); window.addEventListener('mouseup', handleGlobalMouseUp);
+      return () => { window.removeEventListener('mousemove', handleGlobalMouseMove); window.removeEventListener('mouseup', handleGlobalMouseUp); };
+  }, [isRotating, layer.id, onUpdateGeometry, onDragEnd]);
 
   // ... [Dragging Handler]
   const handleMouseDown = (e: React.MouseEvent) => {
     if (tool !== 'cursor') return;
     if (layer.isLoading || layer.error) return;
-    if (isResizingMode || isResizingLayer || isResizingCrop) return;
+    if (isResizingMode || isResizingLayer || isResizingCrop || isRotating || cropDraft) return;
     if ((e.target as HTMLElement).closest('.layer-controls')) return;
     if ((e.target as HTMLElement).closest('.video-controls')) return;
     if ((e.target as HTMLElement).closest('.annotation-overlay')) return;
     if ((e.target as HTMLElement).tagName === 'INPUT' || (e.target as HTMLElement).tagName === 'TEXTAREA') return;
 
     e.stopPropagation();
-    onSelect(layer.id);
+    const additive = e.shiftKey || e.metaKey || e.ctrlKey;
+    onSelect(layer.id, additive);
     setShowMenu(false);
     setSelectedAnnotationId(null);
 
-    // In selection mode, just select - don't start dragging
-    if (isSelectionMode) return;
+    // In selection mode, just select - don't start dragging. Shift-click only toggles membership.
+    if (isSelectionMode || additive) return;
 
     setIsDragging(true);
     dragStartRef.current = { x: e.clientX, y: e.clientY };
@@ -680,11 +786,12 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const handleDuplicateClick = () => { onDuplicate(layer.id); setShowMenu(false); }
   const handleExtendClick = () => { setIsExtendingMode(!isExtendingMode); setShowMenu(false); };
   
-  const handlePromptSubmit = async (p: string, a: Attachment[], m: ModelId, ar: string, c: number, s: string, res: '720p'|'1080p', mt: MediaType, d: string, vm: VideoMode, si?: number, count?: number, voice?: string, shouldImprovePrompt?: boolean) => {
+  const handlePromptSubmit = async (p: string, a: Attachment[], m: GenerationModelId, ar: string, c: number, s: string, res: '720p'|'1080p', mt: MediaType, d: string, vm: VideoMode, si?: number, count?: number, voice?: string, shouldImprovePrompt?: boolean) => {
         if (isExtendingMode && onExtendVideo) { onExtendVideo(layer.id, p); setIsExtendingMode(false); }
-        else if (isResizingMode) { handleResizeGenerate(p); }
+        else if (isResizingMode) { await handleResizeGenerate(p, a, m, ar, c, s, res, mt, d, vm, si, count, voice, shouldImprovePrompt); }
+        else if (tool === 'mask' && onMaskedEdit) { await handleInpaintSubmit(p, await withAdjustedLayer(a), m, c, s, shouldImprovePrompt); }
         else {
-            let finalA = a;
+            let finalA = await withAdjustedLayer(a);
             if (layer.annotations && layer.annotations.length > 0) {
                  const comp = await compositeLayerImage();
                  if (comp) finalA = [...finalA, { id: 'comp-'+layer.id, file: new File([],"c.png"), previewUrl: comp, mimeType: 'image/png', base64: comp }];
@@ -693,85 +800,53 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
         }
   };
 
-  const compositeLayerImage = async (): Promise<string | null> => {
-      const canvas = document.createElement('canvas'); canvas.width = layer.width; canvas.height = layer.height;
-      const ctx = canvas.getContext('2d'); if (!ctx) return null;
+  // Send the layer with its painted mask; the first attachment is the layer itself
+  const handleInpaintSubmit = async (p: string, a: Attachment[], m: GenerationModelId, c: number, s: string, shouldImprovePrompt?: boolean) => {
+      if (!hasMaskedArea(maskStrokes, layer.width, layer.height)) { alert('Paint over the area to change first.'); return; }
       try {
-          // Draw Background Color for Stickies
-          if ((layer.type === 'sticky' || layer.type === 'text') && layer.color && layer.type !== 'text') {
-              ctx.fillStyle = layer.color;
-              ctx.fillRect(0,0, canvas.width, canvas.height);
-          }
-          if (layer.type === 'image' && layer.src) {
-              const img = new Image(); img.crossOrigin = 'anonymous'; img.src = layer.src; await new Promise(r => img.onload = r);
-              ctx.save(); ctx.translate(layer.flipX?canvas.width:0, layer.flipY?canvas.height:0); ctx.scale(layer.flipX?-1:1, layer.flipY?-1:1);
-              ctx.drawImage(img, 0, 0, canvas.width, canvas.height); ctx.restore();
-          }
-          // Draw Sticky/Text Text
-          if ((layer.type === 'sticky' || layer.type === 'text') && layer.text) {
-              ctx.font = `${layer.fontSize || (layer.type === 'text' ? 48 : 24)}px sans-serif`;
-              ctx.fillStyle = layer.type === 'text' ? (layer.color || '#ffffff') : getContrastColor(layer.color || '#fff8c5'); 
-              ctx.textBaseline = 'top'; wrapText(ctx, layer.text, 20, 20, layer.width - 40, (layer.fontSize || 24) * 1.2);
-          }
-      } catch (e) { console.error("Composite error", e); }
-      if (layer.annotations) {
-          layer.annotations.forEach(ann => {
-              if (ann.type === 'path') {
-                  if (ann.points.length < 2) return;
-                  ctx.beginPath(); ctx.strokeStyle = ann.color; ctx.lineWidth = ann.width; ctx.lineCap = 'round'; ctx.lineJoin = 'round';
-                  ctx.moveTo(ann.points[0].x, ann.points[0].y); for (let i = 1; i < ann.points.length; i++) ctx.lineTo(ann.points[i].x, ann.points[i].y); ctx.stroke();
-              } else if (ann.type === 'text') {
-                  ctx.fillStyle = ann.color; ctx.font = `bold ${ann.fontSize}px sans-serif`; ctx.textBaseline = 'top'; ctx.fillText(ann.text, ann.x, ann.y);
-              } else if (ann.type === 'rectangle') {
-                  if (ann.vertices.length !== 4) return;
-                  ctx.beginPath(); ctx.strokeStyle = ann.color; ctx.lineWidth = ann.strokeWidth; ctx.lineCap = 'round'; ctx.lineJoin = 'round';
-                  ctx.moveTo(ann.vertices[0].x, ann.vertices[0].y);
-                  for (let i = 1; i < ann.vertices.length; i++) ctx.lineTo(ann.vertices[i].x, ann.vertices[i].y);
-                  ctx.closePath(); ctx.stroke();
-              }
-          });
-      }
-      return canvas.toDataURL('image/png');
+          const mask = await renderMaskImage(maskStrokes, layer, await getAdjustedBase64());
+          onMaskedEdit!(layer.id, p, a, { mask, seam: 'inside' }, m, c, s, shouldImprovePrompt);
+          setMaskStrokes([]);
+          setTool('cursor');
+      } catch (e) { console.error("Mask render failed", e); }
   };
 
-  const compositeResizeImage = async (): Promise<string | null> => {
-      const canvas = document.createElement('canvas'); 
-      canvas.width = resizeBounds.width; 
-      canvas.height = resizeBounds.height;
-      const ctx = canvas.getContext('2d'); if (!ctx) return null;
-      
+  // The layer as shown with its annotations drawn in, at the image's resolution
+  const compositeLayerImage = async (): Promise<string | null> => {
       try {
-          // Fill transparent/black bg
-          // ctx.fillStyle = '#000000'; ctx.fillRect(0,0, canvas.width, canvas.height);
-
-          if (layer.type === 'image' && layer.src) {
-              const img = new Image(); img.crossOrigin = 'anonymous'; img.src = layer.src; 
-              await new Promise(r => img.onload = r);
-              
-              // Calculate offset: resizeBounds is relative to layer origin (0,0)
-              // If resizeBounds.x = -50, it means the crop box starts 50px left of layer.
-              // So layer is at x = 50 in the new canvas.
-              // Logic: Layer pos in new canvas = -resizeBounds.x, -resizeBounds.y
-              
-              ctx.drawImage(img, -resizeBounds.x, -resizeBounds.y, layer.width, layer.height);
-          }
-      } catch (e) { console.error("Resize composite error", e); }
-      return canvas.toDataURL('image/png');
+          return await renderLayerComposite(layer, layer.type === 'image' && layer.src ? await getAdjustedBase64() : undefined);
+      } catch (e) { console.error("Composite error", e); return null; }
   };
 
-  // Helper for sticky text wrapping in export
-  const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-      const words = text.split(' '); let line = '';
-      for(let n = 0; n < words.length; n++) {
-        const testLine = line + words[n] + ' '; const metrics = ctx.measureText(testLine);
-        if (metrics.width > maxWidth && n > 0) { ctx.fillText(line, x, y); line = words[n] + ' '; y += lineHeight; } else { line = testLine; }
-      }
-      ctx.fillText(line, x, y);
-  };
-
-  const handleExport = async (format: 'png' | 'jpg' | 'mp4' | 'wav') => {
+  const handleExport = async (format: 'png' | 'jpg' | 'mp4' | 'wav' | 'svg') => {
       try {
         let exportUrl = layer.src;
+
+        // Drawings and annotation overlays as vectors
+        if (format === 'svg') {
+            const url = URL.createObjectURL(new Blob([renderAnnotationsSvg(layer)], { type: 'image/svg+xml' }));
+            const link = document.createElement('a');
+            link.download = `${layer.title.replace(/\s+/g, '_')}.svg`;
+            link.href = url;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            setShowMenu(false);
+            setShowExportMenu(false);
+            return;
+        }
+
+        // A cropped video is re-recorded through the crop, which only WebM can hold
+        if (layer.type === 'video' && hasCrop(layer.crop)) {
+            const url = URL.createObjectURL(await renderCroppedVideo(resolvedBase64, layer.crop));
+            const link = document.createElement('a');
+            link.download = `${layer.title.replace(/\s+/g, '_')}.webm`;
+            link.href = url;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            setShowMenu(false);
+            setShowExportMenu(false);
+            return;
+        }
         
         if (layer.type === 'video' || layer.type === 'audio') {
             const link = document.createElement('a'); 
@@ -783,9 +858,13 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
             return;
         }
 
-        if (layer.type === 'sticky' || layer.type === 'text' || layer.type === 'drawing' || (layer.annotations && layer.annotations.length > 0)) {
+        if (needsComposite(layer)) {
             const comp = await compositeLayerImage(); if (comp) exportUrl = comp;
+        } else if (isAdjustedImage(layer)) {
+            exportUrl = await getAdjustedBase64();
         }
+        // Rotated or skewed layers export as they sit on the canvas
+        if (hasTransform(layer)) exportUrl = await renderTransformedImage(exportUrl, layer);
         const link = document.createElement('a'); link.download = `${layer.title.replace(/\s+/g, '_')}.${format}`;
         if (format === 'png') { link.href = exportUrl; link.click(); } 
         else {
@@ -797,35 +876,97 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       } catch (error) { console.error("Export failed", error); }
   };
 
-  const enterResizeMode = () => { if (layer.type === 'video') return; setIsResizingMode(true); setShowMenu(false); setResizeBounds({ x: 0, y: 0, width: layer.width, height: layer.height }); };
-  const handleResizeGenerate = async (p?: string) => {
-      const comp = await compositeResizeImage();
-      if (!comp) return;
-
-      const w = resizeBounds.width; const h = resizeBounds.height; const ratioVal = w/h;
-      const supported = [{ s: '1:1', v: 1 }, { s: '16:9', v: 16/9 }, { s: '9:16', v: 9/16 }, { s: '3:4', v: 0.75 }, { s: '4:3', v: 1.33 }, { s: '3:2', v: 1.5 }, { s: '2:3', v: 0.66 }, { s: '5:4', v: 1.25 }, { s: '4:5', v: 0.8 }];
-      const closest = supported.reduce((prev, curr) => Math.abs(curr.v - ratioVal) < Math.abs(prev.v - ratioVal) ? curr : prev);
-      
-      const attachment: Attachment = { id: layer.id, file: new File([], "layer.png"), previewUrl: comp, mimeType: 'image/png', base64: comp, displayName: layer.title };
-      
-      // Update the layer position/size to match the new bounds before generating (so it replaces seamlessly)
-      // Actually, we usually want to generate a new layer or replace this one. 
-      // Current architecture replaces current layer.
-      // We should update layer x,y,w,h to match resizeBounds absolute position.
-      onUpdateTransform(layer.id, layer.x + resizeBounds.x, layer.y + resizeBounds.y, resizeBounds.width, resizeBounds.height);
-      
-      onGenerate(p || "Extend the image", [attachment], ModelId.GEMINI_2_5_FLASH_IMAGE, closest.s, 65, "1K", '720p', 'image', "6", 'standard', -1); 
-      setIsResizingMode(false);
+  const enterResizeMode = () => {
+      if (layer.type === 'video') return;
+      setIsResizingMode(true); setShowMenu(false); setResizeBounds({ x: 0, y: 0, width: layer.width, height: layer.height });
+      getAdjustedBase64().then(getNaturalSize).then(setImageNaturalSize).catch(() => setImageNaturalSize(null));
+  };
+
+  // Layer units per image pixel, so expansion steps and the size readout are in image pixels
+  const imageFit = imageNaturalSize ? Math.min(layer.width / imageNaturalSize.width, layer.height / imageNaturalSize.height) : 1;
+
+  const expandResizeBounds = (direction: OutpaintDirection) => {
+      const step = outpaintAmount * imageFit;
+      setResizeBounds(prev => ({
+          x: direction === 'left' || direction === 'all' ? prev.x - step : prev.x,
+          y: direction === 'top' || direction === 'all' ? prev.y - step : prev.y,
+          width: prev.width + (direction === 'left' || direction === 'right' ? step : direction === 'all' ? step * 2 : 0),
+          height: prev.height + (direction === 'top' || direction === 'bottom' ? step : direction === 'all' ? step * 2 : 0),
+      }));
+  };
+
+  const enterCropMode = () => {
+      if (!mediaSize) return;
+      setCropDraft(mirrorCrop(layer.crop ?? FULL_FRAME, layer.flipX, layer.flipY)); setCropAspect('Auto'); setTool('cursor'); setShowMenu(false);
+      setCropPixelSize(mediaSize);
+      if (layer.type === 'image') getNaturalSize(resolvedBase64).then(setCropPixelSize).catch(() => {});
+  };
+
+  const handleCropDragStart = (e: React.MouseEvent, handle: CropHandle | 'move') => {
+      if (!cropDraft) return;
+      e.stopPropagation(); e.preventDefault(); setIsDraggingCrop(true);
+      cropDragRef.current = { handle, start: cropDraft, mouseX: e.clientX, mouseY: e.clientY };
   };
-  
-  const layerAttachment: Attachment = { id: layer.id, file: new File([], "layer.png"), previewUrl: layer.src, mimeType: layer.type === 'video' ? 'video/mp4' : 'image/png', base64: resolvedBase64, displayName: layer.title };
+
+  useEffect(() => {
+      const handleGlobalMouseMove = (e: MouseEvent) => {
+          if (!cropDragRef.current || !fullFrame || !mediaSize) return;
+          const { handle, start, mouseX, mouseY } = cropDragRef.current;
+          const { x: dx, y: dy } = toLocalVector(layer, (e.clientX - mouseX) / scale, (e.clientY - mouseY) / scale);
+          if (handle === 'move') { setCropDraft(moveCrop(start, dx / fullFrame.width, dy / fullFrame.height)); return; }
+          const pixelsPerUnit = mediaSize.width / fullFrame.width;
+          setCropDraft(resizeCrop(start, handle, dx * pixelsPerUnit, dy * pixelsPerUnit, mediaSize, parseAspectRatio(cropAspect)));
+      };
+      const handleGlobalMouseUp = () => { setIsDraggingCrop(false); cropDragRef.current = null; };
+      if (!isDraggingCrop) return;
+      window.addEventListener('mousemove', handleGlobalMouseMove); window.addEventListener('mouseup', handleGlobalMouseUp);
+      return () => { window.removeEventListener('mousemove', handleGlobalMouseMove); window.removeEventListener('mouseup', handleGlobalMouseUp); };
+  }, [isDraggingCrop, scale, cropAspect, mediaSize, fullFrame?.width, fullFrame?.height, layer.rotation, layer.skewX, layer.skewY]);
+
+  const handleCropAspectChange = (ratio: string) => {
+      setCropAspect(ratio);
+      const value = parseAspectRatio(ratio);
+      if (value && cropDraft && mediaSize) setCropDraft(fitCropToAspect(cropDraft, value, mediaSize));
+  };
+
+  // The layer's box becomes the cropped part at the current scale, with the content staying where it is on the canvas
+  const applyCrop = (draft: CropRect) => {
+      const rect = toFrameRect(draft);
+      if (!rect || !onCrop) return;
+      const shift = toCanvasVector(layer, rect.x + rect.width / 2 - layer.width / 2, rect.y + rect.height / 2 - layer.height / 2);
+      const geometry = { x: layer.x + layer.width / 2 + shift.x - rect.width / 2, y: layer.y + layer.height / 2 + shift.y - rect.height / 2, width: rect.width, height: rect.height };
+      const crop = mirrorCrop(draft, layer.flipX, layer.flipY);
+      onCrop(layer.id, hasCrop(crop) ? crop : undefined, geometry, layer.annotations?.map(ann => offsetAnnotation(ann, -rect.x, -rect.y)));
+      setCropDraft(null);
+  };
+
+  // Outpaint: the original keeps its pixels and only the new border is generated (beside the original, at its scale)
+  const handleResizeGenerate = async (p: string, a: Attachment[], m: GenerationModelId, ar: string, c: number, s: string, res?: '720p'|'1080p', mt?: MediaType, d?: string, vm?: VideoMode, si?: number, count?: number, voice?: string, shouldImprovePrompt?: boolean) => {
+      if (!onMaskedEdit) return;
+      const grows = resizeBounds.x < 0 || resizeBounds.y < 0 || resizeBounds.x + resizeBounds.width > layer.width || resizeBounds.y + resizeBounds.height > layer.height;
+      if (!grows) { alert('Drag the frame or pick a direction to add space around the image first.'); return; }
+      try {
+          const { image, mask } = await renderOutpaintCanvas(await getAdjustedBase64(), layer, resizeBounds);
+          const attachment: Attachment = { id: layer.id, file: new File([], "layer.png"), previewUrl: image, mimeType: 'image/png', base64: image, displayName: layer.title, sourceLayerId: layer.id };
+          onMaskedEdit(layer.id, p || "Extend the image", [attachment, ...a], { mask, seam: 'outside', width: resizeBounds.width, height: resizeBounds.height }, m, c, s, shouldImprovePrompt);
+          setIsResizingMode(false);
+      } catch (e) { console.error("Outpaint render failed", e); }
+  };
+
+  const layerAttachment: Attachment = { id: layer.id, file: new File([], "layer.png"), previewUrl: layer.src, mimeType: layer.type === 'video' ? 'video/mp4' : 'image/png', base64: resolvedBase64, displayName: layer.title, sourceLayerId: layer.id };
 
   if (layer.isLoading) {
     const progress = generationTask?.progress || 0;
     const isVideo = generationTask?.mediaType === 'video';
-    const statusText = isVideo
-        ? (progress > 10 ? `Rendering video... ${Math.round(progress)}%` : 'Starting video generation...')
-        : 'Creating your image...';
+    const isQueued = generationTask?.status === 'queued';
+    const queuePosition = generationTask?.queuePosition;
+    const statusText = isQueued
+        ? (generationTask?.retryAt ? `${GENERATION_ERROR_INFO[generationTask.retryKind || 'quota'].label}, retrying shortly...`
+            : isQueuePaused ? 'Queue paused'
+            : queuePosition ? `Queued · #${queuePosition} in line` : 'Preparing request...')
+        : generationTask?.status === 'polling'
+        ? `Rendering video... ${Math.round(progress)}%`
+        : isVideo ? 'Starting video generation...' : 'Creating your image...';
 
     return (
         <div className="absolute bg-elevated/90 backdrop-blur-xl border border-border/50 rounded-2xl flex flex-col items-center justify-center shadow-2xl shadow-black/40" style={{ left: layer.x, top: layer.y, width: layer.width, height: layer.height, zIndex: isSelected ? 50 : 10 }}>
@@ -842,7 +983,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
             <span className="text-sm font-medium text-text-primary mb-1">{statusText}</span>
 
             {/* Progress bar for video */}
-            {isVideo && progress > 0 && (
+            {isVideo && !isQueued && progress > 0 && (
                 <div className="w-3/4 max-w-[200px] h-1.5 bg-surface rounded-full overflow-hidden mt-2 mb-3">
                     <div
                         className="h-full bg-gradient-to-r from-primary to-primary-hover rounded-full transition-all duration-500 ease-out"
@@ -851,38 +992,64 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                 </div>
             )}
 
-            {!isVideo && (
+            {!isVideo && !isQueued && (
                 <span className="text-xs text-text-secondary animate-pulse">This usually takes 5-10 seconds</span>
             )}
 
-            {/* Cancel button */}
-            {onCancelGeneration && (
-                <button
-                    onClick={(e) => { e.stopPropagation(); onCancelGeneration(); }}
-                    className="mt-4 flex items-center gap-1.5 px-3 py-1.5 bg-surface hover:bg-border/50 border border-border/50 rounded-lg text-xs text-text-secondary hover:text-text-primary transition-all duration-200"
-                >
-                    <X size={12} />
-                    Cancel
-                </button>
-            )}
+            <div className="mt-4 flex items-center gap-2">
+                {/* Jump the queue */}
+                {isQueued && (queuePosition ?? 0) > 1 && onPrioritizeGeneration && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onPrioritizeGeneration(); }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-surface hover:bg-border/50 border border-border/50 rounded-lg text-xs text-text-secondary hover:text-text-primary transition-all duration-200"
+                        title="Move to the front of the queue"
+                    >
+                        <ListStart size={12} />
+                        Run Next
+                    </button>
+                )}
+
+                {/* Cancel button */}
+                {onCancelGeneration && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onCancelGeneration(); }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-surface hover:bg-border/50 border border-border/50 rounded-lg text-xs text-text-secondary hover:text-text-primary transition-all duration-200"
+                    >
+                        <X size={12} />
+                        Cancel
+                    </button>
+                )}
+            </div>
         </div>
     );
   }
   if (layer.error) {
+    const errorInfo = layer.errorKind ? GENERATION_ERROR_INFO[layer.errorKind] : undefined;
+    const retryModels = onRetryGeneration ? getRetryModels(layer).slice(0, 2) : [];
     return (
         <div className="absolute bg-red-950/50 backdrop-blur-xl border border-red-500/30 rounded-2xl flex flex-col items-center justify-center shadow-2xl shadow-black/40 p-6" style={{ left: layer.x, top: layer.y, width: layer.width, height: layer.height, zIndex: isSelected ? 50 : 10 }}>
             <div className="w-12 h-12 rounded-xl bg-red-500/20 flex items-center justify-center mb-3">
                 <AlertCircle size={24} className="text-red-400" />
             </div>
-            <span className="text-sm font-medium text-red-300 mb-1">Generation Failed</span>
-            <span className="text-xs text-red-400/80 text-center max-w-[80%] mb-4">{layer.error}</span>
-            <button onClick={() => onDelete(layer.id)} className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300 text-xs rounded-lg transition-colors">Dismiss</button>
+            <span className="text-sm font-medium text-red-300 mb-1">{errorInfo?.label || 'Generation Failed'}</span>
+            <span className={`text-xs text-red-400/80 text-center max-w-[80%] ${errorInfo ? 'mb-2' : 'mb-4'} line-clamp-3`} title={layer.error}>{layer.error}</span>
+            {errorInfo && <span className="text-[11px] text-red-200/60 text-center max-w-[85%] mb-4">{errorInfo.suggestion}</span>}
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                {onRetryGeneration && (
+                    <button onClick={() => onRetryGeneration(layer.id)} className="flex items-center gap-1.5 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300 text-xs rounded-lg transition-colors"><RotateCcw size={12} />Retry</button>
+                )}
+                {retryModels.map(model => (
+                    <button key={model.id} onClick={() => onRetryGeneration!(layer.id, model.id)} className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300 text-xs rounded-lg transition-colors" title={`Retry with ${model.name}`}>Try {model.name}</button>
+                ))}
+                <button onClick={() => onDelete(layer.id)} className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300 text-xs rounded-lg transition-colors">Dismiss</button>
+            </div>
         </div>
     );
   }
 
   // Define z-index based on layer type (groups at back)
-  const zIndex = layer.type === 'group' ? (isSelected ? 5 : 1) : (isSelected ? 50 : 10);
+  const isHighlighted = isSelected || isInSelection;
+  const zIndex = layer.type === 'group' ? Math.min(1 + depth * 2 + (isHighlighted ? 1 : 0), 9) : (isHighlighted ? 50 : 10);
   
   // Choose Palette
   const getCurrentPalette = () => {
@@ -892,39 +1059,63 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   };
 
   // Logic to show color tools
-  const showColorTools = layer.type === 'drawing' || layer.type === 'sticky' || layer.type === 'group' || layer.type === 'text' || tool === 'pencil' || tool === 'text' || tool === 'rectangle';
+  const showColorTools = layer.type === 'drawing' || layer.type === 'sticky' || layer.type === 'group' || layer.type === 'text' || (tool !== 'cursor' && tool !== 'mask' && tool !== 'refine');
 
   // Logic to show text size tools
   const showTextSizeTools = (layer.type === 'sticky' || layer.type === 'text') && onUpdateFontSize;
 
   return (
     <div ref={layerRef} className={`absolute transition-shadow duration-200 group ${isSelectionMode ? 'cursor-crosshair' : ''}`} style={{ left: layer.x, top: layer.y, zIndex, touchAction: 'none' }} onMouseDown={handleMouseDown}>
-      {isSelected && !isResizingMode && tool === 'cursor' && (
-          <>
+      {isSelected && !isResizingMode && !cropDraft && tool === 'cursor' && (
+          <div className="absolute inset-0 pointer-events-none [&>*]:pointer-events-auto" style={{ transform: getLayerTransform(layer) }}>
              <div className="absolute -top-1.5 -left-1.5 w-3 h-3 bg-white border border-primary rounded-full cursor-nw-resize z-50 hover:scale-125 transition-transform" onMouseDown={(e) => handleResizeStart(e, 'nw')} />
              <div className="absolute -top-1.5 -right-1.5 w-3 h-3 bg-white border border-primary rounded-full cursor-ne-resize z-50 hover:scale-125 transition-transform" onMouseDown={(e) => handleResizeStart(e, 'ne')} />
              <div className="absolute -bottom-1.5 -left-1.5 w-3 h-3 bg-white border border-primary rounded-full cursor-sw-resize z-50 hover:scale-125 transition-transform" onMouseDown={(e) => handleResizeStart(e, 'sw')} />
              <div className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border border-primary rounded-full cursor-se-resize z-50 hover:scale-125 transition-transform" onMouseDown={(e) => handleResizeStart(e, 'se')} />
-          </>
+             {onUpdateGeometry && layer.type !== 'group' && (
+               <>
+                 <div className="absolute top-1/2 -right-6 w-3 border-t border-primary pointer-events-none" />
+                 <div className="absolute top-1/2 -right-8 -mt-1.5 w-3 h-3 bg-primary border border-white rounded-full cursor-grab active:cursor-grabbing z-50 hover:scale-125 transition-transform" onMouseDown={handleRotateStart} title="Rotate (Shift snaps to 15°)" />
+               </>
+             )}
+          </div>
       )}
 
       {/* Resize/Crop Mode Overlay Controls */}
       {isResizingMode && (
          <>
              <div className="absolute z-[60] pointer-events-none" style={{ left: resizeBounds.x, top: resizeBounds.y, width: resizeBounds.width, height: resizeBounds.height }}>
-                 <div className="w-full h-full border-2 border-dashed border-primary bg-primary/10 relative pointer-events-auto">
+                 {/* The frame turns with the layer, about the layer's centre */}
+                 <div className="w-full h-full border-2 border-dashed border-primary bg-primary/10 relative pointer-events-auto" style={{ transform: getLayerTransform(layer), transformOrigin: `${layer.width / 2 - resizeBounds.x}px ${layer.height / 2 - resizeBounds.y}px` }}>
                      <div className="absolute -top-2 -left-2 w-4 h-4 bg-white border border-primary rounded-full cursor-nw-resize hover:scale-125 transition-transform" onMouseDown={(e) => handleCropResizeStart(e, 'nw')} />
                      <div className="absolute -top-2 -right-2 w-4 h-4 bg-white border border-primary rounded-full cursor-ne-resize hover:scale-125 transition-transform" onMouseDown={(e) => handleCropResizeStart(e, 'ne')} />
                      <div className="absolute -bottom-2 -left-2 w-4 h-4 bg-white border border-primary rounded-full cursor-sw-resize hover:scale-125 transition-transform" onMouseDown={(e) => handleCropResizeStart(e, 'sw')} />
                      <div className="absolute -bottom-2 -right-2 w-4 h-4 bg-white border border-primary rounded-full cursor-se-resize hover:scale-125 transition-transform" onMouseDown={(e) => handleCropResizeStart(e, 'se')} />
                  </div>
+                 {/* Expand by a set amount in one direction */}
+                 <div className="absolute bottom-full left-1/2 mb-3 -translate-x-1/2 pointer-events-auto flex items-center gap-1 bg-surface/95 backdrop-blur-xl border border-border rounded-lg p-1 shadow-2xl whitespace-nowrap">
+                     {OUTPAINT_DIRECTIONS.map(({ direction, label, icon: Icon }) => (
+                         <button key={direction} onClick={() => expandResizeBounds(direction)} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title={`${label} by ${outpaintAmount}px`}><Icon size={16} /></button>
+                     ))}
+                     <input
+                        type="number" min={16} step={64}
+                        value={outpaintAmount}
+                        onChange={(e) => setOutpaintAmount(Math.max(16, Number(e.target.value) || DEFAULT_OUTPAINT_AMOUNT))}
+                        className="w-16 bg-black/30 border border-white/10 rounded-md px-1.5 py-1 text-[11px] text-gray-300 outline-none font-mono"
+                        title="Pixels added per step"
+                     />
+                     <span className="text-[10px] text-gray-500 pr-1">px</span>
+                     <div className="w-px h-4 bg-white/10 mx-1"></div>
+                     <span className="text-[10px] text-gray-400 font-mono px-1">{Math.round(resizeBounds.width / imageFit)} × {Math.round(resizeBounds.height / imageFit)}</span>
+                     <button onClick={() => setResizeBounds({ x: 0, y: 0, width: layer.width, height: layer.height })} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Reset Frame"><RotateCcw size={14} /></button>
+                 </div>
                  {/* Floating Prompt Bar for Resize Mode */}
                  <div className="absolute top-full left-1/2 mt-4 -translate-x-1/2 w-[500px] pointer-events-auto shadow-2xl">
                      <PromptBar 
                         variant="floating" 
                         onSubmit={handleResizeGenerate} 
                         isGenerating={isGenerating} 
-                        placeholder="Describe how to fill the new space..." 
+                        placeholder="Describe what fills the new space (the original stays as it is)..." 
                         onCancel={() => setIsResizingMode(false)}
                         contextAttachments={[]}
                      />
@@ -935,7 +1126,39 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
          </>
       )}
 
-      {isSelected && !isResizingMode && !isResizingLayer && (
+      {/* Crop Mode: the whole media dimmed, the crop over it at full strength */}
+      {cropDraft && cropRect && fullFrame && mediaSize && (
+         <>
+             <div className="absolute inset-0 z-[60] pointer-events-none [&>*]:pointer-events-auto" style={{ transform: getLayerTransform(layer) }}>
+                 <div className="absolute bg-[#101012] overflow-hidden" style={{ left: fullFrame.left, top: fullFrame.top, width: fullFrame.width, height: fullFrame.height }}>
+                     {cropPreviewSrc && <img src={cropPreviewSrc} alt="" className="w-full h-full opacity-40 pointer-events-none" style={{ transform: flipTransform, filter: imageStyle.filter }} draggable={false} />}
+                 </div>
+                 <div className="absolute" style={{ left: cropRect.x, top: cropRect.y, width: cropRect.width, height: cropRect.height }}>
+                     <div className="absolute inset-0 overflow-hidden border-2 border-white shadow-[0_0_0_1px_rgba(0,0,0,0.5)] cursor-move" onMouseDown={(e) => handleCropDragStart(e, 'move')}>
+                         {cropPreviewSrc && <img src={cropPreviewSrc} alt="" className="absolute max-w-none pointer-events-none" style={{ left: fullFrame.left - cropRect.x, top: fullFrame.top - cropRect.y, width: fullFrame.width, height: fullFrame.height, transform: flipTransform, filter: imageStyle.filter }} draggable={false} />}
+                     </div>
+                     {CROP_HANDLES.map(({ handle, className }) => (
+                         <div key={handle} className={`absolute w-4 h-4 bg-white border border-primary rounded-full hover:scale-125 transition-transform ${className}`} onMouseDown={(e) => handleCropDragStart(e, handle)} />
+                     ))}
+                 </div>
+             </div>
+             <div className="absolute z-[60] layer-controls" style={{ left: Math.min(0, fullFrame.left), top: Math.min(0, fullFrame.top) }}>
+                 <div className="absolute bottom-3 left-0 origin-bottom-left flex items-center gap-1 bg-surface/95 backdrop-blur-xl border border-border rounded-lg p-1 shadow-2xl whitespace-nowrap" style={{ transform: `scale(${1/scale})` }}>
+                     <div className="p-1.5 text-gray-400 border-r border-white/10 pr-2 mr-1"><Crop size={16} /></div>
+                     {CROP_ASPECT_RATIOS.map(ratio => (
+                         <button key={ratio} onClick={() => handleCropAspectChange(ratio)} className={`px-1.5 py-1 rounded-md text-[11px] font-mono transition-colors ${cropAspect === ratio ? 'bg-white/15 text-white' : 'text-gray-400 hover:bg-white/10'}`} title={ratio === 'Auto' ? 'Free Crop' : `Crop to ${ratio}`}>{ratio === 'Auto' ? 'Free' : ratio}</button>
+                     ))}
+                     <div className="w-px h-4 bg-white/10 mx-1"></div>
+                     <span className="text-[10px] text-gray-400 font-mono px-1">{Math.round(cropDraft.width * (cropPixelSize ?? mediaSize).width)} × {Math.round(cropDraft.height * (cropPixelSize ?? mediaSize).height)}</span>
+                     <button onClick={() => applyCrop(FULL_FRAME)} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Reset to Full Frame"><RotateCcw size={14} /></button>
+                     <button onClick={() => setCropDraft(null)} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Cancel"><X size={14} /></button>
+                     <button onClick={() => applyCrop(cropDraft)} className="p-1.5 bg-primary hover:bg-primary-hover rounded-md text-white transition-colors" title="Apply Crop"><Check size={14} /></button>
+                 </div>
+             </div>
+         </>
+      )}
+
+      {isSelected && !isResizingMode && !isResizingLayer && !cropDraft && (
           <div className="absolute -top-12 left-0 z-[60] layer-controls origin-bottom-left" style={{ transform: `scale(${1/scale})` }}>
               <div className="flex items-center gap-1 bg-surface/95 backdrop-blur-xl border border-border rounded-lg p-1 shadow-2xl">
                   <div className="p-1.5 text-gray-400 cursor-grab active:cursor-grabbing border-r border-white/10 pr-2 mr-1"><Move size={16} /></div>
@@ -943,17 +1166,51 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                   {/* General Controls */}
                   <button onClick={() => onFlip(layer.id, 'x')} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Flip Horizontal"><FlipHorizontal size={16} /></button>
                   <button onClick={() => onFlip(layer.id, 'y')} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Flip Vertical"><FlipVertical size={16} /></button>
-                  {layer.type === 'image' && <button onClick={() => onRemoveBackground(layer.id)} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Remove Background"><Eraser size={16} /></button>}
+                  {layer.type === 'image' && <button onClick={() => onRemoveBackground(layer.id)} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title={layer.matte ? 'Redo Cutout from Original' : 'Remove Background'}><Eraser size={16} /></button>}
+                  {layer.type === 'image' && layer.matte && onRefineMatte && <button onClick={() => setTool(tool === 'refine' ? 'cursor' : 'refine')} className={`p-1.5 rounded-md transition-colors ${tool === 'refine' ? 'bg-primary text-white' : 'text-gray-300 hover:bg-white/10'}`} title="Refine Cutout"><WandSparkles size={16} /></button>}
                   {layer.type === 'image' && <button onClick={enterResizeMode} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Outpaint / Expand"><Maximize size={16} /></button>}
+                  {(layer.type === 'image' || layer.type === 'video') && onCrop && <button onClick={enterCropMode} disabled={!mediaSize} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 disabled:opacity-40 transition-colors" title="Crop"><Crop size={16} /></button>}
+                  {layer.type === 'image' && onMaskedEdit && <button onClick={() => setTool(tool === 'mask' ? 'cursor' : 'mask')} className={`p-1.5 rounded-md transition-colors ${tool === 'mask' ? 'bg-primary text-white' : 'text-gray-300 hover:bg-white/10'}`} title="Inpaint (paint the area to change)"><Brush size={16} /></button>}
+
+                  {(tool === 'mask' || tool === 'refine') && (
+                    <div className="relative flex items-center gap-1 border-l border-white/10 pl-2 ml-1">
+                        <button onClick={() => setShowStrokePicker(!showStrokePicker)} className="p-1.5 rounded-md text-gray-300 hover:bg-white/10 flex items-center gap-1 text-[10px] font-mono" title="Brush Size">
+                            <div className="rounded-full bg-gray-300" style={{ width: `${Math.max(4, Math.min(maskBrushSize / 6, 16))}px`, height: `${Math.max(4, Math.min(maskBrushSize / 6, 16))}px` }}></div>
+                            <span>{maskBrushSize}px</span>
+                        </button>
+                        {showStrokePicker && (
+                            <div className="absolute top-full mt-2 left-0 bg-surface border border-border p-2 rounded-lg flex flex-col gap-1 shadow-xl z-50 min-w-[80px]">
+                                {MASK_BRUSH_SIZES.map(size => (
+                                    <button
+                                        key={size}
+                                        onClick={() => { setMaskBrushSize(size); setShowStrokePicker(false); }}
+                                        className={`px-2 py-1.5 rounded text-xs hover:bg-white/10 flex items-center gap-2 ${maskBrushSize === size ? 'bg-white/10 text-white' : 'text-gray-400'}`}
+                                    >
+                                        <span>{size}px</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {tool === 'mask' ? (
+                          <>
+                            <button onClick={() => setIsErasingMask(!isErasingMask)} className={`p-1.5 rounded-md transition-colors ${isErasingMask ? 'bg-white/15 text-white' : 'text-gray-300 hover:bg-white/10'}`} title={isErasingMask ? 'Erasing Mask (click to paint)' : 'Erase Mask'}><Eraser size={16} /></button>
+                            <button onClick={() => setMaskStrokes([])} disabled={maskStrokes.length === 0} className="p-1.5 rounded-md text-gray-300 hover:bg-white/10 disabled:opacity-40 transition-colors" title="Clear Mask"><BrushCleaning size={16} /></button>
+                          </>
+                        ) : REFINE_MODES.map(({ mode, color, title, icon: Icon }) => (
+                            <button key={mode} onClick={() => setRefineMode(mode)} className={`p-1.5 rounded-md transition-colors ${refineMode === mode ? 'bg-white/15' : 'text-gray-300 hover:bg-white/10'}`} style={refineMode === mode ? { color } : undefined} title={title}><Icon size={16} /></button>
+                        ))}
+                    </div>
+                  )}
+                  {layer.type === 'group' && onFitGroup && <button onClick={() => onFitGroup(layer.id)} className="p-1.5 hover:bg-white/10 rounded-md text-gray-300 transition-colors" title="Fit to Contents"><Shrink size={16} /></button>}
 
                   <div className="w-px h-4 bg-white/10 mx-1"></div>
 
                   {/* Annotation Tools */}
-                  <button onClick={() => setTool(tool === 'pencil' ? 'cursor' : 'pencil')} className={`p-1.5 rounded-md transition-colors ${tool === 'pencil' ? 'bg-primary text-white' : 'text-gray-300 hover:bg-white/10'}`} title="Draw"><Pencil size={16} /></button>
-                  <button onClick={() => setTool(tool === 'text' ? 'cursor' : 'text')} className={`p-1.5 rounded-md transition-colors ${tool === 'text' ? 'bg-primary text-white' : 'text-gray-300 hover:bg-white/10'}`} title="Add Text Overlay"><TypeIcon size={16} /></button>
-                  <button onClick={() => setTool(tool === 'rectangle' ? 'cursor' : 'rectangle')} className={`p-1.5 rounded-md transition-colors ${tool === 'rectangle' ? 'bg-primary text-white' : 'text-gray-300 hover:bg-white/10'}`} title="Draw Rectangle"><Square size={16} /></button>
+                  {ANNOTATION_TOOLS.map(({ tool: annotationTool, title, icon: Icon }) => (
+                      <button key={annotationTool} onClick={() => setTool(tool === annotationTool ? 'cursor' : annotationTool)} className={`p-1.5 rounded-md transition-colors ${tool === annotationTool ? 'bg-primary text-white' : 'text-gray-300 hover:bg-white/10'}`} title={title}><Icon size={16} /></button>
+                  ))}
 
-                  {(tool === 'pencil' || tool === 'rectangle') && (
+                  {(tool === 'pencil' || tool === 'highlighter' || isShapeTool(tool)) && (
                     <div className="relative flex items-center gap-1 border-r border-white/10 pr-2 mr-1">
                         <button onClick={() => setShowStrokePicker(!showStrokePicker)} className="p-1.5 rounded-md text-gray-300 hover:bg-white/10 flex items-center gap-1 text-[10px] font-mono">
                             <div className="w-0.5 rounded-full bg-gray-300" style={{ height: `${Math.min(strokeWidth * 2, 16)}px` }}></div>
@@ -976,7 +1233,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                     </div>
                   )}
 
-                  {tool === 'text' && (
+                  {(tool === 'text' || tool === 'callout') && (
                     <div className="relative flex items-center gap-1 border-r border-white/10 pr-2 mr-1">
                         <button onClick={() => setShowFontSizePicker(!showFontSizePicker)} className="p-1.5 rounded-md text-gray-300 hover:bg-white/10 flex items-center gap-1 text-[10px] font-mono">
                             <TypeIcon size={12} />
@@ -1038,8 +1295,8 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                                       </div>
                                   )}
                               </div>
-                              {/* Size Control for Text Annotations */}
-                              {selectedAnn.type === 'text' && (
+                              {/* Size Control for Text and Callout Annotations */}
+                              {(selectedAnn.type === 'text' || selectedAnn.type === 'callout') && (
                                   <div className="relative flex items-center gap-1">
                                       <button onClick={() => setShowFontSizePicker(!showFontSizePicker)} className="p-1.5 rounded-md text-gray-300 hover:bg-white/10 flex items-center gap-1 text-[10px] font-mono">
                                           <TypeIcon size={12} />
@@ -1056,17 +1313,17 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                                       )}
                                   </div>
                               )}
-                              {/* Size Control for Rectangle/Path Annotations */}
-                              {(selectedAnn.type === 'rectangle' || selectedAnn.type === 'path') && (
+                              {/* Stroke Width Control for Paths and Shapes */}
+                              {selectedAnn.type !== 'text' && selectedAnn.type !== 'callout' && (
                                   <div className="relative flex items-center gap-1">
                                       <button onClick={() => setShowStrokePicker(!showStrokePicker)} className="p-1.5 rounded-md text-gray-300 hover:bg-white/10 flex items-center gap-1 text-[10px] font-mono">
-                                          <div className="w-0.5 rounded-full bg-gray-300" style={{ height: `${Math.min((selectedAnn.type === 'rectangle' ? selectedAnn.strokeWidth : selectedAnn.width) * 2, 16)}px` }}></div>
-                                          <span>{selectedAnn.type === 'rectangle' ? selectedAnn.strokeWidth : selectedAnn.width}px</span>
+                                          <div className="w-0.5 rounded-full bg-gray-300" style={{ height: `${Math.min(getAnnotationSize(selectedAnn) * 2, 16)}px` }}></div>
+                                          <span>{getAnnotationSize(selectedAnn)}px</span>
                                       </button>
                                       {showStrokePicker && (
                                           <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 bg-surface border border-border p-2 rounded-lg flex flex-col gap-1 shadow-xl z-50 min-w-[80px]">
                                               {STROKE_WIDTHS.map(w => (
-                                                  <button key={w} onClick={() => { handleUpdateAnnotationSize(selectedAnnotationId, w); setShowStrokePicker(false); }} className={`px-2 py-1.5 rounded text-xs hover:bg-white/10 flex items-center gap-2 ${(selectedAnn.type === 'rectangle' ? selectedAnn.strokeWidth : selectedAnn.width) === w ? 'bg-white/10 text-white' : 'text-gray-400'}`}>
+                                                  <button key={w} onClick={() => { handleUpdateAnnotationSize(selectedAnnotationId, w); setShowStrokePicker(false); }} className={`px-2 py-1.5 rounded text-xs hover:bg-white/10 flex items-center gap-2 ${getAnnotationSize(selectedAnn) === w ? 'bg-white/10 text-white' : 'text-gray-400'}`}>
                                                       <div className="w-0.5 rounded-full bg-current" style={{ height: `${Math.min(w * 2, 16)}px` }}></div>
                                                       <span>{w}px</span>
                                                   </button>
@@ -1112,6 +1369,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
                                             <>
                                                 <button onClick={() => handleExport('png')} className="block w-full text-left px-8 py-2 text-xs text-gray-400 hover:text-white hover:bg-white/5">PNG Image</button>
                                                 <button onClick={() => handleExport('jpg')} className="block w-full text-left px-8 py-2 text-xs text-gray-400 hover:text-white hover:bg-white/5">JPG Image</button>
+                                                {canExportSvg(layer) && <button onClick={() => handleExport('svg')} className="block w-full text-left px-8 py-2 text-xs text-gray-400 hover:text-white hover:bg-white/5">{layer.type === 'image' ? 'SVG Annotations' : 'SVG Vector'}</button>}
                                             </>
                                         )}
                                     </div>
@@ -1125,9 +1383,10 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       )}
 
       <div 
+        ref={contentRef}
         className={`relative rounded-lg overflow-hidden select-none transition-all duration-150
-          ${isSelected && !isResizingMode ? 'ring-2 ring-primary shadow-2xl shadow-black/50' : ''}
-          ${!isSelected && !isResizingMode && !isSelectionMode ? 'hover:ring-1 hover:ring-border shadow-xl' : ''}
+          ${isHighlighted && !isResizingMode ? 'ring-2 ring-primary shadow-2xl shadow-black/50' : ''}
+          ${!isHighlighted && !isResizingMode && !isSelectionMode ? 'hover:ring-1 hover:ring-border shadow-xl' : ''}
           ${!isSelected && isSelectionMode ? 'hover:ring-2 hover:ring-primary/70 hover:shadow-lg hover:shadow-primary/20 hover:scale-[1.01]' : ''}
           ${isExtendingMode ? 'ring-2 ring-yellow-500' : ''}
           ${layer.type === 'group' ? 'border-2 border-dashed' : 'bg-surface'}
@@ -1135,6 +1394,7 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
         style={{
              width: layer.width > 0 ? layer.width : 'auto',
              height: layer.height > 0 ? layer.height : 'auto',
+             transform: getLayerTransform(layer),
              opacity: isResizingMode ? 0.7 : 1,
              backgroundColor: layer.type === 'sticky' ? (layer.color || '#fff8c5') : (layer.type === 'group' ? (layer.color ? hexToRgba(layer.color, 0.2) : 'transparent') : (layer.type === 'drawing' || layer.type === 'text' ? 'transparent' : undefined)),
              borderColor: layer.type === 'group' ? (layer.color || '#3f3f46') : undefined,
@@ -1150,29 +1410,38 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
         {/* Render Layer Content Based on Type */}
         {layer.type === 'image' && (
           <div className="relative w-full h-full bg-[#101012] pattern-grid-lg">
+            {/* Temperature and sharpen have no CSS filter function; the image's filter chain points here */}
+            {adjustments && needsPixelFilter(adjustments) && (
+              <svg className="absolute w-0 h-0" aria-hidden="true">
+                <filter id={adjustmentFilterId} colorInterpolationFilters="sRGB">
+                  <feColorMatrix type="matrix" values={getTemperatureMatrix(adjustments.temperature ?? 0)} />
+                  {!!adjustments.sharpen && <feConvolveMatrix order="3" kernelMatrix={getSharpenMatrix(adjustments.sharpen)} edgeMode="duplicate" preserveAlpha="true" />}
+                </filter>
+              </svg>
+            )}
+            {/* Flips apply to the frame so a crop window mirrors with the image */}
+            <div className="absolute inset-0 overflow-hidden" style={{ transform: flipTransform }}>
             {/* Conditional rendering: only one image in DOM at a time */}
             {(!shouldShowFullRes || !fullResLoaded) && layer.thumbnail ? (
               <img
                 src={layer.thumbnail}
                 alt=""
-                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-                style={{
-                  transform: `scaleX(${layer.flipX?-1:1}) scaleY(${layer.flipY?-1:1})`
-                }}
+                className={mediaClassName}
+                style={imageStyle}
                 draggable={false}
+                onLoad={handleImageLoad}
               />
             ) : (
               <img
                 src={layer.src}
                 alt={layer.title}
-                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-                style={{
-                  transform: `scaleX(${layer.flipX?-1:1}) scaleY(${layer.flipY?-1:1})`
-                }}
+                className={mediaClassName}
+                style={imageStyle}
                 draggable={false}
-                onLoad={() => setFullResLoaded(true)}
+                onLoad={(e) => { handleImageLoad(e); setFullResLoaded(true); }}
               />
             )}
+            </div>
             {/* Hidden preloader: load full-res in background when needed */}
             {shouldShowFullRes && !fullResLoaded && layer.thumbnail && (
               <img
@@ -1187,7 +1456,10 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
         
         {layer.type === 'video' && (
             <div className="relative w-full h-full bg-black group-hover:bg-[#101012]">
-                <video ref={videoRef} src={layer.src} className="block w-full h-full object-contain pointer-events-none" loop muted={isMuted} playsInline style={{ transform: `scaleX(${layer.flipX?-1:1}) scaleY(${layer.flipY?-1:1})` }} />
+                {/* Flips apply to the frame so a crop window mirrors with the video */}
+                <div className="absolute inset-0 overflow-hidden" style={{ transform: flipTransform }}>
+                    <video ref={videoRef} src={layer.src} className={mediaClassName} style={cropFrame ?? undefined} loop muted={isMuted} playsInline onLoadedMetadata={handleVideoMetadata} />
+                </div>
                 <div className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-transparent transition-colors cursor-pointer" onClick={togglePlay}>{!isPlaying && <div className="bg-white/20 backdrop-blur-sm p-3 rounded-full shadow-lg"><Play size={24} fill="white" className="text-white ml-1" /></div>}</div>
                 <button onClick={(e) => { e.stopPropagation(); setIsMuted(!isMuted); }} className="absolute bottom-2 right-2 bg-black/60 p-1.5 rounded text-white hover:bg-black/80 transition-colors z-20 video-controls">{isMuted ? <VolumeX size={14} /> : <Volume2 size={14} />}</button>
             </div>
@@ -1269,48 +1541,47 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
             );
         })}
 
-        {/* Rectangle Annotations with Vertex Handles */}
+        {/* Stroke and Shape Annotations: hit areas (drawn on the canvas above) and handles */}
         {layer.annotations?.map(ann => {
-            if (ann.type !== 'rectangle') return null;
+            if (ann.type === 'text') return null;
             const isAnnSelected = selectedAnnotationId === ann.id;
+            const handles = getAnnotationHandles(ann);
+            const hitProps = {
+                fill: 'none',
+                stroke: 'transparent',
+                strokeWidth: (ann.type === 'callout' ? 0 : getAnnotationSize(ann)) + 10,
+                // Outlines only, so clicks inside a shape still reach the layer; callouts are solid
+                style: { cursor: tool === 'cursor' ? 'move' : 'default', pointerEvents: tool !== 'cursor' ? 'none' as const : ann.type === 'callout' ? 'all' as const : 'stroke' as const },
+                onMouseDown: (e: React.MouseEvent) => handleAnnotationMouseDown(e, ann.id),
+                onDoubleClick: ann.type === 'callout' ? (e: React.MouseEvent) => handleCalloutDoubleClick(e, ann.id) : undefined,
+            };
+            const deleteAnchor = ann.type === 'callout' ? { x: ann.x + getCalloutRadius(ann), y: ann.y - getCalloutRadius(ann) } : ann.type === 'path' ? ann.points[0] : handles[0];
             return (
                 <div key={ann.id} className="absolute annotation-overlay pointer-events-none z-30" style={{ inset: 0 }}>
-                    {/* Clickable overlay for selection - only the polygon stroke area is clickable */}
-                    <svg
-                        className="absolute inset-0 w-full h-full pointer-events-none"
-                    >
-                        <polygon
-                            points={ann.vertices.map(v => `${v.x},${v.y}`).join(' ')}
-                            fill="transparent"
-                            stroke="transparent"
-                            strokeWidth={ann.strokeWidth + 10}
-                            style={{ cursor: tool === 'cursor' ? 'pointer' : 'default', pointerEvents: tool === 'cursor' ? 'auto' : 'none' }}
-                            onMouseDown={(e) => handleAnnotationMouseDown(e, ann.id)}
-                        />
+                    <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+                        {ann.type === 'path' && <polyline points={ann.points.map(p => `${p.x},${p.y}`).join(' ')} strokeLinecap="round" strokeLinejoin="round" {...hitProps} />}
+                        {isAnnSelected && ann.type === 'path' && <polyline points={ann.points.map(p => `${p.x},${p.y}`).join(' ')} fill="none" className="stroke-primary" strokeWidth={1.5} strokeDasharray="3 2" />}
+                        {ann.type === 'rectangle' && <polygon points={ann.vertices.map(v => `${v.x},${v.y}`).join(' ')} {...hitProps} />}
+                        {(ann.type === 'line' || ann.type === 'arrow') && <line x1={ann.start.x} y1={ann.start.y} x2={ann.end.x} y2={ann.end.y} {...hitProps} />}
+                        {ann.type === 'ellipse' && <ellipse cx={ann.x + ann.width / 2} cy={ann.y + ann.height / 2} rx={ann.width / 2} ry={ann.height / 2} {...hitProps} />}
+                        {ann.type === 'callout' && <circle cx={ann.x} cy={ann.y} r={getCalloutRadius(ann)} {...hitProps} />}
+                        {isAnnSelected && ann.type === 'callout' && <circle cx={ann.x} cy={ann.y} r={getCalloutRadius(ann) + 3} fill="none" className="stroke-primary" strokeWidth={1.5} strokeDasharray="3 2" />}
                     </svg>
                     {isAnnSelected && (
                         <>
-                            {/* Delete button */}
                             <button
                                 onClick={(e) => { e.stopPropagation(); handleDeleteAnnotation(ann.id); }}
                                 className="absolute bg-red-500 text-white rounded-full p-0.5 hover:bg-red-600 shadow-md pointer-events-auto z-50"
-                                style={{
-                                    left: ann.vertices[0].x - 6,
-                                    top: ann.vertices[0].y - 12
-                                }}
+                                style={{ left: deleteAnchor.x - 6, top: deleteAnchor.y - 12 }}
                             >
                                 <X size={8} />
                             </button>
-                            {/* Vertex handles */}
-                            {ann.vertices.map((vertex, idx) => (
+                            {handles.map((vertex, idx) => (
                                 <div
                                     key={idx}
                                     onMouseDown={(e) => handleVertexMouseDown(e, ann.id, idx)}
                                     className="absolute w-3 h-3 bg-white border-2 border-primary rounded-full cursor-move z-50 hover:scale-125 shadow-md pointer-events-auto transition-transform"
-                                    style={{
-                                        left: vertex.x - 6,
-                                        top: vertex.y - 6
-                                    }}
+                                    style={{ left: vertex.x - 6, top: vertex.y - 6 }}
                                 />
                             ))}
                         </>
@@ -1319,7 +1590,10 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
             );
         })}
 
-        <canvas ref={canvasRef} className="absolute inset-0 z-20 pointer-events-none" style={{ pointerEvents: tool !== 'cursor' ? 'auto' : 'none', cursor: tool === 'pencil' ? 'crosshair' : tool === 'text' ? 'text' : tool === 'rectangle' ? 'crosshair' : 'default' }} onMouseDown={handleCanvasMouseDown} onMouseMove={handleCanvasMouseMove} onMouseUp={handleCanvasMouseUp} onMouseLeave={handleCanvasMouseUp} />
+        <canvas ref={canvasRef} className="absolute inset-0 z-20 pointer-events-none" style={{ pointerEvents: tool !== 'cursor' ? 'auto' : 'none', cursor: tool === 'text' ? 'text' : tool !== 'cursor' ? 'crosshair' : 'default' }} onMouseDown={handleCanvasMouseDown} onMouseMove={handleCanvasMouseMove} onMouseUp={handleCanvasMouseUp} onMouseLeave={handleCanvasMouseUp} />
+        {/* Inpainting mask overlay; drawn opaque and faded as a whole so overlapping strokes don't darken */}
+        {tool === 'mask' && <canvas ref={maskCanvasRef} className="absolute inset-0 z-20 pointer-events-none opacity-50" />}
+        {tool === 'refine' && <canvas ref={refineCanvasRef} className="absolute inset-0 z-20 pointer-events-none opacity-50" />}
         {textInput && (
             <div className="absolute z-30" style={{ left: textInput.x, top: textInput.y }} onMouseDown={(e) => e.stopPropagation()}>
                 <textarea
@@ -1353,14 +1627,14 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
             </div>
         )}
         
-        {layer.promptUsed && isSelected && !isResizingMode && !isResizingLayer && (layer.type === 'image' || layer.type === 'video' || layer.type === 'audio') && (
+        {layer.promptUsed && isSelected && !isResizingMode && !isResizingLayer && !cropDraft && (layer.type === 'image' || layer.type === 'video' || layer.type === 'audio') && (
             <div className="absolute bottom-0 left-0 right-0 bg-black/70 p-2 text-[10px] text-gray-300 truncate z-10">{layer.promptUsed}</div>
         )}
       </div>
 
-      {isSelected && !isResizingMode && !isResizingLayer && (layer.type === 'image' || layer.type === 'video') && (
+      {isSelected && !isResizingMode && !isResizingLayer && !cropDraft && (layer.type === 'image' || layer.type === 'video') && (
         <div className="absolute top-full left-1/2 mt-4 z-50 layer-controls animate-in fade-in slide-in-from-top-2 duration-200 origin-top" style={{ transform: `translateX(-50%) scale(${1 / scale})` }}>
-           <PromptBar variant="floating" onSubmit={handlePromptSubmit} isGenerating={isGenerating} initialValues={draftState} onStateChange={handleDraftStateChange} contextAttachments={!isExtendingMode && layer.type === 'image' ? [layerAttachment] : []} attachments={promptAttachments} onAttachmentsChange={setPromptAttachments} onSelectOnCanvasStart={onSelectOnCanvasStart} placeholder={isExtendingMode ? "Describe how to extend this video..." : (layer.type === 'video' ? "Remix this video..." : "Edit or remix this image...")} onCancel={() => onSelect('')} isExtension={isExtendingMode} inputRef={promptInputRef} />
+           <PromptBar variant="floating" onSubmit={handlePromptSubmit} isGenerating={isGenerating} initialValues={draftState} onStateChange={handleDraftStateChange} contextAttachments={!isExtendingMode && layer.type === 'image' ? [layerAttachment] : []} attachments={promptAttachments} onAttachmentsChange={setPromptAttachments} onSelectOnCanvasStart={onSelectOnCanvasStart} placeholder={isExtendingMode ? "Describe how to extend this video..." : tool === 'mask' ? "Paint the area to change, then describe what goes there..." : (layer.type === 'video' ? "Remix this video..." : "Edit or remix this image...")} onCancel={() => onSelect('')} isExtension={isExtendingMode} inputRef={promptInputRef} />
         </div>
       )}
     </div>
@@ -1373,9 +1647,12 @@ export default React.memo(CanvasLayer, (prev, next) => {
   return (
     prev.layer === next.layer &&
     prev.isSelected === next.isSelected &&
+    prev.isInSelection === next.isInSelection &&
+    prev.depth === next.depth &&
     prev.scale === next.scale &&
     prev.isGenerating === next.isGenerating &&
     prev.generationTask === next.generationTask &&
+    prev.isQueuePaused === next.isQueuePaused &&
     prev.injectedAttachment === next.injectedAttachment &&
     prev.isSelectionMode === next.isSelectionMode
   );
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { CropRect, LayerData } from '../types';
+import { cropImage, hasCrop } from '../services/cropService';
+import { renderLayerComposite } from '../services/annotationService';
+
+interface LayerThumbnailProps {
+  layer: LayerData;
+  src?: string; // Defaults to the layer's thumbnail, then its source
+  className?: string;
+}
+
+const MAX_CACHED_CROPS = 200;
+
+// Cropped copies of thumbnails, shared by every list that shows the same layer
+const croppedThumbnails = new Map<string, Promise<string>>();
+
+const getCroppedThumbnail = (src: string, crop: CropRect): Promise<string> => {
+  const key = `${crop.x},${crop.y},${crop.width},${crop.height}|${src}`;
+  const cached = croppedThumbnails.get(key);
+  if (cached) return cached;
+  const request = cropImage(src, crop).catch(error => { croppedThumbnails.delete(key); throw error; });
+  croppedThumbnails.set(key, request);
+  if (croppedThumbnails.size > MAX_CACHED_CROPS) croppedThumbnails.delete(croppedThumbnails.keys().next().value!);
+  return request;
+};
+
+// A layer's thumbnail showing what the layer shows: cut to its crop with its annotations
+// drawn in, the plain thumbnail until that is ready
+const LayerThumbnail: React.FC<LayerThumbnailProps> = ({ layer, src = layer.thumbnail || layer.src, className }) => {
+  const [rendered, setRendered] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRendered(null);
+    const isCropped = !!src && hasCrop(layer.crop);
+    const isAnnotated = (layer.type === 'image' || layer.type === 'drawing') && !!layer.annotations?.length;
+    if (!isCropped && !isAnnotated) return;
+    let cancelled = false;
+    (async () => {
+      const image = isCropped ? await getCroppedThumbnail(src, layer.crop!) : src;
+      const url = isAnnotated ? await renderLayerComposite(layer, image) : image;
+      if (!cancelled) setRendered(url);
+    })().catch(() => {}); // Not an image (a video without a poster frame): stays as it is
+    return () => { cancelled = true; };
+  }, [src, layer.crop, layer.annotations, layer.flipX, layer.flipY, layer.width, layer.height]);
+
+  return rendered || src ? <img src={rendered ?? src} alt="" className={className} /> : null;
+};
+
+export default LayerThumbnail;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { LayerData } from '../types';
+import { LineageEdge, getConnectorPoints } from '../services/lineageService';
+
+interface LineageConnectorsProps {
+  layers: LayerData[];
+  edges: LineageEdge[];
+  selectedLayerIds: string[];
+  scale: number;
+}
+
+const CONNECTOR_COLORS = { active: '#f59e0b', idle: '#78716c' };
+
+// Arrows from source layers to the layers generated from them, drawn in canvas space
+const LineageConnectors: React.FC<LineageConnectorsProps> = ({ layers, edges, selectedLayerIds, scale }) => {
+  if (edges.length === 0) return null;
+  const byId = new Map<string, LayerData>(layers.map(l => [l.id, l]));
+  const strokeWidth = 1.5 / scale;
+
+  return (
+    <svg className="absolute top-0 left-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 9 }}>
+      <defs>
+        {/* Markers scale with the stroke width, which is already zoom-compensated */}
+        {Object.entries(CONNECTOR_COLORS).map(([key, color]) => (
+          <marker key={key} id={`lineage-arrow-${key}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+      {edges.map(edge => {
+        const from = byId.get(edge.fromId);
+        const to = byId.get(edge.toId);
+        if (!from || !to) return null;
+        const { start, end } = getConnectorPoints(from, to);
+        const isActive = selectedLayerIds.includes(edge.fromId) || selectedLayerIds.includes(edge.toId);
+        return (
+          <line
+            key={`${edge.fromId}-${edge.toId}`}
+            x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+            stroke={isActive ? CONNECTOR_COLORS.active : CONNECTOR_COLORS.idle}
+            strokeOpacity={isActive ? 0.9 : 0.5}
+            strokeWidth={strokeWidth}
+            strokeDasharray={isActive ? undefined : `${6 / scale} ${4 / scale}`}
+            markerEnd={`url(#lineage-arrow-${isActive ? 'active' : 'idle'})`}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default LineageConnectors;
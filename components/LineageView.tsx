@@ -0,0 +1,64 @@
+import React from 'react';
+import { LayerData } from '../types';
+import { GitFork, CornerDownRight } from 'lucide-react';
+import { buildLineageTree, LineageNode } from '../services/lineageService';
+import LayerThumbnail from './LayerThumbnail';
+
+interface LineageViewProps {
+  layers: LayerData[];
+  layerId: string;
+  onSelectLayer: (id: string) => void;
+  onFocusLayer: (id: string) => void;
+}
+
+// Sources and derived layers of the selected layer, traced back / forward as trees
+const LineageView: React.FC<LineageViewProps> = ({ layers, layerId, onSelectLayer, onFocusLayer }) => {
+  const sources = buildLineageTree(layers, layerId, 'sources');
+  const derived = buildLineageTree(layers, layerId, 'derived');
+  if (sources.length === 0 && derived.length === 0) return null;
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => (
+    <React.Fragment key={node.layer.id}>
+      <button
+        onClick={() => onSelectLayer(node.layer.id)}
+        onDoubleClick={() => onFocusLayer(node.layer.id)}
+        className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left hover:bg-white/[0.04] transition-colors"
+        style={{ paddingLeft: 8 + depth * 14 }}
+        title="Click to select, double-click to zoom to layer"
+      >
+        {depth > 0 && <CornerDownRight size={10} className="text-stone-700 shrink-0" />}
+        {node.layer.thumbnail ? (
+          <LayerThumbnail layer={node.layer} src={node.layer.thumbnail} className="w-6 h-6 rounded object-cover shrink-0 border border-white/[0.06]" />
+        ) : (
+          <div className="w-6 h-6 rounded bg-[#0d0c0a] border border-white/[0.06] shrink-0" />
+        )}
+        <span className="flex-1 min-w-0 truncate text-xs text-stone-300">{node.layer.title || 'Untitled'}</span>
+        <span className="text-[10px] text-stone-600 uppercase tracking-wide">{node.layer.type}</span>
+      </button>
+      {node.next.map(child => renderNode(child, depth + 1))}
+    </React.Fragment>
+  );
+
+  return (
+    <div className="space-y-2.5">
+      <div className="text-[11px] font-semibold text-stone-500 uppercase tracking-wider flex items-center gap-1.5">
+        <GitFork size={11} className="text-primary" />
+        Lineage
+      </div>
+      {sources.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] text-stone-600 uppercase tracking-wide">Made from</div>
+          <div className="bg-[#0d0c0a] p-1 rounded-lg border border-white/[0.04]">{sources.map(node => renderNode(node, 0))}</div>
+        </div>
+      )}
+      {derived.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] text-stone-600 uppercase tracking-wide">Used to make</div>
+          <div className="bg-[#0d0c0a] p-1 rounded-lg border border-white/[0.04]">{derived.map(node => renderNode(node, 0))}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineageView;
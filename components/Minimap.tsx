@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { LayerData } from '../types';
 import { MINIMAP_LAYER_COLORS } from '../constants';
+import { getLayerBounds, getLayerCorners, hasTransform } from '../services/transformService';
 
 interface MinimapProps {
   layers: LayerData[];
@@ -58,12 +59,13 @@ export default function Minimap({
 
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
 
-    // Include all layers
+    // Include all layers, as rotated
     layers.forEach(layer => {
-      minX = Math.min(minX, layer.x);
-      minY = Math.min(minY, layer.y);
-      maxX = Math.max(maxX, layer.x + layer.width);
-      maxY = Math.max(maxY, layer.y + layer.height);
+      const bounds = getLayerBounds(layer);
+      minX = Math.min(minX, bounds.x);
+      minY = Math.min(minY, bounds.y);
+      maxX = Math.max(maxX, bounds.x + bounds.width);
+      maxY = Math.max(maxY, bounds.y + bounds.height);
     });
 
     // Include viewport bounds
@@ -257,6 +259,26 @@ export default function Minimap({
           const isSelected = layer.id === selectedLayerId;
           const isLoading = layer.isLoading;
 
+          // Rotated or skewed layers are drawn as their actual outline
+          if (hasTransform(layer)) {
+            const points = getLayerCorners(layer).map(corner => {
+              const point = worldToMinimap(corner.x, corner.y);
+              return `${point.x},${point.y}`;
+            }).join(' ');
+            return (
+              <polygon
+                key={layer.id}
+                points={points}
+                fill={fillColor}
+                stroke={isSelected ? '#ffffff' : 'transparent'}
+                strokeWidth={isSelected ? 1.5 : 0}
+                opacity={layer.type === 'group' ? 0.5 : 0.8}
+                className={isLoading ? 'animate-pulse' : ''}
+                style={{ pointerEvents: 'none' }}
+              />
+            );
+          }
+
           return (
             <rect
               key={layer.id}
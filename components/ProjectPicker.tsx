@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectMeta } from '../types';
+import { ChevronDown, Plus, Edit3, Copy, Trash2, Check, LayoutGrid, Download, Upload } from 'lucide-react';
+import { ARCHIVE_EXTENSION } from '../services/archiveService';
+
+interface ProjectPickerProps {
+  projects: ProjectMeta[];
+  activeProjectId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+  disabled?: boolean; // Switching is blocked while generations are in flight
+}
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ projects, activeProjectId, onSwitch, onCreate, onRename, onDuplicate, onDelete, onExport, onImport, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleCreate = () => {
+    const name = window.prompt('Canvas name:', 'Untitled Canvas');
+    if (name && name.trim()) onCreate(name.trim());
+    setIsOpen(false);
+  };
+
+  const handleRename = (project: ProjectMeta) => {
+    const name = window.prompt('Rename canvas:', project.name);
+    if (name && name.trim()) onRename(project.id, name.trim());
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+    setIsOpen(false);
+  };
+
+  const handleDelete = (project: ProjectMeta) => {
+    if (projects.length <= 1) return;
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 text-text-secondary hover:text-text-primary transition-colors max-w-[180px]"
+        title="Switch canvas"
+      >
+        <LayoutGrid size={12} className="shrink-0" />
+        <span className="truncate">{activeProject?.name || 'Canvas'}</span>
+        <ChevronDown size={12} className="shrink-0 opacity-60" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-1/2 -translate-x-1/2 mt-3 w-72 bg-elevated/95 backdrop-blur-xl border border-border/50 rounded-xl shadow-2xl shadow-black/40 py-1.5 z-50 animate-scale-in">
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wider text-stone-500 font-semibold">Canvases</div>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar">
+            {projects.map(project => {
+              const isActive = project.id === activeProjectId;
+              return (
+                <div key={project.id} className={`group/project flex items-center gap-2 px-3 py-2 ${isActive ? 'bg-primary/10' : 'hover:bg-white/[0.04]'}`}>
+                  <button
+                    onClick={() => { if (!isActive) onSwitch(project.id); setIsOpen(false); }}
+                    disabled={disabled && !isActive}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={disabled && !isActive ? 'Wait for running generations to finish' : project.name}
+                  >
+                    {isActive ? <Check size={12} className="text-primary shrink-0" /> : <span className="w-3 shrink-0" />}
+                    <span className={`truncate ${isActive ? 'text-white font-medium' : 'text-stone-300'}`}>{project.name}</span>
+                  </button>
+                  <div className="flex items-center gap-0.5 opacity-0 group-hover/project:opacity-100 transition-opacity">
+                    <button onClick={() => handleRename(project)} className="p-1 rounded text-stone-500 hover:text-primary hover:bg-primary/10" title="Rename"><Edit3 size={12} /></button>
+                    <button onClick={() => onExport(project.id)} className="p-1 rounded text-stone-500 hover:text-primary hover:bg-primary/10" title={`Export ${ARCHIVE_EXTENSION}`}><Download size={12} /></button>
+                    <button onClick={() => { onDuplicate(project.id); setIsOpen(false); }} disabled={disabled} className="p-1 rounded text-stone-500 hover:text-primary hover:bg-primary/10 disabled:opacity-40" title="Duplicate"><Copy size={12} /></button>
+                    <button onClick={() => handleDelete(project)} disabled={projects.length <= 1 || (disabled && isActive)} className="p-1 rounded text-stone-500 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-30 disabled:cursor-not-allowed" title="Delete"><Trash2 size={12} /></button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="border-t border-white/5 mt-1 pt-1">
+            <button onClick={handleCreate} disabled={disabled} className="flex items-center gap-2 w-full px-3 py-2 text-xs text-stone-300 hover:text-primary hover:bg-primary/10 disabled:opacity-40 disabled:cursor-not-allowed">
+              <Plus size={12} /> New Canvas
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="flex items-center gap-2 w-full px-3 py-2 text-xs text-stone-300 hover:text-primary hover:bg-primary/10 disabled:opacity-40 disabled:cursor-not-allowed">
+              <Upload size={12} /> Import {ARCHIVE_EXTENSION} file
+            </button>
+            <input ref={fileInputRef} type="file" accept={`${ARCHIVE_EXTENSION},.zip`} className="hidden" onChange={handleImportChange} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPicker;
@@ -1,15 +1,16 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Paperclip, Send, X, Loader2, Settings2, Ratio, ThermometerSun, MonitorPlay, Image as ImageIcon, Video, ChevronDown, Palette, Clock, Layers, Film, Copy as CopyIcon, Upload, MousePointer2, Mic, Sparkles } from 'lucide-react';
-import { ModelId, Attachment, MediaType, VideoMode, PromptState } from '../types';
-import { AVAILABLE_MODELS, DEFAULT_MODEL, AVAILABLE_VOICES } from '../constants';
+import { GenerationModelId, Attachment, MediaType, VideoMode, PromptState } from '../types';
+import { DEFAULT_MODEL } from '../constants';
+import { getModels, getEffectiveCapabilities, validateGenerationRequest, VIDEO_MODE_LABELS } from '../services/providerRegistry';
 
 const PROMPTBAR_STORAGE_KEY = 'promptbar-settings';
 
 interface SavedSettings {
   prompt: string;
   mediaType: MediaType;
-  selectedModel: ModelId;
+  selectedModel: GenerationModelId;
   aspectRatio: string;
   creativity: number;
   imageSize: string;
@@ -39,7 +40,7 @@ interface PromptBarProps {
   onSubmit: (
     prompt: string,
     attachments: Attachment[],
-    model: ModelId,
+    model: GenerationModelId,
     aspectRatio: string,
     creativity: number,
     imageSize: string,
@@ -64,14 +65,24 @@ interface PromptBarProps {
   onSelectOnCanvasStart?: () => void; // New callback
   inputRef?: React.RefObject<HTMLTextAreaElement>;
   isExtension?: boolean;
+  persistSettings?: boolean; // Global bar only: remember settings in localStorage (off while prefilled for a remix)
 }
 
-const ASPECT_RATIOS_IMAGE = ["Auto", "1:1", "3:4", "4:3", "9:16", "16:9", "3:2", "2:3", "5:4", "4:5"];
-const ASPECT_RATIOS_VIDEO = ["16:9", "9:16"]; 
-const IMAGE_SIZES = ["1K", "2K", "4K"];
-const VIDEO_RESOLUTIONS = ["720p", "1080p"];
-const VIDEO_DURATIONS = ["4", "6", "8"];
-const IMAGE_COUNTS = [1, 2, 3, 4];
+const VIDEO_MODE_HINTS: Record<VideoMode, string> = {
+  standard: "Generate video from prompt. Optionally add 1 image to animate.",
+  interpolation: "Requires exactly 2 images: Start and End frame.",
+  references: "Use images for style/content.",
+};
+
+// Describe settings a video mode pins to a single value, e.g. " Locked to 16:9 and 8s."
+const getLockedSettingsHint = (aspectRatios: string[], durations?: string[], resolutions?: string[]) => {
+  const locked = [
+    aspectRatios.length === 1 ? aspectRatios[0] : null,
+    durations?.length === 1 ? `${durations[0]}s` : null,
+    resolutions?.length === 1 ? resolutions[0] : null,
+  ].filter(Boolean);
+  return locked.length > 0 ? ` Locked to ${locked.join(', ')}.` : '';
+};
 
 const PromptBar: React.FC<PromptBarProps> = ({
   onSubmit,
@@ -86,14 +97,16 @@ const PromptBar: React.FC<PromptBarProps> = ({
   onAttachmentsChange,
   onSelectOnCanvasStart,
   inputRef,
-  isExtension = false
+  isExtension = false,
+  persistSettings = true
 }) => {
   const isGlobalVariant = variant === 'global';
   const savedSettings = isGlobalVariant ? loadSavedSettings() : null;
+  const shouldPersistSettings = isGlobalVariant && persistSettings;
 
   const [prompt, setPrompt] = useState(initialValues?.prompt || savedSettings?.prompt || '');
   const [mediaType, setMediaType] = useState<MediaType>(initialValues?.mediaType || savedSettings?.mediaType || 'image');
-  const [selectedModel, setSelectedModel] = useState<ModelId>(initialValues?.model || savedSettings?.selectedModel || DEFAULT_MODEL);
+  const [selectedModel, setSelectedModel] = useState<GenerationModelId>(initialValues?.model || savedSettings?.selectedModel || DEFAULT_MODEL);
   const [internalAttachments, setInternalAttachments] = useState<Attachment[]>([]);
   const [showSettings, setShowSettings] = useState(false);
   const [showModeMenu, setShowModeMenu] = useState(false);
@@ -144,7 +157,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
 
   // Persist settings to localStorage for global PromptBar
   useEffect(() => {
-      if (isGlobalVariant) {
+      if (shouldPersistSettings) {
           saveSettings({
               prompt,
               mediaType,
@@ -160,7 +173,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
               improvePromptEnabled
           });
       }
-  }, [prompt, mediaType, selectedModel, aspectRatio, creativity, imageSize, videoResolution, videoDuration, imageCount, selectedVoice, videoMode, improvePromptEnabled, isGlobalVariant]);
+  }, [prompt, mediaType, selectedModel, aspectRatio, creativity, imageSize, videoResolution, videoDuration, imageCount, selectedVoice, videoMode, improvePromptEnabled, shouldPersistSettings]);
 
 
   // Derived state
@@ -185,40 +198,33 @@ const PromptBar: React.FC<PromptBarProps> = ({
       }
   }, [isExtension]);
 
-  // Filter models based on media type
-  const availableModelsForType = AVAILABLE_MODELS.filter(m => m.type === mediaType);
-  const currentAspectRatios = mediaType === 'video' ? ASPECT_RATIOS_VIDEO : ASPECT_RATIOS_IMAGE;
+  // Options come from the selected model's capability descriptor (see providerRegistry)
+  const availableModelsForType = getModels(mediaType);
+  const currentModel = availableModelsForType.find(m => m.id === selectedModel);
+  const capabilities = currentModel ? getEffectiveCapabilities(currentModel, videoMode) : null;
+  const currentAspectRatios = capabilities?.aspectRatios ?? [];
+  const imageCounts = Array.from({ length: capabilities?.maxBatch ?? 1 }, (_, i) => i + 1);
 
   // Ensure selected model matches media type
   useEffect(() => {
-      const valid = availableModelsForType.find(m => m.id === selectedModel);
-      if (!valid) {
+      if (!currentModel) {
           setSelectedModel(availableModelsForType[0]?.id || DEFAULT_MODEL);
       }
-  }, [mediaType, availableModelsForType, selectedModel]);
-
-  // Ensure valid aspect ratio for video
-  useEffect(() => {
-    if (mediaType === 'video' && !ASPECT_RATIOS_VIDEO.includes(aspectRatio)) {
-        setAspectRatio('16:9');
-    }
-  }, [mediaType, aspectRatio]);
+  }, [mediaType, currentModel, selectedModel]);
 
-  // --- Veo Constraints Enforcement ---
+  // --- Capability Constraints Enforcement ---
+  // Snap settings the model (or its active video mode) doesn't offer to the closest allowed value
   useEffect(() => {
-      if (mediaType !== 'video') return;
-
-      // Force 8s for specific modes
-      if (videoMode === 'references' || videoMode === 'interpolation') {
-          if (videoDuration !== '8') setVideoDuration('8');
-      }
-
-      // Reference Images Mode -> Aspect Ratio must be 16:9
-      if (videoMode === 'references') {
-          if (aspectRatio !== '16:9') setAspectRatio('16:9');
+      if (!capabilities || mediaType === 'audio') return;
+      if (currentAspectRatios.length > 0 && !currentAspectRatios.includes(aspectRatio)) setAspectRatio(currentAspectRatios[0]);
+      if (mediaType === 'video') {
+          const { durations, resolutions, videoModes } = capabilities;
+          if (videoModes && !videoModes.includes(videoMode)) setVideoMode(videoModes[0]);
+          if (durations && !durations.includes(videoDuration)) setVideoDuration(durations[durations.length - 1]);
+          if (resolutions && !resolutions.includes(videoResolution)) setVideoResolution(resolutions[0]);
       }
-
-  }, [mediaType, videoResolution, videoDuration, videoMode, aspectRatio]);
+      if (imageCount > (capabilities.maxBatch ?? 1) && mediaType === 'image') setImageCount(capabilities.maxBatch);
+  }, [mediaType, capabilities, videoResolution, videoDuration, videoMode, aspectRatio, imageCount]);
 
 
   const setAttachments = (action: React.SetStateAction<Attachment[]>) => {
@@ -272,18 +278,20 @@ const PromptBar: React.FC<PromptBarProps> = ({
 
     const allAttachments = [...contextAttachments, ...attachments];
 
-    // Validation for Frame Interpolation
-    if (mediaType === 'video' && videoMode === 'interpolation') {
-        if (allAttachments.length !== 2) {
-            setValidationError("Frame Interpolation requires exactly 2 images: Start Frame and End Frame.");
-            return;
-        }
-    }
-
-    // Validation for Reference Images
-    if (mediaType === 'video' && videoMode === 'references') {
-        if (allAttachments.length > 3) {
-            setValidationError("Veo Reference mode supports a maximum of 3 reference images.");
+    // Validate against the model's capabilities (reference counts, modes, sizes)
+    if (!isExtension) {
+        const error = validateGenerationRequest({
+            model: selectedModel,
+            mediaType,
+            videoMode,
+            aspectRatio: mediaType === 'audio' ? undefined : aspectRatio,
+            imageSize: mediaType === 'image' && capabilities?.imageSizes ? imageSize : undefined,
+            resolution: mediaType === 'video' ? videoResolution : undefined,
+            duration: mediaType === 'video' ? videoDuration : undefined,
+            referenceCount: allAttachments.length,
+        });
+        if (error) {
+            setValidationError(error);
             return;
         }
     }
@@ -393,7 +401,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
                     <div className="relative group">
                         <select 
                             value={selectedModel}
-                            onChange={(e) => setSelectedModel(e.target.value as ModelId)}
+                            onChange={(e) => setSelectedModel(e.target.value)}
                             disabled={isGenerating}
                             className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors"
                         >
@@ -414,7 +422,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
                             <Mic size={10} /> Voice Character
                         </label>
                         <div className="grid grid-cols-5 gap-1">
-                            {AVAILABLE_VOICES.map(voice => (
+                            {(capabilities?.voices ?? []).map(voice => (
                                 <button
                                     key={voice.id}
                                     onClick={() => setSelectedVoice(voice.id)}
@@ -441,7 +449,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
                         <select 
                             value={aspectRatio}
                             onChange={(e) => setAspectRatio(e.target.value)}
-                            disabled={isGenerating || (mediaType === 'video' && videoMode === 'references')}
+                            disabled={isGenerating || currentAspectRatios.length < 2}
                             className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             {currentAspectRatios.map(ratio => (
@@ -467,7 +475,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
                               disabled={isGenerating}
                               className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors"
                           >
-                              {IMAGE_COUNTS.map(count => (
+                              {imageCounts.map(count => (
                                   <option key={count} value={count}>
                                       {count} {count === 1 ? 'image' : 'images'}
                                   </option>
@@ -488,10 +496,10 @@ const PromptBar: React.FC<PromptBarProps> = ({
                             <select
                                 value={videoDuration}
                                 onChange={(e) => setVideoDuration(e.target.value)}
-                                disabled={isGenerating || videoMode === 'interpolation' || videoMode === 'references'}
+                                disabled={isGenerating || (capabilities?.durations?.length ?? 0) < 2}
                                 className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                {VIDEO_DURATIONS.map(dur => (
+                                {(capabilities?.durations ?? []).map(dur => (
                                     <option key={dur} value={dur}>
                                         {dur} seconds
                                     </option>
@@ -512,10 +520,10 @@ const PromptBar: React.FC<PromptBarProps> = ({
                           <select
                               value={videoResolution}
                               onChange={(e) => setVideoResolution(e.target.value as '720p' | '1080p')}
-                              disabled={isGenerating}
-                              className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors"
+                              disabled={isGenerating || (capabilities?.resolutions?.length ?? 0) < 2}
+                              className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                              {VIDEO_RESOLUTIONS.map(res => (
+                              {(capabilities?.resolutions ?? []).map(res => (
                                   <option key={res} value={res}>
                                       {res === '720p' ? '720p (Standard)' : '1080p (HD)'}
                                   </option>
@@ -539,22 +547,21 @@ const PromptBar: React.FC<PromptBarProps> = ({
                                 disabled={isGenerating}
                                 className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors"
                             >
-                                <option value="standard">Text/Image to Video</option>
-                                <option value="references">Reference Images</option>
-                                <option value="interpolation">Frame Interpolation</option>
+                                {(currentModel?.capabilities.videoModes ?? ['standard' as VideoMode]).map(mode => (
+                                    <option key={mode} value={mode}>{VIDEO_MODE_LABELS[mode]}</option>
+                                ))}
                             </select>
                             <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none" />
                         </div>
                         <div className="text-[9px] text-gray-500 mt-1 min-h-[14px]">
-                            {videoMode === 'standard' && "Generate video from prompt. Optionally add 1 image to animate."}
-                            {videoMode === 'interpolation' && "Requires exactly 2 images: Start and End frame. Locked to 8s."}
-                            {videoMode === 'references' && "Use images for style/content. Forces 16:9 ratio and 8s duration."}
+                            {VIDEO_MODE_HINTS[videoMode]}
+                            {capabilities && getLockedSettingsHint(currentAspectRatios, capabilities.durations, capabilities.resolutions)}
                         </div>
                      </div>
                 )}
 
-                {/* Image Size (Only for Gemini 3 Pro) */}
-                {selectedModel === ModelId.GEMINI_3_PRO_IMAGE && mediaType === 'image' && (
+                {/* Image Size (Only for models with selectable output sizes) */}
+                {capabilities?.imageSizes && mediaType === 'image' && (
                   <div className="space-y-1">
                       <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider flex items-center gap-1">
                           <MonitorPlay size={10} /> Resolution
@@ -566,7 +573,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
                               disabled={isGenerating}
                               className="w-full appearance-none bg-surface/50 hover:bg-surface text-xs text-gray-300 py-2 pl-3 pr-8 rounded-lg border border-border focus:border-white/20 outline-none cursor-pointer transition-colors"
                           >
-                              {IMAGE_SIZES.map(size => (
+                              {capabilities.imageSizes.map(size => (
                                   <option key={size} value={size}>
                                       {size === '1K' ? '1K (1024px)' : size === '2K' ? '2K (2048px)' : '4K (4096px)'}
                                   </option>
@@ -578,7 +585,7 @@ const PromptBar: React.FC<PromptBarProps> = ({
                 )}
 
                 {/* Creativity (Image and Audio) */}
-                {(mediaType === 'image' || mediaType === 'audio') && (
+                {capabilities?.supportsCreativity && (
                     <div className="space-y-2 col-span-1">
                         <div className="flex justify-between items-center">
                             <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider flex items-center gap-1">
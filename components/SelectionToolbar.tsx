@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalSpaceAround, AlignVerticalSpaceAround, LayoutGrid, Copy, Trash2 } from 'lucide-react';
+import { AlignMode, DistributeAxis } from '../services/arrangeService';
+
+interface SelectionToolbarProps {
+  count: number;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onTidy: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const ALIGN_BUTTONS: { mode: AlignMode; icon: React.ElementType; title: string }[] = [
+  { mode: 'left', icon: AlignStartVertical, title: 'Align left' },
+  { mode: 'centerX', icon: AlignCenterVertical, title: 'Align horizontal centers' },
+  { mode: 'right', icon: AlignEndVertical, title: 'Align right' },
+  { mode: 'top', icon: AlignStartHorizontal, title: 'Align top' },
+  { mode: 'centerY', icon: AlignCenterHorizontal, title: 'Align vertical centers' },
+  { mode: 'bottom', icon: AlignEndHorizontal, title: 'Align bottom' },
+];
+
+const buttonClass = 'p-1.5 rounded-md text-text-secondary hover:bg-primary/10 hover:text-primary transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-text-secondary';
+
+// Floating arrange bar shown while several layers are selected
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ count, onAlign, onDistribute, onTidy, onDuplicate, onDelete }) => {
+  return (
+    <div className="mx-auto mt-2 w-max flex items-center gap-0.5 bg-elevated/80 backdrop-blur-xl border border-border/50 rounded-xl px-1.5 py-1 shadow-xl shadow-black/30 animate-scale-in">
+      <span className="px-2 text-[11px] font-medium text-text-secondary">{count} selected</span>
+      <span className="w-px h-4 bg-border mx-1"></span>
+      {ALIGN_BUTTONS.map(({ mode, icon: Icon, title }) => (
+        <button key={mode} onClick={() => onAlign(mode)} className={buttonClass} title={title}><Icon size={15} /></button>
+      ))}
+      <span className="w-px h-4 bg-border mx-1"></span>
+      <button onClick={() => onDistribute('horizontal')} disabled={count < 3} className={buttonClass} title="Distribute horizontally"><AlignHorizontalSpaceAround size={15} /></button>
+      <button onClick={() => onDistribute('vertical')} disabled={count < 3} className={buttonClass} title="Distribute vertically"><AlignVerticalSpaceAround size={15} /></button>
+      <button onClick={onTidy} className={buttonClass} title="Tidy into grid"><LayoutGrid size={15} /></button>
+      <span className="w-px h-4 bg-border mx-1"></span>
+      <button onClick={onDuplicate} className={buttonClass} title="Duplicate selection"><Copy size={15} /></button>
+      <button onClick={onDelete} className="p-1.5 rounded-md text-red-400/80 hover:bg-red-500/20 hover:text-red-400 transition-colors" title="Delete selection"><Trash2 size={15} /></button>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
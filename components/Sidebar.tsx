@@ -1,24 +1,38 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { LayerData } from '../types';
-import { Layers, Info, ChevronRight, ChevronLeft, Image as ImageIcon, Edit2, Video as VideoIcon, Sliders, Cpu, Loader2, AlertCircle, StickyNote, BoxSelect, Pencil, Type as TypeIcon, Folder, FolderOpen, CornerDownRight, Mic, Trash2, Download, Copy, ChevronDown, Clipboard } from 'lucide-react';
-
-type ExportFormat = 'png' | 'jpg' | 'mp4' | 'wav';
+import { ImageAdjustments, LayerData } from '../types';
+import LineageView from './LineageView';
+import AdjustmentsPanel from './AdjustmentsPanel';
+import LayerThumbnail from './LayerThumbnail';
+import TransformPanel from './TransformPanel';
+import { LayerGeometry } from '../services/transformService';
+import { canRegenerate } from '../services/regenerateService';
+import { canExportSvg } from '../services/annotationService';
+import { Layers, Info, ChevronRight, ChevronLeft, Image as ImageIcon, Edit2, Video as VideoIcon, Sliders, Cpu, Loader2, AlertCircle, StickyNote, BoxSelect, Pencil, Type as TypeIcon, Folder, FolderOpen, CornerDownRight, Mic, Trash2, Download, Copy, ChevronDown, Clipboard, RefreshCw, Shuffle } from 'lucide-react';
+
+type ExportFormat = 'png' | 'jpg' | 'mp4' | 'wav' | 'svg';
 
 interface SidebarProps {
   isOpen: boolean;
   onToggle: () => void;
   layers: LayerData[];
   selectedLayerId: string | null;
-  onSelectLayer: (id: string) => void;
+  selectedLayerIds?: string[]; // Full selection set, for highlighting multi-selections
+  onSelectLayer: (id: string, additive?: boolean) => void;
   onRenameLayer: (id: string, newName: string) => void;
   onLayerDoubleClick: (id: string) => void;
   onDeleteLayer?: (id: string) => void;
   onExportLayer?: (id: string, format: ExportFormat) => void;
   onDuplicateLayer?: (id: string) => void;
+  onRegenerateLayer?: (id: string) => void;
+  onRemixLayer?: (id: string) => void;
+  onAdjustLayer?: (id: string, adjustments: ImageAdjustments) => void;
+  onAdjustLayerEnd?: (id: string) => void; // Records the adjustment in history
+  onTransformLayer?: (id: string, geometry: LayerGeometry) => void;
+  onTransformLayerEnd?: (id: string) => void; // Records the transform in history
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLayerId, onSelectLayer, onRenameLayer, onLayerDoubleClick, onDeleteLayer, onExportLayer, onDuplicateLayer }) => {
+const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLayerId, selectedLayerIds = [], onSelectLayer, onRenameLayer, onLayerDoubleClick, onDeleteLayer, onExportLayer, onDuplicateLayer, onRegenerateLayer, onRemixLayer, onAdjustLayer, onAdjustLayerEnd, onTransformLayer, onTransformLayerEnd }) => {
   const [activeTab, setActiveTab] = useState<'layers' | 'properties'>('layers');
   const [editingName, setEditingName] = useState<string>('');
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
@@ -40,6 +54,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
   const getExportFormats = (layer: LayerData): ExportFormat[] => {
     if (layer.type === 'video') return ['mp4'];
     if (layer.type === 'audio') return ['wav'];
+    if (canExportSvg(layer)) return ['png', 'jpg', 'svg'];
     if (layer.type === 'image' || layer.type === 'sticky' || layer.type === 'text' || layer.type === 'drawing') return ['png', 'jpg'];
     return [];
   };
@@ -66,6 +81,20 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
     }
   };
 
+  // Expand the groups containing the selected layer so it is visible in the tree
+  useEffect(() => {
+    if (!selectedLayerId) return;
+    const ancestors: string[] = [];
+    let parentId = layers.find(l => l.id === selectedLayerId)?.parentId;
+    while (parentId && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      parentId = layers.find(l => l.id === parentId)?.parentId;
+    }
+    if (ancestors.length > 0 && ancestors.some(id => !expandedGroups.has(id))) {
+      setExpandedGroups(prev => new Set([...prev, ...ancestors]));
+    }
+  }, [selectedLayerId]);
+
   const toggleGroup = (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
       setExpandedGroups(prev => {
@@ -94,21 +123,20 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
       }
   };
 
-  const canDownload = (layer: LayerData) => layer.type === 'image' || layer.type === 'video' || layer.type === 'audio';
-  const canDuplicate = (layer: LayerData) => layer.type !== 'group';
+  const canDownload = (layer: LayerData) => layer.type === 'image' || layer.type === 'video' || layer.type === 'audio' || layer.type === 'drawing';
 
   const renderLayerItem = (layer: LayerData, depth: number = 0) => {
       const isGroup = layer.type === 'group';
       const isExpanded = expandedGroups.has(layer.id);
       const children = layers.filter(l => l.parentId === layer.id).reverse();
       const isHovered = hoveredLayerId === layer.id;
-      const isSelected = selectedLayerId === layer.id;
-      const hasThumbnail = layer.thumbnail || (layer.src && (layer.type === 'image' || layer.type === 'video'));
+      const isSelected = selectedLayerId === layer.id || selectedLayerIds.includes(layer.id);
+      const hasThumbnail = layer.thumbnail || (layer.src && (layer.type === 'image' || layer.type === 'video')) || (layer.type === 'drawing' && layer.annotations?.length);
 
       return (
           <React.Fragment key={layer.id}>
             <div
-                onClick={() => onSelectLayer(layer.id)}
+                onClick={(e) => onSelectLayer(layer.id, e.shiftKey || e.metaKey || e.ctrlKey)}
                 onDoubleClick={(e) => { e.stopPropagation(); onLayerDoubleClick(layer.id); }}
                 onMouseEnter={() => setHoveredLayerId(layer.id)}
                 onMouseLeave={() => setHoveredLayerId(null)}
@@ -118,7 +146,6 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                       ? 'bg-primary/15 ring-1 ring-primary/40'
                       : 'hover:bg-white/[0.04]'}
                 `}
-                style={{ marginLeft: `${depth * 14}px` }}
             >
                 {isGroup && (
                     <button onClick={(e) => toggleGroup(layer.id, e)} className="p-1 hover:bg-white/10 rounded-md text-stone-500 hover:text-stone-300 transition-colors">
@@ -142,11 +169,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                             <AlertCircle size={12} className="text-red-500" />
                         </div>
                     ) : hasThumbnail ? (
-                        <img
-                            src={layer.thumbnail || layer.src}
-                            alt=""
-                            className="w-full h-full object-cover"
-                        />
+                        <LayerThumbnail layer={layer} className="w-full h-full object-cover" />
                     ) : (
                         <div className="w-full h-full flex items-center justify-center">
                             {renderLayerIcon(layer.type)}
@@ -162,7 +185,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                     `}>
                         {layer.title || "Untitled"}
                     </span>
-                    {layer.type !== 'group' && (
+                    {isGroup ? (
+                        <span className="text-[10px] text-stone-600">{children.length} {children.length === 1 ? 'layer' : 'layers'}</span>
+                    ) : (
                         <span className="text-[10px] text-stone-600 uppercase tracking-wide">{layer.type}</span>
                     )}
                 </div>
@@ -220,8 +245,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
       );
   };
 
-  // Get root layers (those without parentId), reversed for "Top layer first" display order
-  const rootLayers = layers.filter(l => !l.parentId).slice().reverse();
+  // Get root layers (those without a live parent), reversed for "Top layer first" display order
+  const rootLayers = layers.filter(l => !l.parentId || !layers.some(p => p.id === l.parentId)).slice().reverse();
 
   return (
     <>
@@ -258,13 +283,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                                 {/* Large Preview */}
                                 {(selectedLayer.thumbnail || selectedLayer.src) && (selectedLayer.type === 'image' || selectedLayer.type === 'video') && (
                                     <div className="aspect-video w-full rounded-xl overflow-hidden bg-[#0d0c0a] border border-white/[0.06]">
-                                        <img
-                                            src={selectedLayer.thumbnail || selectedLayer.src}
-                                            alt=""
-                                            className="w-full h-full object-contain"
-                                        />
+                                        <LayerThumbnail layer={selectedLayer} className="w-full h-full object-contain" />
                                     </div>
                                 )}
+                                {selectedLayer.fullResEvicted && (
+                                    <div className="text-[11px] text-amber-300/80">Full resolution was removed to save space. Only the thumbnail remains.</div>
+                                )}
 
                                 {/* Name Input */}
                                 <div className="relative group">
@@ -306,7 +330,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
 
                                 {/* Other Actions */}
                                 <div className="flex gap-2">
-                                    {canDuplicate(selectedLayer) && onDuplicateLayer && (
+                                    {onDuplicateLayer && (
                                         <button
                                             onClick={() => onDuplicateLayer(selectedLayer.id)}
                                             className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg bg-white/[0.04] hover:bg-white/[0.08] text-stone-300 text-xs font-medium transition-all"
@@ -352,6 +376,24 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                                 </div>
                             </div>
 
+                            {/* Position, size, rotation and skew (groups move with their contents, so not here) */}
+                            {onTransformLayer && selectedLayer.type !== 'group' && !layerLoading(selectedLayer) && (
+                                <TransformPanel
+                                    layer={selectedLayer}
+                                    onChange={(geometry) => onTransformLayer(selectedLayer.id, geometry)}
+                                    onCommit={() => onTransformLayerEnd?.(selectedLayer.id)}
+                                />
+                            )}
+
+                            {/* Non-destructive adjustments for images */}
+                            {selectedLayer.type === 'image' && onAdjustLayer && !layerLoading(selectedLayer) && (
+                                <AdjustmentsPanel
+                                    adjustments={selectedLayer.adjustments ?? {}}
+                                    onChange={(adjustments) => onAdjustLayer(selectedLayer.id, adjustments)}
+                                    onCommit={() => onAdjustLayerEnd?.(selectedLayer.id)}
+                                />
+                            )}
+
                             {/* Content for sticky/text */}
                             {(selectedLayer.type === 'sticky' || selectedLayer.type === 'text') && (
                                 <div className="space-y-2.5">
@@ -392,6 +434,32 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                                 </div>
                             )}
 
+                            {/* Re-run from the stored request */}
+                            {canRegenerate(selectedLayer) && (onRegenerateLayer || onRemixLayer) && (
+                                <div className="flex gap-2">
+                                    {onRegenerateLayer && (
+                                        <button
+                                            onClick={() => onRegenerateLayer(selectedLayer.id)}
+                                            className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary text-xs font-medium transition-all"
+                                            title="Generate a new variation with exactly the same prompt, references and settings"
+                                        >
+                                            <RefreshCw size={14} />
+                                            Regenerate
+                                        </button>
+                                    )}
+                                    {onRemixLayer && (
+                                        <button
+                                            onClick={() => onRemixLayer(selectedLayer.id)}
+                                            className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg bg-white/[0.04] hover:bg-white/[0.08] text-stone-300 text-xs font-medium transition-all"
+                                            title="Open the prompt bar prefilled with these settings"
+                                        >
+                                            <Shuffle size={14} />
+                                            Remix
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+
                             {/* User Prompt */}
                             {selectedLayer.promptUsed && (
                                 <div className="space-y-2">
@@ -433,13 +501,16 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle, layers, selectedLay
                                     </div>
                                 </div>
                             )}
+
+                            {/* Lineage: where this layer came from and what was made from it */}
+                            <LineageView layers={layers} layerId={selectedLayer.id} onSelectLayer={onSelectLayer} onFocusLayer={onLayerDoubleClick} />
                         </>
                     ) : (
                         <div className="flex flex-col items-center justify-center py-16 text-center">
                             <div className="w-14 h-14 rounded-2xl bg-white/[0.03] flex items-center justify-center mb-4">
                                 <Info size={24} className="text-stone-600" />
                             </div>
-                            <p className="text-sm text-stone-500">Select a layer to view properties</p>
+                            <p className="text-sm text-stone-500">{selectedLayerIds.length > 1 ? `${selectedLayerIds.length} layers selected` : 'Select a layer to view properties'}</p>
                         </div>
                     )}
                 </div>
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ProjectMeta } from '../types';
+import { HardDrive, X, Loader2, ShieldCheck, Shield, Recycle, Minimize2, Archive, AlertTriangle } from 'lucide-react';
+import { StorageReport, StorageCategory, requestPersistentStorage } from '../services/storageQuotaService';
+import { formatBytes } from '../services/assetGarbageCollector';
+
+interface StoragePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: ProjectMeta[];
+  activeProjectId: string | null;
+  loadReport: () => Promise<StorageReport>;
+  onCollectGarbage: () => Promise<string>;
+  onEvictFullRes: (projectId: string, olderThan: number) => Promise<string>;
+  onArchiveAndEvict: (projectId: string, olderThan: number) => Promise<string>;
+  quotaExceeded?: boolean; // A save has already failed for lack of space
+  disabled?: boolean; // Eviction rewrites the open canvas, so it waits for generations
+}
+
+const CATEGORY_LABELS: Record<StorageCategory, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  thumbnail: 'Thumbnails',
+  sticky: 'Stickies',
+  group: 'Groups',
+  text: 'Text',
+  drawing: 'Drawings',
+};
+
+const AGE_OPTIONS = [
+  { label: 'Any age', days: 0 },
+  { label: 'Older than 7 days', days: 7 },
+  { label: 'Older than 30 days', days: 30 },
+  { label: 'Older than 90 days', days: 90 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ isOpen, onClose, projects, activeProjectId, loadReport, onCollectGarbage, onEvictFullRes, onArchiveAndEvict, quotaExceeded = false, disabled = false }) => {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [ageDays, setAgeDays] = useState(30);
+
+  const refresh = useCallback(async () => {
+    try {
+      setReport(await loadReport());
+    } catch (error) {
+      console.error('Failed to build storage report:', error);
+    }
+  }, [loadReport]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      refresh();
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const runAction = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      setMessage(await action());
+      await refresh();
+    } catch (error: any) {
+      console.error('Storage action failed:', error);
+      setMessage(error.message || 'Storage action failed.');
+    }
+    setBusy(false);
+  };
+
+  const olderThan = ageDays > 0 ? Date.now() - ageDays * DAY_MS : Infinity;
+  const quota = report?.quota;
+  const usageRatio = quota ? quota.usage / quota.quota : 0;
+  const barColor = quota?.level === 'critical' ? 'bg-red-500' : quota?.level === 'warning' ? 'bg-amber-500' : 'bg-primary';
+  const categories = report ? (Object.entries(report.byCategory) as [StorageCategory, number][]).sort((a, b) => b[1] - a[1]) : [];
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div className="w-[520px] max-w-[92vw] max-h-[85vh] flex flex-col bg-elevated border border-border/50 rounded-2xl shadow-2xl shadow-black/50 animate-scale-in" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-white/5">
+          <HardDrive size={18} className="text-primary" />
+          <h2 className="flex-1 text-sm font-semibold text-white">Storage</h2>
+          {busy && <Loader2 size={14} className="text-primary animate-spin" />}
+          <button onClick={onClose} className="p-1 rounded text-stone-500 hover:text-white hover:bg-white/10"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-5 py-4 space-y-5 text-xs">
+          {!report ? (
+            <div className="flex justify-center py-8"><Loader2 size={18} className="text-primary animate-spin" /></div>
+          ) : (
+            <>
+              {/* Quota */}
+              <section className="space-y-2">
+                {(quotaExceeded || (quota && quota.level !== 'ok')) && (
+                  <div className={`flex items-start gap-2 p-2.5 rounded-lg border ${quotaExceeded || quota?.level === 'critical' ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-amber-500/10 border-amber-500/30 text-amber-200'}`}>
+                    <AlertTriangle size={14} className="shrink-0 mt-px" />
+                    <span>{quotaExceeded ? 'The last save failed because browser storage is full. Free up space below or recent changes may be lost.' : 'Browser storage is almost full. Free up space before the next save fails.'}</span>
+                  </div>
+                )}
+                {quota ? (
+                  <>
+                    <div className="flex justify-between text-stone-300">
+                      <span>{formatBytes(quota.usage)} used</span>
+                      <span className="text-stone-500">of {formatBytes(quota.quota)} ({Math.round(usageRatio * 100)}%)</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                      <div className={`h-full ${barColor}`} style={{ width: `${Math.min(100, usageRatio * 100)}%` }} />
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-stone-500">This browser does not report a storage quota.</div>
+                )}
+                <div className="flex items-center justify-between pt-1">
+                  <span className="flex items-center gap-1.5 text-stone-400">
+                    {report.persisted ? <ShieldCheck size={13} className="text-green-400" /> : <Shield size={13} />}
+                    {report.persisted ? 'Persistent storage granted' : 'Storage may be cleared by the browser under pressure'}
+                  </span>
+                  {!report.persisted && (
+                    <button
+                      onClick={() => runAction(async () => (await requestPersistentStorage()) ? 'Persistent storage granted.' : 'The browser declined persistent storage.')}
+                      disabled={busy}
+                      className="px-2 py-1 rounded-md text-primary hover:bg-primary/10 disabled:opacity-40"
+                    >
+                      Request
+                    </button>
+                  )}
+                </div>
+              </section>
+
+              {/* By type */}
+              <section className="space-y-1.5">
+                <div className="text-[10px] uppercase tracking-wider text-stone-500 font-semibold">By type</div>
+                {categories.length === 0 && <div className="text-stone-500">No stored media yet.</div>}
+                {categories.map(([category, bytes]) => (
+                  <div key={category} className="flex items-center gap-2">
+                    <span className="w-20 text-stone-300">{CATEGORY_LABELS[category]}</span>
+                    <div className="flex-1 h-1 rounded-full bg-white/5 overflow-hidden">
+                      <div className="h-full bg-primary/70" style={{ width: `${report.totalAssetBytes ? (bytes / report.totalAssetBytes) * 100 : 0}%` }} />
+                    </div>
+                    <span className="w-16 text-right text-stone-400 font-mono">{formatBytes(bytes)}</span>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between pt-1">
+                  <span className="text-stone-400">Unused assets: <span className="font-mono">{formatBytes(report.unreferencedBytes)}</span></span>
+                  <button onClick={() => runAction(onCollectGarbage)} disabled={busy} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-primary hover:bg-primary/10 disabled:opacity-40">
+                    <Recycle size={12} /> Clean up
+                  </button>
+                </div>
+              </section>
+
+              {/* Per project */}
+              <section className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] uppercase tracking-wider text-stone-500 font-semibold">By canvas</span>
+                  <select value={ageDays} onChange={e => setAgeDays(Number(e.target.value))} className="bg-surface border border-border/50 rounded-md px-1.5 py-0.5 text-[11px] text-stone-300 outline-none" title="Which layers the space-saving actions apply to">
+                    {AGE_OPTIONS.map(option => <option key={option.days} value={option.days}>{option.label}</option>)}
+                  </select>
+                </div>
+                {report.projects.map(usage => {
+                  const project = projects.find(p => p.id === usage.projectId);
+                  if (!project) return null;
+                  const isLocked = disabled && usage.projectId === activeProjectId;
+                  return (
+                    <div key={usage.projectId} className="flex items-center gap-2 py-1.5">
+                      <div className="flex-1 min-w-0">
+                        <div className={`truncate ${usage.projectId === activeProjectId ? 'text-white font-medium' : 'text-stone-300'}`}>{project.name}</div>
+                        <div className="text-[10px] text-stone-500">{usage.assetCount} assets · {formatBytes(usage.bytes)}</div>
+                      </div>
+                      <button
+                        onClick={() => runAction(() => onEvictFullRes(usage.projectId, olderThan))}
+                        disabled={busy || isLocked}
+                        className="p-1.5 rounded text-stone-500 hover:text-primary hover:bg-primary/10 disabled:opacity-30"
+                        title="Keep thumbnails only: drop full-resolution images"
+                      >
+                        <Minimize2 size={13} />
+                      </button>
+                      <button
+                        onClick={() => runAction(() => onArchiveAndEvict(usage.projectId, olderThan))}
+                        disabled={busy || isLocked}
+                        className="p-1.5 rounded text-stone-500 hover:text-primary hover:bg-primary/10 disabled:opacity-30"
+                        title="Export to an archive file, then drop full-resolution images"
+                      >
+                        <Archive size={13} />
+                      </button>
+                    </div>
+                  );
+                })}
+                <div className="text-[10px] text-stone-600">Assets shared between duplicated canvases count towards each of them.</div>
+              </section>
+            </>
+          )}
+        </div>
+
+        {message && <div className="px-5 py-3 border-t border-white/5 text-xs text-stone-300">{message}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default StoragePanel;
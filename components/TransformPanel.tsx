@@ -0,0 +1,81 @@
+import React from 'react';
+import { LayerData } from '../types';
+import { RotateCcw, Move3d } from 'lucide-react';
+import { hasTransform, LayerGeometry, MAX_SKEW, normalizeRotation } from '../services/transformService';
+
+interface TransformPanelProps {
+  layer: LayerData;
+  onChange: (geometry: LayerGeometry) => void; // Live, while a field is edited
+  onCommit: () => void; // Field left; records one undo step
+}
+
+type Field = keyof LayerGeometry;
+
+const FIELDS: { key: Field; label: string; unit?: string }[] = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'W' },
+  { key: 'height', label: 'H' },
+  { key: 'rotation', label: 'Rotate', unit: '°' },
+  { key: 'skewX', label: 'Skew X', unit: '°' },
+  { key: 'skewY', label: 'Skew Y', unit: '°' },
+];
+
+const MIN_SIZE = 10;
+
+// Keeps typed values in range: sizes stay positive, angles wrap, skew stays where tan() is usable
+const clampField = (key: Field, value: number): number => {
+  if (key === 'width' || key === 'height') return Math.max(MIN_SIZE, value);
+  if (key === 'rotation') return normalizeRotation(value);
+  if (key === 'skewX' || key === 'skewY') return Math.max(-MAX_SKEW, Math.min(MAX_SKEW, value));
+  return value;
+};
+
+// Numeric position, size, rotation and skew of the selected layer
+const TransformPanel: React.FC<TransformPanelProps> = ({ layer, onChange, onCommit }) => {
+  const setField = (key: Field, raw: string) => {
+    const value = parseFloat(raw);
+    if (Number.isNaN(value)) return;
+    const next = clampField(key, value);
+    // Angles at zero are dropped so untransformed layers stay plain
+    onChange({ [key]: key === 'rotation' || key === 'skewX' || key === 'skewY' ? next || undefined : next });
+  };
+
+  return (
+    <div className="space-y-2.5">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-semibold text-stone-500 uppercase tracking-wider flex items-center gap-1.5">
+          <Move3d size={11} className="text-primary" />
+          Transform
+        </span>
+        <button
+          onClick={() => { onChange({ rotation: undefined, skewX: undefined, skewY: undefined }); onCommit(); }}
+          disabled={!hasTransform(layer)}
+          className="p-1.5 hover:bg-white/5 rounded-md transition-colors text-stone-600 hover:text-stone-400 disabled:opacity-40 disabled:pointer-events-none"
+          title="Clear rotation and skew"
+        >
+          <RotateCcw size={12} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(({ key, label, unit }) => (
+          <label key={key} className={`bg-[#0d0c0a] px-2.5 py-1.5 rounded-lg border border-white/[0.04] flex items-center gap-2 ${key === 'rotation' ? 'col-span-2' : ''}`}>
+            <span className="text-[10px] text-stone-600 w-10 shrink-0">{label}</span>
+            <input
+              type="number"
+              step={key === 'rotation' || key === 'skewX' || key === 'skewY' ? 1 : 10}
+              value={Math.round((layer[key] ?? 0) * 10) / 10}
+              onChange={(e) => setField(key, e.target.value)}
+              onBlur={onCommit}
+              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className="flex-1 min-w-0 bg-transparent text-xs text-stone-200 font-mono outline-none"
+            />
+            {unit && <span className="text-[10px] text-stone-600">{unit}</span>}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TransformPanel;
@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { ProjectMeta, UsageEntry } from '../types';
+import { Receipt, X, Loader2, AlertTriangle, ChevronRight, RotateCcw, Trash2 } from 'lucide-react';
+import { getModels, getModel } from '../services/providerRegistry';
+import {
+  UsageSettings, UsageTotals, BudgetPeriod, ModelPrice, DEFAULT_PRICES,
+  loadUsage, clearUsage, getUsageSettings, saveUsageSettings, summarizeUsage, getBudgetStatus, formatCost
+} from '../services/usageLedger';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: ProjectMeta[];
+  activeProjectId: string | null;
+  onSettingsChange?: () => void; // Budget or prices changed
+}
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'today', month: 'this month', all: 'in total' };
+const MAX_DAYS_SHOWN = 14;
+
+const formatTokens = (count: number) => count >= 1_000_000 ? `${(count / 1_000_000).toFixed(1)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+const describeTotals = (totals: UsageTotals) => [
+  `${totals.count} generation${totals.count === 1 ? '' : 's'}`,
+  totals.inputTokens + totals.outputTokens > 0 ? `${formatTokens(totals.inputTokens + totals.outputTokens)} tokens` : null,
+  totals.videoSeconds > 0 ? `${totals.videoSeconds}s video` : null,
+].filter(Boolean).join(' · ');
+
+// Editable price fields, in display order
+const PRICE_FIELDS: { key: keyof Omit<ModelPrice, 'perImage'>; label: string }[] = [
+  { key: 'inputPerMillionTokens', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillionTokens', label: 'Output / 1M tokens' },
+  { key: 'perVideoSecond', label: 'Per video second' },
+];
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose, projects, activeProjectId, onSettingsChange }) => {
+  const [entries, setEntries] = useState<UsageEntry[] | null>(null);
+  const [settings, setSettings] = useState<UsageSettings>(getUsageSettings);
+  const [scope, setScope] = useState<'canvas' | 'all'>('canvas');
+  const [showPrices, setShowPrices] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSettings(getUsageSettings());
+    loadUsage().then(loaded => setEntries([...loaded])).catch(error => {
+      console.error('Failed to load usage ledger:', error);
+      setEntries([]);
+    });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateSettings = (next: UsageSettings) => {
+    setSettings(next);
+    saveUsageSettings(next);
+    onSettingsChange?.();
+  };
+
+  const updatePrice = (modelId: string, change: Partial<ModelPrice>) => {
+    updateSettings({ ...settings, prices: { ...settings.prices, [modelId]: { ...settings.prices[modelId], ...change } } });
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear the usage history for every canvas? Budget spend starts again from zero.')) return;
+    await clearUsage();
+    setEntries([]);
+    onSettingsChange?.();
+  };
+
+  const summary = entries ? summarizeUsage(entries, settings.prices, scope === 'canvas' ? activeProjectId || undefined : undefined) : null;
+  const budget = getBudgetStatus(settings);
+  const budgetRatio = budget.cap ? budget.spent / budget.cap : 0;
+  const projectName = (id: string) => projects.find(p => p.id === id)?.name || 'Deleted canvas';
+  const parsePrice = (value: string) => value === '' ? undefined : Math.max(0, Number(value));
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div className="w-[520px] max-w-[92vw] max-h-[85vh] flex flex-col bg-elevated border border-border/50 rounded-2xl shadow-2xl shadow-black/50 animate-scale-in" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-white/5">
+          <Receipt size={18} className="text-primary" />
+          <h2 className="flex-1 text-sm font-semibold text-white">Usage & Cost</h2>
+          <button onClick={onClose} className="p-1 rounded text-stone-500 hover:text-white hover:bg-white/10"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-5 py-4 space-y-5 text-xs">
+          {/* Budget */}
+          <section className="space-y-2">
+            {budget.exceeded && (
+              <div className="flex items-start gap-2 p-2.5 rounded-lg border bg-red-500/10 border-red-500/30 text-red-300">
+                <AlertTriangle size={14} className="shrink-0 mt-px" />
+                <span>Budget reached: {formatCost(budget.spent)} spent {PERIOD_LABELS[budget.period]}. New generations are blocked until you raise the cap or the period ends.</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <span className="text-stone-300 flex-1">Budget cap</span>
+              <span className="text-stone-500">$</span>
+              <input
+                type="number" min={0} step={1} placeholder="None"
+                value={settings.budgetCap ?? ''}
+                onChange={e => updateSettings({ ...settings, budgetCap: parsePrice(e.target.value) })}
+                className="w-20 bg-surface border border-border/50 rounded-md px-1.5 py-0.5 text-[11px] text-stone-300 outline-none font-mono"
+              />
+              <select value={settings.budgetPeriod} onChange={e => updateSettings({ ...settings, budgetPeriod: e.target.value as BudgetPeriod })} className="bg-surface border border-border/50 rounded-md px-1.5 py-0.5 text-[11px] text-stone-300 outline-none">
+                <option value="day">per day</option>
+                <option value="month">per month</option>
+                <option value="all">in total</option>
+              </select>
+            </div>
+            {budget.cap !== undefined && (
+              <>
+                <div className="flex justify-between text-stone-400">
+                  <span>{formatCost(budget.spent)} spent {PERIOD_LABELS[budget.period]}</span>
+                  <span className="text-stone-500">of {formatCost(budget.cap)}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                  <div className={`h-full ${budget.exceeded ? 'bg-red-500' : budgetRatio >= 0.8 ? 'bg-amber-500' : 'bg-primary'}`} style={{ width: `${Math.min(100, budgetRatio * 100)}%` }} />
+                </div>
+              </>
+            )}
+          </section>
+
+          {!summary ? (
+            <div className="flex justify-center py-8"><Loader2 size={18} className="text-primary animate-spin" /></div>
+          ) : (
+            <>
+              {/* Totals */}
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex bg-surface rounded-md p-0.5">
+                    {(['canvas', 'all'] as const).map(option => (
+                      <button key={option} onClick={() => setScope(option)} className={`px-2 py-0.5 rounded text-[11px] ${scope === option ? 'bg-primary/15 text-primary' : 'text-stone-400 hover:text-stone-200'}`}>
+                        {option === 'canvas' ? 'This canvas' : 'All canvases'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-lg font-semibold text-white font-mono">{formatCost(summary.total.cost)}</span>
+                </div>
+                <div className="text-stone-500">{summary.total.count > 0 ? describeTotals(summary.total) : 'Nothing generated yet.'}</div>
+              </section>
+
+              {summary.byModel.length > 0 && (
+                <section className="space-y-1.5">
+                  <div className="text-[10px] uppercase tracking-wider text-stone-500 font-semibold">By model</div>
+                  {summary.byModel.map(([modelId, totals]) => (
+                    <div key={modelId} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-stone-300">{getModel(modelId)?.name || modelId}</div>
+                        <div className="text-[10px] text-stone-500">{describeTotals(totals)}</div>
+                      </div>
+                      <span className="text-stone-300 font-mono">{formatCost(totals.cost)}</span>
+                    </div>
+                  ))}
+                </section>
+              )}
+
+              {summary.byDay.length > 0 && (
+                <section className="space-y-1.5">
+                  <div className="text-[10px] uppercase tracking-wider text-stone-500 font-semibold">By day</div>
+                  {summary.byDay.slice(0, MAX_DAYS_SHOWN).map(([day, totals]) => (
+                    <div key={day} className="flex items-center gap-2">
+                      <span className="w-24 text-stone-300 font-mono">{day}</span>
+                      <span className="flex-1 text-[10px] text-stone-500 truncate">{describeTotals(totals)}</span>
+                      <span className="text-stone-300 font-mono">{formatCost(totals.cost)}</span>
+                    </div>
+                  ))}
+                </section>
+              )}
+
+              {scope === 'all' && summary.byProject.length > 0 && (
+                <section className="space-y-1.5">
+                  <div className="text-[10px] uppercase tracking-wider text-stone-500 font-semibold">By canvas</div>
+                  {summary.byProject.map(([projectId, totals]) => (
+                    <div key={projectId} className="flex items-center gap-2">
+                      <span className={`flex-1 truncate ${projectId === activeProjectId ? 'text-white font-medium' : 'text-stone-300'}`}>{projectName(projectId)}</span>
+                      <span className="text-[10px] text-stone-500">{totals.count}</span>
+                      <span className="w-16 text-right text-stone-300 font-mono">{formatCost(totals.cost)}</span>
+                    </div>
+                  ))}
+                </section>
+              )}
+            </>
+          )}
+
+          {/* Price table */}
+          <section className="space-y-2">
+            <button onClick={() => setShowPrices(!showPrices)} className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-stone-500 font-semibold hover:text-stone-300">
+              <ChevronRight size={12} className={`transition-transform ${showPrices ? 'rotate-90' : ''}`} />
+              Prices (USD)
+            </button>
+            {showPrices && (
+              <div className="space-y-3">
+                {getModels().map(model => {
+                  const price = settings.prices[model.id] || {};
+                  const imageSizes = model.type === 'image' ? model.capabilities.imageSizes || ['1K'] : [];
+                  const fields = PRICE_FIELDS.filter(field => model.type === 'video' ? field.key === 'perVideoSecond' : field.key !== 'perVideoSecond');
+                  return (
+                    <div key={model.id} className="space-y-1">
+                      <div className="text-stone-300">{model.name}</div>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {fields.map(field => (
+                          <label key={field.key} className="flex items-center gap-1.5 text-[10px] text-stone-500">
+                            {field.label}
+                            <input
+                              type="number" min={0} step={0.01}
+                              value={price[field.key] ?? ''}
+                              onChange={e => updatePrice(model.id, { [field.key]: parsePrice(e.target.value) })}
+                              className="w-16 bg-surface border border-border/50 rounded-md px-1.5 py-0.5 text-[11px] text-stone-300 outline-none font-mono"
+                            />
+                          </label>
+                        ))}
+                        {imageSizes.map(size => (
+                          <label key={size} className="flex items-center gap-1.5 text-[10px] text-stone-500" title="Used when the response reports no token counts">
+                            {size} image
+                            <input
+                              type="number" min={0} step={0.001}
+                              value={price.perImage?.[size] ?? ''}
+                              onChange={e => updatePrice(model.id, { perImage: { ...price.perImage, [size]: parsePrice(e.target.value) } })}
+                              className="w-16 bg-surface border border-border/50 rounded-md px-1.5 py-0.5 text-[11px] text-stone-300 outline-none font-mono"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+                <button onClick={() => updateSettings({ ...settings, prices: DEFAULT_PRICES })} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-primary hover:bg-primary/10">
+                  <RotateCcw size={12} /> Reset to list prices
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-3 border-t border-white/5 text-[10px] text-stone-600">
+          <span>Estimates from reported usage. Titles and prompt enhancement aren't counted.</span>
+          <button onClick={handleClear} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-stone-500 hover:text-red-400 hover:bg-red-500/10">
+            <Trash2 size={12} /> Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
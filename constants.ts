@@ -1,13 +1,12 @@
 
 import { ModelId } from './types';
 
-export const AVAILABLE_MODELS = [
-  { id: ModelId.GEMINI_2_5_FLASH_IMAGE, name: 'NanoBanana', type: 'image', description: 'Fast, high quality generation' },
-  { id: ModelId.GEMINI_3_PRO_IMAGE, name: 'Nanobanana Pro', type: 'image', description: 'Highest fidelity generation' },
-  { id: ModelId.VEO_3_1_FAST, name: 'Veo Fast', type: 'video', description: 'Fast video generation' },
-  { id: ModelId.VEO_3_1_HIGH, name: 'Veo', type: 'video', description: 'High quality video generation' },
-  { id: ModelId.GEMINI_2_5_FLASH_TTS, name: 'Gemini TTS', type: 'audio', description: 'Text-to-Speech' },
-];
+// Option lists shared by the Gemini model descriptors (services/geminiProvider.ts)
+export const ASPECT_RATIOS_IMAGE = ["Auto", "1:1", "3:4", "4:3", "9:16", "16:9", "3:2", "2:3", "5:4", "4:5"];
+export const ASPECT_RATIOS_VIDEO = ["16:9", "9:16"];
+export const IMAGE_SIZES = ["1K", "2K", "4K"];
+export const VIDEO_RESOLUTIONS: ('720p' | '1080p')[] = ["720p", "1080p"];
+export const VIDEO_DURATIONS = ["4", "6", "8"];
 
 export const AVAILABLE_VOICES = [
   { id: 'Puck', name: 'Puck (M)', gender: 'Male' },
@@ -0,0 +1,166 @@
+/**
+ * Adjustments - Non-destructive exposure, colour and detail for image layers
+ *
+ * The layer keeps its original pixels and an ImageAdjustments record. On the
+ * canvas the record becomes a CSS filter chain (plus a small inline SVG filter
+ * for temperature and sharpening, which CSS has no function for). Exports and
+ * references bake the same chain into real pixels here, together with the
+ * layer's crop.
+ *
+ * Order: crop, exposure, contrast, saturation, hue, grayscale, temperature,
+ * sharpen, blur. Both paths apply it in that order so what is sent matches
+ * what is shown.
+ */
+
+import { CropRect, ImageAdjustments, LayerData } from '../types';
+import { FULL_FRAME, hasCrop } from './cropService';
+
+const MAX_BLUR_RATIO = 0.02; // Blur radius at 100, of the image's longer side
+const MAX_TEMPERATURE_SHIFT = 0.2; // Red/blue channel gain at +/-100
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for adjustments'));
+  img.src = src;
+});
+
+/**
+ * Whether any adjustment would change the image
+ */
+export function hasAdjustments(adjustments?: ImageAdjustments): boolean {
+  return !!adjustments && Object.values(adjustments).some(value => !!value);
+}
+
+/**
+ * Whether an image layer shows different pixels than its source, so they need baking
+ */
+export const isAdjustedImage = (layer: Pick<LayerData, 'type' | 'adjustments' | 'crop'>): boolean =>
+  layer.type === 'image' && (hasAdjustments(layer.adjustments) || hasCrop(layer.crop));
+
+// The part CSS and canvas filters can do natively, up to and including grayscale
+const getColorFilter = (adjustments: ImageAdjustments): string => [
+  adjustments.exposure ? `brightness(${Math.pow(2, adjustments.exposure)})` : '',
+  adjustments.contrast ? `contrast(${1 + adjustments.contrast / 100})` : '',
+  adjustments.saturation ? `saturate(${1 + adjustments.saturation / 100})` : '',
+  adjustments.hue ? `hue-rotate(${adjustments.hue}deg)` : '',
+  adjustments.grayscale ? `grayscale(${adjustments.grayscale / 100})` : '',
+].filter(Boolean).join(' ');
+
+export const needsPixelFilter = (adjustments: ImageAdjustments): boolean =>
+  !!adjustments.temperature || !!adjustments.sharpen;
+
+export const getBlurRadius = (adjustments: ImageAdjustments, longerSide: number): number =>
+  (adjustments.blur ?? 0) / 100 * MAX_BLUR_RATIO * longerSide;
+
+// Channel gains for a white balance shift: warm raises red and lowers blue
+const getTemperatureGains = (temperature: number): [number, number] => {
+  const shift = temperature / 100 * MAX_TEMPERATURE_SHIFT;
+  return [1 + shift, 1 - shift];
+};
+
+/**
+ * feColorMatrix values for the temperature shift
+ */
+export function getTemperatureMatrix(temperature: number): string {
+  const [red, blue] = getTemperatureGains(temperature);
+  return `${red} 0 0 0 0  0 1 0 0 0  0 0 ${blue} 0 0  0 0 0 1 0`;
+}
+
+// 3x3 sharpening kernel, row by row: the centre pixel pushed away from its four neighbours
+const getSharpenKernel = (sharpen: number): number[] => {
+  const amount = sharpen / 100;
+  return [0, -amount, 0, -amount, 1 + 4 * amount, -amount, 0, -amount, 0];
+};
+
+/**
+ * feConvolveMatrix kernelMatrix for the sharpen amount
+ */
+export function getSharpenMatrix(sharpen: number): string {
+  return getSharpenKernel(sharpen).join(' ');
+}
+
+/**
+ * CSS filter for live display. filterId names the inline SVG filter holding
+ * temperature and sharpen; it is only referenced when one of them is set.
+ */
+export function getCssFilter(adjustments: ImageAdjustments, filterId: string, longerSide: number): string {
+  const blur = getBlurRadius(adjustments, longerSide);
+  return [
+    getColorFilter(adjustments),
+    needsPixelFilter(adjustments) ? `url(#${filterId})` : '',
+    blur > 0 ? `blur(${blur}px)` : '',
+  ].filter(Boolean).join(' ') || 'none';
+}
+
+// Temperature and sharpen on raw pixels, matching the SVG filter (sRGB, edges duplicated, alpha kept)
+const applyPixelFilter = (imageData: ImageData, adjustments: ImageAdjustments): void => {
+  const { data, width, height } = imageData;
+  if (adjustments.temperature) {
+    const [red, blue] = getTemperatureGains(adjustments.temperature);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = data[i] * red;
+      data[i + 2] = data[i + 2] * blue;
+    }
+  }
+  if (adjustments.sharpen) {
+    const kernel = getSharpenKernel(adjustments.sharpen);
+    const source = new Uint8ClampedArray(data);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const offset = (y * width + x) * 4;
+        for (let channel = 0; channel < 3; channel++) {
+          let sum = 0;
+          for (let ky = -1; ky <= 1; ky++) {
+            const sy = Math.min(height - 1, Math.max(0, y + ky));
+            for (let kx = -1; kx <= 1; kx++) {
+              const sx = Math.min(width - 1, Math.max(0, x + kx));
+              sum += source[(sy * width + sx) * 4 + channel] * kernel[(ky + 1) * 3 + kx + 1];
+            }
+          }
+          data[offset + channel] = sum;
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Bake the adjustments and crop into a PNG data URL, at the cropped part's native size
+ */
+export async function renderAdjustedImage(src: string, adjustments: ImageAdjustments = {}, crop: CropRect = FULL_FRAME): Promise<string> {
+  const img = await loadImage(src);
+  const sx = Math.round(crop.x * img.naturalWidth);
+  const sy = Math.round(crop.y * img.naturalHeight);
+  const width = Math.max(1, Math.round(crop.width * img.naturalWidth));
+  const height = Math.max(1, Math.round(crop.height * img.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.filter = getColorFilter(adjustments) || 'none';
+  ctx.drawImage(img, sx, sy, width, height, 0, 0, width, height);
+  ctx.filter = 'none';
+
+  if (needsPixelFilter(adjustments)) {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    applyPixelFilter(imageData, adjustments);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  const blur = getBlurRadius(adjustments, Math.max(width, height));
+  if (blur > 0) {
+    const blurred = document.createElement('canvas');
+    blurred.width = width;
+    blurred.height = height;
+    const blurredCtx = blurred.getContext('2d');
+    if (!blurredCtx) throw new Error('Could not get canvas context');
+    blurredCtx.filter = `blur(${blur}px)`;
+    blurredCtx.drawImage(canvas, 0, 0);
+    return blurred.toDataURL('image/png');
+  }
+  return canvas.toDataURL('image/png');
+}
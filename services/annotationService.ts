@@ -0,0 +1,407 @@
+/**
+ * Annotations - One rasterizer for the marks drawn on layers
+ *
+ * Annotations are stored in layer coordinates, as displayed. Exports, the
+ * composite sent along with a generation and thumbnails all draw them here so
+ * they come out where the canvas shows them. An image layer renders at the
+ * resolution of the image passed in: the image sits object-contain in the
+ * layer's box and flipped as displayed, and the annotations are scaled from
+ * the box onto its pixels. Layers without an image render at their box size.
+ * The canvas draws its live annotations with the same code.
+ *
+ * The same marks can also be written out as SVG (renderAnnotationsSvg), so
+ * drawings and annotation overlays stay editable in vector tools.
+ *
+ * Shape geometry lives here too: the handles each kind of annotation is
+ * edited by, and how dragging one reshapes it.
+ */
+
+import { Annotation, LayerData, LineAnnotation } from '../types';
+
+type Point = { x: number; y: number };
+
+export type ShapeTool = 'rectangle' | 'ellipse' | 'line' | 'arrow';
+
+export const HIGHLIGHTER_OPACITY = 0.4;
+export const HIGHLIGHTER_WIDTH_SCALE = 4; // Of the chosen stroke width; a highlighter covers text, not outlines it
+const MIN_SHAPE_SIZE = 5; // Drags shorter than this don't leave a shape
+const ARROW_HEAD_SCALE = 4; // Head length, in stroke widths
+const MIN_ARROW_HEAD = 10;
+const CALLOUT_SCALE = 0.9; // Marker radius, of the number's font size
+
+// Matches the text annotation overlay on the canvas
+const TEXT_LINE_HEIGHT = 1.3;
+const TEXT_PADDING_X = 4;
+const TEXT_PADDING_Y = 2;
+const TEXT_SHADOW = { color: 'rgba(0,0,0,0.5)', blur: 4, offsetY: 2 };
+
+// Sticky and text layer content, as laid out on the canvas
+const LAYER_TEXT_INSET = 20;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for annotations'));
+  img.src = src;
+});
+
+/**
+ * Text colour that reads on a sticky of the given colour
+ */
+export function getContrastColor(hexColor: string): string {
+  if (!hexColor) return '#000000';
+  const r = parseInt(hexColor.substr(1, 2), 16);
+  const g = parseInt(hexColor.substr(3, 2), 16);
+  const b = parseInt(hexColor.substr(5, 2), 16);
+  const yiq = ((r * 299) + (g * 587) + (b * 114)) / 1000;
+  return (yiq >= 128) ? '#000000' : '#ffffff';
+}
+
+/**
+ * Whether exporting or sending the layer needs a composite rather than its source
+ */
+export const needsComposite = (layer: LayerData): boolean =>
+  layer.type === 'sticky' || layer.type === 'text' || layer.type === 'drawing' || !!layer.annotations?.length;
+
+export const getCalloutRadius = (ann: { fontSize: number }): number => ann.fontSize * CALLOUT_SCALE;
+
+/**
+ * The number the next callout on a layer gets
+ */
+export function getNextCalloutNumber(annotations: Annotation[] = []): number {
+  return annotations.reduce((max, ann) => ann.type === 'callout' ? Math.max(max, ann.number) : max, 0) + 1;
+}
+
+/**
+ * A shape dragged out from start to end, or null when the drag was too short to mean one
+ */
+export function createShapeAnnotation(tool: ShapeTool, start: Point, end: Point, color: string, strokeWidth: number): Annotation | null {
+  const id = crypto.randomUUID();
+  if (tool === 'line' || tool === 'arrow') {
+    if (Math.hypot(end.x - start.x, end.y - start.y) <= MIN_SHAPE_SIZE) return null;
+    return { id, type: tool, start, end, color, strokeWidth };
+  }
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (width <= MIN_SHAPE_SIZE || height <= MIN_SHAPE_SIZE) return null;
+  if (tool === 'ellipse') return { id, type: 'ellipse', x, y, width, height, color, strokeWidth };
+  const vertices = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+  return { id, type: 'rectangle', vertices, color, strokeWidth };
+}
+
+/**
+ * Shift an annotation by dx/dy in layer coordinates
+ */
+export function offsetAnnotation(ann: Annotation, dx: number, dy: number): Annotation {
+  const move = (p: Point) => ({ ...p, x: p.x + dx, y: p.y + dy });
+  switch (ann.type) {
+    case 'path': return { ...ann, points: ann.points.map(move) };
+    case 'rectangle': return { ...ann, vertices: ann.vertices.map(move) };
+    case 'line':
+    case 'arrow': return { ...ann, start: move(ann.start), end: move(ann.end) };
+    default: return { ...ann, x: ann.x + dx, y: ann.y + dy };
+  }
+}
+
+/**
+ * Points an annotation is reshaped by: rectangle and ellipse corners (TL, TR, BR, BL), line ends.
+ * Paths, text and callouts only move as a whole.
+ */
+export function getAnnotationHandles(ann: Annotation): Point[] {
+  switch (ann.type) {
+    case 'rectangle': return ann.vertices;
+    case 'line':
+    case 'arrow': return [ann.start, ann.end];
+    case 'ellipse': return [
+      { x: ann.x, y: ann.y }, { x: ann.x + ann.width, y: ann.y },
+      { x: ann.x + ann.width, y: ann.y + ann.height }, { x: ann.x, y: ann.y + ann.height },
+    ];
+    default: return [];
+  }
+}
+
+/**
+ * The annotation with one of its handles moved to point. Corners keep the box
+ * axis-aligned, with the opposite corner staying put.
+ */
+export function moveAnnotationHandle(ann: Annotation, index: number, point: Point): Annotation {
+  if (ann.type === 'line' || ann.type === 'arrow') return index === 0 ? { ...ann, start: point } : { ...ann, end: point };
+  if (ann.type !== 'rectangle' && ann.type !== 'ellipse') return ann;
+  const corners = getAnnotationHandles(ann);
+  const opposite = corners[(index + 2) % 4];
+  const x = Math.min(point.x, opposite.x);
+  const y = Math.min(point.y, opposite.y);
+  const width = Math.abs(point.x - opposite.x);
+  const height = Math.abs(point.y - opposite.y);
+  if (ann.type === 'ellipse') return { ...ann, x, y, width, height };
+  // Vertices stay in their roles (0=TL, 1=TR, 2=BR, 3=BL); the dragged one moves, its neighbours follow on one axis
+  const vertices = ann.vertices.map(v => ({ ...v }));
+  vertices[index] = point;
+  const sharesX = index % 2 === 0 ? (index + 3) % 4 : (index + 1) % 4;
+  const sharesY = index % 2 === 0 ? (index + 1) % 4 : (index + 3) % 4;
+  vertices[sharesX] = { ...vertices[sharesX], x: point.x };
+  vertices[sharesY] = { ...vertices[sharesY], y: point.y };
+  return { ...ann, vertices };
+}
+
+/**
+ * Stroke width, or font size for text and callouts
+ */
+export function getAnnotationSize(ann: Annotation): number {
+  switch (ann.type) {
+    case 'path': return ann.width;
+    case 'text':
+    case 'callout': return ann.fontSize;
+    default: return ann.strokeWidth;
+  }
+}
+
+export function setAnnotationSize(ann: Annotation, size: number): Annotation {
+  switch (ann.type) {
+    case 'path': return { ...ann, width: size };
+    case 'text':
+    case 'callout': return { ...ann, fontSize: size };
+    default: return { ...ann, strokeWidth: size };
+  }
+}
+
+const strokePolyline = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[], color: string, width: number, closed: boolean) => {
+  ctx.beginPath();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+  if (closed) ctx.closePath();
+  ctx.stroke();
+};
+
+// The shaft stops short of the tip so its round cap doesn't poke through the head
+const getArrowGeometry = (ann: LineAnnotation) => {
+  const angle = Math.atan2(ann.end.y - ann.start.y, ann.end.x - ann.start.x);
+  const length = Math.max(MIN_ARROW_HEAD, ann.strokeWidth * ARROW_HEAD_SCALE);
+  const shaftEnd = { x: ann.end.x - Math.cos(angle) * length * 0.5, y: ann.end.y - Math.sin(angle) * length * 0.5 };
+  const head = [
+    ann.end,
+    { x: ann.end.x - length * Math.cos(angle - Math.PI / 7), y: ann.end.y - length * Math.sin(angle - Math.PI / 7) },
+    { x: ann.end.x - length * Math.cos(angle + Math.PI / 7), y: ann.end.y - length * Math.sin(angle + Math.PI / 7) },
+  ];
+  return { shaftEnd, head };
+};
+
+// Shadows ignore the context's transform, so they are scaled by hand
+const setTextShadow = (ctx: CanvasRenderingContext2D) => {
+  const { a, d } = ctx.getTransform();
+  ctx.shadowColor = TEXT_SHADOW.color;
+  ctx.shadowBlur = TEXT_SHADOW.blur * a;
+  ctx.shadowOffsetY = TEXT_SHADOW.offsetY * d;
+};
+
+/**
+ * Draw annotations with the context's current transform mapping layer coordinates onto it
+ */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[]): void {
+  for (const ann of annotations) {
+    ctx.save();
+    switch (ann.type) {
+      case 'path':
+        ctx.globalAlpha = ann.opacity ?? 1;
+        if (ann.points.length > 1) strokePolyline(ctx, ann.points, ann.color, ann.width, false);
+        break;
+      case 'rectangle':
+        if (ann.vertices.length === 4) strokePolyline(ctx, ann.vertices, ann.color, ann.strokeWidth, true);
+        break;
+      case 'line':
+        strokePolyline(ctx, [ann.start, ann.end], ann.color, ann.strokeWidth, false);
+        break;
+      case 'arrow': {
+        const { shaftEnd, head } = getArrowGeometry(ann);
+        strokePolyline(ctx, [ann.start, shaftEnd], ann.color, ann.strokeWidth, false);
+        ctx.beginPath();
+        ctx.fillStyle = ann.color;
+        head.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+      case 'ellipse':
+        ctx.beginPath();
+        ctx.strokeStyle = ann.color;
+        ctx.lineWidth = ann.strokeWidth;
+        ctx.ellipse(ann.x + ann.width / 2, ann.y + ann.height / 2, ann.width / 2, ann.height / 2, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case 'callout': {
+        const radius = getCalloutRadius(ann);
+        ctx.beginPath();
+        ctx.fillStyle = ann.color;
+        ctx.arc(ann.x, ann.y, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.lineWidth = Math.max(1, radius * 0.12);
+        ctx.strokeStyle = '#ffffff';
+        ctx.stroke();
+        ctx.fillStyle = getContrastColor(ann.color);
+        ctx.font = `bold ${ann.fontSize}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(ann.number), ann.x, ann.y);
+        if (ann.label) {
+          setTextShadow(ctx);
+          ctx.fillStyle = ann.color;
+          ctx.font = `${ann.fontSize}px sans-serif`;
+          ctx.textAlign = 'left';
+          ctx.fillText(ann.label, ann.x + radius * 1.4, ann.y);
+        }
+        break;
+      }
+      case 'text': {
+        const lineHeight = ann.fontSize * TEXT_LINE_HEIGHT;
+        ctx.fillStyle = ann.color;
+        ctx.font = `${ann.fontSize}px sans-serif`;
+        ctx.textBaseline = 'middle';
+        setTextShadow(ctx);
+        ann.text.split('\n').forEach((line, i) => {
+          ctx.fillText(line, ann.x + TEXT_PADDING_X, ann.y + TEXT_PADDING_Y + lineHeight * (i + 0.5));
+        });
+        break;
+      }
+    }
+    ctx.restore();
+  }
+}
+
+// Word-wrapped text inside a sticky or text layer
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
+  const words = text.split(' ');
+  let line = '';
+  for (let n = 0; n < words.length; n++) {
+    const testLine = line + words[n] + ' ';
+    if (ctx.measureText(testLine).width > maxWidth && n > 0) {
+      ctx.fillText(line, x, y);
+      line = words[n] + ' ';
+      y += lineHeight;
+    } else {
+      line = testLine;
+    }
+  }
+  ctx.fillText(line, x, y);
+};
+
+/**
+ * The layer with its annotations as a PNG data URL. imageSrc is what an image
+ * layer shows (adjustments and crop already baked in, or its thumbnail) and
+ * sets the output resolution.
+ */
+export async function renderLayerComposite(layer: LayerData, imageSrc?: string): Promise<string> {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  if (layer.type === 'image' && imageSrc) {
+    const img = await loadImage(imageSrc);
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    ctx.save();
+    ctx.translate(layer.flipX ? canvas.width : 0, layer.flipY ? canvas.height : 0);
+    ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
+    ctx.drawImage(img, 0, 0);
+    ctx.restore();
+    // Layer coordinates to image pixels, undoing the object-contain fit
+    const fit = Math.min(layer.width / img.naturalWidth, layer.height / img.naturalHeight);
+    const offsetX = (layer.width - img.naturalWidth * fit) / 2;
+    const offsetY = (layer.height - img.naturalHeight * fit) / 2;
+    ctx.setTransform(1 / fit, 0, 0, 1 / fit, -offsetX / fit, -offsetY / fit);
+  } else {
+    canvas.width = Math.max(1, Math.round(layer.width));
+    canvas.height = Math.max(1, Math.round(layer.height));
+    if (layer.type === 'sticky') {
+      ctx.fillStyle = layer.color || '#fff8c5';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    if ((layer.type === 'sticky' || layer.type === 'text') && layer.text) {
+      const fontSize = layer.fontSize || (layer.type === 'text' ? 48 : 24);
+      ctx.font = `${fontSize}px sans-serif`;
+      ctx.fillStyle = layer.type === 'text' ? (layer.color || '#ffffff') : getContrastColor(layer.color || '#fff8c5');
+      ctx.textBaseline = 'top';
+      wrapText(ctx, layer.text, LAYER_TEXT_INSET, LAYER_TEXT_INSET, layer.width - LAYER_TEXT_INSET * 2, fontSize * 1.2);
+    }
+  }
+
+  if (layer.annotations?.length) drawAnnotations(ctx, layer.annotations);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Whether the layer has vector content to export as SVG: a drawing, or an image's annotations
+ */
+export const canExportSvg = (layer: LayerData): boolean =>
+  layer.type === 'drawing' || (layer.type === 'image' && !!layer.annotations?.length);
+
+const escapeXml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+// Two decimals is well under a pixel and keeps long strokes small
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const svgPoints = (points: Point[]) => points.map(p => `${num(p.x)},${num(p.y)}`).join(' ');
+
+const svgStroke = (color: string, width: number) =>
+  `fill="none" stroke="${escapeXml(color)}" stroke-width="${num(width)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+const svgText = (x: number, y: number, text: string, attributes: string) =>
+  `<text x="${num(x)}" y="${num(y)}" font-family="sans-serif" dominant-baseline="central" xml:space="preserve" ${attributes}>${escapeXml(text)}</text>`;
+
+const annotationToSvg = (ann: Annotation): string => {
+  switch (ann.type) {
+    case 'path':
+      if (ann.points.length < 2) return '';
+      return `<polyline points="${svgPoints(ann.points)}" ${svgStroke(ann.color, ann.width)}${ann.opacity !== undefined ? ` opacity="${num(ann.opacity)}"` : ''}/>`;
+    case 'rectangle':
+      return ann.vertices.length === 4 ? `<polygon points="${svgPoints(ann.vertices)}" ${svgStroke(ann.color, ann.strokeWidth)}/>` : '';
+    case 'line':
+      return `<line x1="${num(ann.start.x)}" y1="${num(ann.start.y)}" x2="${num(ann.end.x)}" y2="${num(ann.end.y)}" ${svgStroke(ann.color, ann.strokeWidth)}/>`;
+    case 'arrow': {
+      const { shaftEnd, head } = getArrowGeometry(ann);
+      return `<g><line x1="${num(ann.start.x)}" y1="${num(ann.start.y)}" x2="${num(shaftEnd.x)}" y2="${num(shaftEnd.y)}" ${svgStroke(ann.color, ann.strokeWidth)}/>`
+        + `<polygon points="${svgPoints(head)}" fill="${escapeXml(ann.color)}"/></g>`;
+    }
+    case 'ellipse':
+      return `<ellipse cx="${num(ann.x + ann.width / 2)}" cy="${num(ann.y + ann.height / 2)}" rx="${num(ann.width / 2)}" ry="${num(ann.height / 2)}" ${svgStroke(ann.color, ann.strokeWidth)}/>`;
+    case 'callout': {
+      const radius = getCalloutRadius(ann);
+      const color = escapeXml(ann.color);
+      return `<g><circle cx="${num(ann.x)}" cy="${num(ann.y)}" r="${num(radius)}" fill="${color}" stroke="#ffffff" stroke-width="${num(Math.max(1, radius * 0.12))}"/>`
+        + svgText(ann.x, ann.y, String(ann.number), `font-size="${num(ann.fontSize)}" font-weight="bold" text-anchor="middle" fill="${getContrastColor(ann.color)}"`)
+        + (ann.label ? svgText(ann.x + radius * 1.4, ann.y, ann.label, `font-size="${num(ann.fontSize)}" fill="${color}" filter="url(#text-shadow)"`) : '')
+        + '</g>';
+    }
+    case 'text': {
+      const lineHeight = ann.fontSize * TEXT_LINE_HEIGHT;
+      const lines = ann.text.split('\n').map((line, i) =>
+        svgText(ann.x + TEXT_PADDING_X, ann.y + TEXT_PADDING_Y + lineHeight * (i + 0.5), line, `font-size="${num(ann.fontSize)}" fill="${escapeXml(ann.color)}"`));
+      return `<g filter="url(#text-shadow)">${lines.join('')}</g>`;
+    }
+  }
+};
+
+/**
+ * The layer's annotations as an SVG document, one vector element per mark, in
+ * layer coordinates over the layer's box. For an image layer this is the
+ * overlay alone; the image sits object-contain in the same box.
+ */
+export function renderAnnotationsSvg(layer: LayerData): string {
+  const width = num(Math.max(1, layer.width));
+  const height = num(Math.max(1, layer.height));
+  // feDropShadow's deviation is half the canvas shadow blur
+  const shadow = `<filter id="text-shadow" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="0" dy="${TEXT_SHADOW.offsetY}" stdDeviation="${TEXT_SHADOW.blur / 2}" flood-color="#000000" flood-opacity="0.5"/></filter>`;
+  const elements = (layer.annotations || []).map(annotationToSvg).filter(Boolean);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs>${shadow}</defs>`,
+    ...elements,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Project Archive - Portable .gencanvas export/import
+ *
+ * Bundles a project's layers, view state, undo history and every referenced
+ * asset blob into a single zip file. Importing stores the blobs under fresh
+ * asset IDs and rewrites the layer references to match.
+ */
+
+import { LayerData } from '../types';
+import { getAssetBlob, storeAssetBlob } from './assetStore';
+import { createZip, readZip, ZipEntry } from './zipArchive';
+
+const ARCHIVE_FORMAT = 'gencanvas';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+export const ARCHIVE_EXTENSION = '.gencanvas';
+
+// Placeholder written into layer.src for media that lives in an archive file
+const MEDIA_SRC_PREFIX = 'gencanvas-media:';
+
+export interface ViewStateSnapshot {
+  offset: { x: number; y: number };
+  scale: number;
+}
+
+export interface ProjectSnapshot {
+  name: string;
+  layers: LayerData[];
+  viewState: ViewStateSnapshot | null;
+  history: LayerData[][];
+  historyIndex: number;
+}
+
+interface ArchiveAsset {
+  path: string;
+  mimeType: string;
+  kind: 'asset' | 'media'; // asset = asset store blob, media = legacy inline video/audio src
+}
+
+interface ArchiveManifest extends ProjectSnapshot {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  assets: Record<string, ArchiveAsset>;
+}
+
+const extensionForMime = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(';')[0];
+  return subtype ? subtype.replace(/[^a-z0-9]/gi, '') : 'bin';
+};
+
+/**
+ * Export a project snapshot as a .gencanvas archive blob
+ */
+export async function exportProjectArchive(snapshot: ProjectSnapshot): Promise<Blob> {
+  const assets: Record<string, ArchiveAsset> = {};
+  const files: ZipEntry[] = [];
+  const mediaKeysBySrc = new Map<string, string>();
+
+  const addFile = async (key: string, blob: Blob, kind: ArchiveAsset['kind']) => {
+    const mimeType = blob.type || 'application/octet-stream';
+    const path = `assets/${key}.${extensionForMime(mimeType)}`;
+    files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    assets[key] = { path, mimeType, kind };
+  };
+
+  const addStoredAsset = async (id?: string) => {
+    if (!id || assets[id]) return;
+    const blob = await getAssetBlob(id);
+    if (!blob) {
+      console.warn('Asset missing from store, skipping in archive', id);
+      return;
+    }
+    await addFile(id, blob, 'asset');
+  };
+
+  // Older video/audio layers hold their media inline (data or blob URL) - archive them as files
+  const addMedia = async (src: string): Promise<string | null> => {
+    const existing = mediaKeysBySrc.get(src);
+    if (existing) return existing;
+    try {
+      const blob = await (await fetch(src)).blob();
+      const key = `media-${mediaKeysBySrc.size + 1}`;
+      await addFile(key, blob, 'media');
+      mediaKeysBySrc.set(src, key);
+      return key;
+    } catch (e) {
+      console.warn('Failed to read media for archive', e);
+      return null;
+    }
+  };
+
+  const prepareLayer = async (layer: LayerData): Promise<LayerData> => {
+    await Promise.all([addStoredAsset(layer.imageId), addStoredAsset(layer.thumbnailId)]);
+    const prepared: LayerData = {
+      ...layer,
+      // Blob URLs are runtime-only; asset-backed layers are rebuilt from their IDs
+      src: layer.imageId ? '' : layer.src,
+      thumbnail: layer.thumbnailId ? undefined : layer.thumbnail,
+    };
+    if ((layer.type === 'video' || layer.type === 'audio') && layer.src && !layer.imageId) {
+      const key = await addMedia(layer.src);
+      prepared.src = key ? `${MEDIA_SRC_PREFIX}${key}` : '';
+    }
+    return prepared;
+  };
+
+  // Sequential to keep peak memory down for large boards
+  const layers: LayerData[] = [];
+  for (const layer of snapshot.layers) layers.push(await prepareLayer(layer));
+  const history: LayerData[][] = [];
+  for (const state of snapshot.history) {
+    const prepared: LayerData[] = [];
+    for (const layer of state) prepared.push(await prepareLayer(layer));
+    history.push(prepared);
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    name: snapshot.name,
+    layers,
+    viewState: snapshot.viewState,
+    history,
+    historyIndex: snapshot.historyIndex,
+    assets,
+  };
+
+  return createZip([
+    { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest)) },
+    ...files,
+  ]);
+}
+
+/**
+ * Read a .gencanvas archive, store its assets under fresh IDs and return the
+ * rebuilt project snapshot (layers reference the new asset IDs).
+ */
+export async function importProjectArchive(file: Blob): Promise<ProjectSnapshot> {
+  const entries = await readZip(file);
+  const manifestBytes = entries.get(MANIFEST_PATH);
+  if (!manifestBytes) {
+    throw new Error('Not a GenCanvas archive: manifest.json is missing');
+  }
+
+  const manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a GenCanvas archive');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than this app supports`);
+  }
+
+  // Old asset ID (or legacy media key) -> new asset ID
+  const assetIdMap = new Map<string, string>();
+
+  for (const [key, asset] of Object.entries(manifest.assets || {})) {
+    const data = entries.get(asset.path);
+    if (!data) {
+      console.warn('Archive entry missing, skipping', asset.path);
+      continue;
+    }
+    // Legacy inline media is stored like any other asset so it survives reloads
+    assetIdMap.set(key, await storeAssetBlob(new Blob([data], { type: asset.mimeType })));
+  }
+
+  const restoreLayer = (layer: LayerData): LayerData => {
+    const restored: LayerData = {
+      ...layer,
+      imageId: layer.imageId ? assetIdMap.get(layer.imageId) : undefined,
+      thumbnailId: layer.thumbnailId ? assetIdMap.get(layer.thumbnailId) : undefined,
+    };
+    if (layer.src?.startsWith(MEDIA_SRC_PREFIX)) {
+      restored.imageId = assetIdMap.get(layer.src.slice(MEDIA_SRC_PREFIX.length));
+      restored.src = '';
+    }
+    return restored;
+  };
+
+  return {
+    name: manifest.name,
+    layers: (manifest.layers || []).map(restoreLayer),
+    viewState: manifest.viewState || null,
+    history: (manifest.history || []).map(state => state.map(restoreLayer)),
+    historyIndex: manifest.historyIndex || 0,
+  };
+}
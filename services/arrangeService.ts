@@ -0,0 +1,114 @@
+/**
+ * Arrange - Align, distribute and grid layouts for a set of layers
+ *
+ * Pure geometry: each function returns the new top-left position for every
+ * layer it moves, keyed by layer ID. The caller passes each layer's box as it
+ * sits on the canvas (rotated bounds), applies the moves (and carries group
+ * children along) so the result lands in a single history entry.
+ */
+
+import { LayerData } from '../types';
+
+export type AlignMode = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type LayerPositions = Map<string, { x: number; y: number }>;
+
+// Same spacing handleGlobalGenerate uses between batch placeholders
+export const ARRANGE_GAP = 20;
+
+const getBounds = (layers: LayerData[]) => {
+  const left = Math.min(...layers.map(l => l.x));
+  const top = Math.min(...layers.map(l => l.y));
+  const right = Math.max(...layers.map(l => l.x + l.width));
+  const bottom = Math.max(...layers.map(l => l.y + l.height));
+  return { left, top, right, bottom };
+};
+
+/**
+ * Align layers to an edge or center of their combined bounding box
+ */
+export function alignLayers(layers: LayerData[], mode: AlignMode): LayerPositions {
+  const positions: LayerPositions = new Map();
+  if (layers.length < 2) return positions;
+  const { left, top, right, bottom } = getBounds(layers);
+
+  for (const layer of layers) {
+    let { x, y } = layer;
+    switch (mode) {
+      case 'left': x = left; break;
+      case 'centerX': x = (left + right) / 2 - layer.width / 2; break;
+      case 'right': x = right - layer.width; break;
+      case 'top': y = top; break;
+      case 'centerY': y = (top + bottom) / 2 - layer.height / 2; break;
+      case 'bottom': y = bottom - layer.height; break;
+    }
+    positions.set(layer.id, { x, y });
+  }
+  return positions;
+}
+
+/**
+ * Space layers so the gaps between neighbours are equal. The outermost
+ * layers stay put; needs at least three layers to have any effect.
+ */
+export function distributeLayers(layers: LayerData[], axis: DistributeAxis): LayerPositions {
+  const positions: LayerPositions = new Map();
+  if (layers.length < 3) return positions;
+
+  const horizontal = axis === 'horizontal';
+  const start = (l: LayerData) => horizontal ? l.x : l.y;
+  const size = (l: LayerData) => horizontal ? l.width : l.height;
+
+  const sorted = [...layers].sort((a, b) => start(a) - start(b));
+  const first = sorted[0];
+  const last = sorted.reduce((max, l) => start(l) + size(l) > start(max) + size(max) ? l : max, sorted[0]);
+  const span = start(last) + size(last) - start(first);
+  const totalSize = sorted.reduce((sum, l) => sum + size(l), 0);
+  const gap = (span - totalSize) / (sorted.length - 1);
+
+  let cursor = start(first);
+  for (const layer of sorted) {
+    positions.set(layer.id, horizontal ? { x: cursor, y: layer.y } : { x: layer.x, y: cursor });
+    cursor += size(layer) + gap;
+  }
+  return positions;
+}
+
+/**
+ * Lay layers out in a near-square grid (like a generated batch), keeping
+ * their current reading order and anchoring at the selection's top-left.
+ * Columns and rows are sized to their widest / tallest member.
+ */
+export function tidyIntoGrid(layers: LayerData[], gap: number = ARRANGE_GAP): LayerPositions {
+  const positions: LayerPositions = new Map();
+  if (layers.length < 2) return positions;
+  const { left, top } = getBounds(layers);
+
+  // Reading order: bucket into visual rows by vertical overlap, then left to right
+  const byTop = [...layers].sort((a, b) => a.y - b.y);
+  const rows: LayerData[][] = [];
+  for (const layer of byTop) {
+    const row = rows[rows.length - 1];
+    if (row && layer.y < row[0].y + row[0].height / 2) row.push(layer);
+    else rows.push([layer]);
+  }
+  const ordered = rows.flatMap(row => row.sort((a, b) => a.x - b.x));
+
+  const cols = Math.ceil(Math.sqrt(ordered.length));
+  const rowCount = Math.ceil(ordered.length / cols);
+  const colWidths = new Array(cols).fill(0);
+  const rowHeights = new Array(rowCount).fill(0);
+  ordered.forEach((layer, i) => {
+    colWidths[i % cols] = Math.max(colWidths[i % cols], layer.width);
+    rowHeights[Math.floor(i / cols)] = Math.max(rowHeights[Math.floor(i / cols)], layer.height);
+  });
+
+  ordered.forEach((layer, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    const x = left + colWidths.slice(0, col).reduce((sum, w) => sum + w + gap, 0);
+    const y = top + rowHeights.slice(0, row).reduce((sum, h) => sum + h + gap, 0);
+    positions.set(layer.id, { x, y });
+  });
+  return positions;
+}
@@ -9,7 +9,7 @@ const DB_NAME = 'gemini-canvas-assets';
 const DB_VERSION = 1;
 const ASSETS_STORE = 'assets';
 
-interface AssetRecord {
+export interface AssetRecord {
   id: string;
   blob: Blob;
   mimeType: string;
@@ -68,8 +68,14 @@ function base64ToBlob(base64: string): Blob {
  * Store a Base64 image and return its ID
  */
 export async function storeAsset(base64: string): Promise<string> {
+  return storeAssetBlob(base64ToBlob(base64));
+}
+
+/**
+ * Store a raw Blob (e.g. from an imported archive) and return its ID
+ */
+export async function storeAssetBlob(blob: Blob): Promise<string> {
   const id = crypto.randomUUID();
-  const blob = base64ToBlob(base64);
 
   const db = await initDB();
 
@@ -262,3 +268,32 @@ export async function getAllAssetIds(): Promise<string[]> {
     request.onerror = () => reject(request.error);
   });
 }
+
+export type AssetInfo = Omit<AssetRecord, 'blob'>;
+
+/**
+ * List size and type of every stored asset without loading blob contents
+ */
+export async function getAllAssetInfo(): Promise<AssetInfo[]> {
+  const db = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const results: AssetInfo[] = [];
+    const tx = db.transaction(ASSETS_STORE, 'readonly');
+    const store = tx.objectStore(ASSETS_STORE);
+    const request = store.openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(results);
+        return;
+      }
+      const { id, mimeType, size, createdAt } = cursor.value as AssetRecord;
+      results.push({ id, mimeType, size, createdAt });
+      cursor.continue();
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Crop - The part of an image or video frame a layer shows
+ *
+ * A CropRect is stored as fractions of the media's own size, so the same crop
+ * fits the thumbnail, the full image and every video frame. Applying a crop
+ * gives the layer's box the cropped part's proportions; on the canvas the
+ * whole media is then positioned inside an overflow-hidden frame with only
+ * the cropped part showing (see getCropFrame).
+ *
+ * Images bake the crop in together with their adjustments (adjustmentService).
+ * Thumbnails and video exports are cut here.
+ */
+
+import { CropRect } from '../types';
+import { ASPECT_RATIOS_IMAGE } from '../constants';
+
+type Size = { width: number; height: number };
+
+export type CropHandle = 'nw' | 'ne' | 'se' | 'sw';
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+export const MIN_CROP_SIZE = 0.05; // Of the media's shorter side
+export const CROP_ASPECT_RATIOS = ASPECT_RATIOS_IMAGE; // Same list as the PromptBar; 'Auto' leaves the crop free
+
+const EPSILON = 0.001; // Below a pixel on any real image, so rounding doesn't leave a crop behind
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for crop'));
+  img.src = src;
+});
+
+/**
+ * Whether the crop leaves anything out
+ */
+export const hasCrop = (crop?: CropRect): crop is CropRect =>
+  !!crop && (crop.x > EPSILON || crop.y > EPSILON || crop.width < 1 - EPSILON || crop.height < 1 - EPSILON);
+
+/**
+ * The same crop on the media mirrored by the layer's flips. The crop is stored
+ * against the media; the crop tool works on the layer as displayed.
+ */
+export function mirrorCrop(crop: CropRect, flipX?: boolean, flipY?: boolean): CropRect {
+  return {
+    ...crop,
+    x: flipX ? 1 - crop.x - crop.width : crop.x,
+    y: flipY ? 1 - crop.y - crop.height : crop.y,
+  };
+}
+
+/**
+ * Width over height for a ratio like "16:9"; null for "Auto"
+ */
+export function parseAspectRatio(ratio: string): number | null {
+  const [width, height] = ratio.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : null;
+}
+
+/**
+ * Where the whole media goes (in frame coordinates) so that its cropped part
+ * fills the frame object-contain. Positioned outside an overflow-hidden frame.
+ */
+export function getCropFrame(frame: Size, natural: Size, crop: CropRect) {
+  const cropWidth = natural.width * crop.width;
+  const cropHeight = natural.height * crop.height;
+  const fit = Math.min(frame.width / cropWidth, frame.height / cropHeight);
+  return {
+    left: (frame.width - cropWidth * fit) / 2 - natural.width * crop.x * fit,
+    top: (frame.height - cropHeight * fit) / 2 - natural.height * crop.y * fit,
+    width: natural.width * fit,
+    height: natural.height * fit,
+  };
+}
+
+/**
+ * The largest crop of the given proportions (width / height, in media pixels)
+ * that fits the media, centred on the current crop as far as the edges allow
+ */
+export function fitCropToAspect(crop: CropRect, ratio: number, natural: Size): CropRect {
+  const width = Math.min(natural.width, natural.height * ratio);
+  const height = width / ratio;
+  const centerX = (crop.x + crop.width / 2) * natural.width;
+  const centerY = (crop.y + crop.height / 2) * natural.height;
+  return {
+    x: Math.min(natural.width - width, Math.max(0, centerX - width / 2)) / natural.width,
+    y: Math.min(natural.height - height, Math.max(0, centerY - height / 2)) / natural.height,
+    width: width / natural.width,
+    height: height / natural.height,
+  };
+}
+
+/**
+ * Drag one corner of the crop by dx/dy media pixels, the opposite corner staying
+ * put. With a ratio the crop keeps its proportions and stops at the media's edge.
+ */
+export function resizeCrop(start: CropRect, handle: CropHandle, dx: number, dy: number, natural: Size, ratio: number | null): CropRect {
+  const west = handle === 'nw' || handle === 'sw';
+  const north = handle === 'nw' || handle === 'ne';
+  const anchorX = (west ? start.x + start.width : start.x) * natural.width;
+  const anchorY = (north ? start.y + start.height : start.y) * natural.height;
+  const maxWidth = west ? anchorX : natural.width - anchorX;
+  const maxHeight = north ? anchorY : natural.height - anchorY;
+  const minSize = MIN_CROP_SIZE * Math.min(natural.width, natural.height);
+
+  let width = start.width * natural.width + (west ? -dx : dx);
+  let height = start.height * natural.height + (north ? -dy : dy);
+  if (ratio) {
+    // Follow whichever way the pointer went further, then shrink to fit
+    width = Math.min(Math.max(width, height * ratio, minSize, minSize * ratio), maxWidth, maxHeight * ratio);
+    height = width / ratio;
+  } else {
+    width = Math.min(Math.max(width, minSize), maxWidth);
+    height = Math.min(Math.max(height, minSize), maxHeight);
+  }
+  return {
+    x: (west ? anchorX - width : anchorX) / natural.width,
+    y: (north ? anchorY - height : anchorY) / natural.height,
+    width: width / natural.width,
+    height: height / natural.height,
+  };
+}
+
+/**
+ * Move the crop by dx/dy (fractions), keeping it on the media
+ */
+export function moveCrop(start: CropRect, dx: number, dy: number): CropRect {
+  return {
+    ...start,
+    x: Math.min(1 - start.width, Math.max(0, start.x + dx)),
+    y: Math.min(1 - start.height, Math.max(0, start.y + dy)),
+  };
+}
+
+/**
+ * Cut the cropped part out of an image, at its own resolution. PNG, so cutouts keep their transparency.
+ */
+export async function cropImage(src: string, crop: CropRect): Promise<string> {
+  const img = await loadImage(src);
+  const sx = Math.round(crop.x * img.naturalWidth);
+  const sy = Math.round(crop.y * img.naturalHeight);
+  const width = Math.max(1, Math.round(crop.width * img.naturalWidth));
+  const height = Math.max(1, Math.round(crop.height * img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(img, sx, sy, width, height, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Re-record a video through a canvas cut to the crop. Plays the video through
+ * once in real time; the sound is carried over. Returns a WebM blob.
+ */
+export async function renderCroppedVideo(src: string, crop: CropRect): Promise<Blob> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.playsInline = true;
+  video.preload = 'auto';
+  await new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new Error('Failed to load video for crop'));
+    video.src = src;
+  });
+
+  const sx = Math.round(crop.x * video.videoWidth);
+  const sy = Math.round(crop.y * video.videoHeight);
+  // Encoders want even dimensions
+  const width = Math.max(2, Math.round(crop.width * video.videoWidth / 2) * 2);
+  const height = Math.max(2, Math.round(crop.height * video.videoHeight / 2) * 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const stream = canvas.captureStream();
+  // Routed into the recording rather than the speakers
+  const audio = new AudioContext();
+  const sound = audio.createMediaStreamDestination();
+  audio.createMediaElementSource(video).connect(sound);
+  sound.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const drawFrame = () => {
+    ctx.drawImage(video, sx, sy, width, height, 0, 0, width, height);
+    if (!video.ended) requestAnimationFrame(drawFrame);
+  };
+
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+      video.onended = () => recorder.stop();
+      video.onerror = () => { recorder.stop(); reject(new Error('Video playback failed during crop')); };
+      recorder.start();
+      video.play().then(drawFrame).catch(reject);
+    });
+  } finally {
+    audio.close();
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Gemini Provider - Built-in Google models for the provider registry
+ *
+ * Describes what each Gemini / Veo model accepts and routes requests to the
+ * GoogleGenAI-backed functions in geminiService.
+ */
+
+import { ModelId } from '../types';
+import { ASPECT_RATIOS_IMAGE, ASPECT_RATIOS_VIDEO, IMAGE_SIZES, VIDEO_RESOLUTIONS, VIDEO_DURATIONS, AVAILABLE_VOICES } from '../constants';
+import { generateImageContent, generateVideoContent, generateSpeechContent, resumeVideoContent } from './geminiService';
+import { GenerationProvider, ModelCapabilities } from './providerRegistry';
+
+// Veo modes narrow the options: generateVideoContent forces these values server-side.
+// Resolution is left free; a mode that only renders 720p still accepts a 1080p request.
+const VEO_CAPABILITIES: ModelCapabilities = {
+  aspectRatios: ASPECT_RATIOS_VIDEO,
+  resolutions: VIDEO_RESOLUTIONS,
+  durations: VIDEO_DURATIONS,
+  maxReferenceImages: 1, // Optional image to animate
+  maxBatch: 1,
+  maxConcurrent: 2,
+  supportsCreativity: false,
+  videoModes: ['standard', 'references', 'interpolation'],
+  modeOverrides: {
+    interpolation: { durations: ['8'], minReferenceImages: 2, maxReferenceImages: 2 },
+    references: { aspectRatios: ['16:9'], durations: ['8'], maxReferenceImages: 3 },
+  },
+  supportsExtension: true,
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: [
+    {
+      id: ModelId.GEMINI_2_5_FLASH_IMAGE, name: 'NanoBanana', type: 'image', description: 'Fast, high quality generation',
+      capabilities: { aspectRatios: ASPECT_RATIOS_IMAGE, maxBatch: 4, maxConcurrent: 4, supportsCreativity: true },
+    },
+    {
+      id: ModelId.GEMINI_3_PRO_IMAGE, name: 'Nanobanana Pro', type: 'image', description: 'Highest fidelity generation',
+      capabilities: { aspectRatios: ASPECT_RATIOS_IMAGE, imageSizes: IMAGE_SIZES, maxReferenceImages: 14, maxBatch: 4, maxConcurrent: 2, supportsCreativity: true },
+    },
+    { id: ModelId.VEO_3_1_FAST, name: 'Veo Fast', type: 'video', description: 'Fast video generation', capabilities: VEO_CAPABILITIES },
+    { id: ModelId.VEO_3_1_HIGH, name: 'Veo', type: 'video', description: 'High quality video generation', capabilities: VEO_CAPABILITIES },
+    {
+      id: ModelId.GEMINI_2_5_FLASH_TTS, name: 'Gemini TTS', type: 'audio', description: 'Text-to-Speech',
+      capabilities: { aspectRatios: [], maxReferenceImages: 0, maxBatch: 1, maxConcurrent: 2, supportsCreativity: true, voices: AVAILABLE_VOICES },
+    },
+  ],
+  generateImage: generateImageContent,
+  generateVideo: generateVideoContent,
+  generateSpeech: generateSpeechContent,
+  resumeVideo: resumeVideoContent,
+};
@@ -1,6 +1,6 @@
 
-import { GoogleGenAI, Part, Modality } from '@google/genai';
-import { ModelId, GenerateOptions, GenerationMetadata, Attachment } from '../types';
+import { GoogleGenAI, Part, Modality, ApiError, GenerateVideosOperation } from '@google/genai';
+import { ModelId, GenerateOptions, GenerationMetadata, GenerationResult, GenerationCallbacks, GenerationUsage, Attachment } from '../types';
 import { getStoredApiKey } from './apiKeyService';
 
 // Singleton client for connection reuse and HTTP/2 multiplexing
@@ -86,17 +86,12 @@ export const getApiKey = (): string => {
   return apiKey;
 };
 
-export interface GenerationResult {
-    url: string;
-    metadata?: any;
-    generationConfig?: GenerationMetadata;
-}
-
-// Cancellation options for generation functions
-export interface GenerationCallbacks {
-    signal?: AbortSignal;
-    onProgress?: (progress: number) => void;
-}
+// Token counts from a generateContent response
+const getTokenUsage = (usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number; totalTokenCount?: number }): Pick<GenerationUsage, 'inputTokens' | 'outputTokens' | 'totalTokens'> => ({
+  inputTokens: usageMetadata?.promptTokenCount,
+  outputTokens: usageMetadata ? (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0) : undefined,
+  totalTokens: usageMetadata?.totalTokenCount,
+});
 
 // Helper to check abort and throw if cancelled
 const checkAbort = (signal?: AbortSignal) => {
@@ -140,6 +135,16 @@ function pcmToWav(pcmData: Int16Array, sampleRate: number): ArrayBuffer {
   return buffer;
 }
 
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -155,6 +160,7 @@ function base64ToUint8Array(base64: string): Uint8Array {
  * Generates a short, descriptive title for the layer based on the prompt.
  */
 export const generateLayerTitle = async (prompt: string): Promise<string> => {
+  if (isMockMode()) return mockGenerateLayerTitle(prompt);
   try {
     const ai = getAiClient();
     const response = await ai.models.generateContent({
@@ -217,6 +223,7 @@ export const improvePrompt = async (
   prompt: string,
   attachments: Attachment[]
 ): Promise<string> => {
+  if (isMockMode()) return mockImprovePrompt(prompt);
   try {
     const ai = getAiClient();
     const parts: Part[] = [];
@@ -272,6 +279,7 @@ export const improvePrompt = async (
  * Generates audio speech from text.
  */
 export const generateSpeechContent = async (options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+    if (isMockMode()) return mockGenerateSpeech(options, callbacks);
     const { prompt, voice = 'Kore', creativity = 65 } = options;
     const { signal, onProgress } = callbacks || {};
 
@@ -312,18 +320,13 @@ export const generateSpeechContent = async (options: GenerateOptions, callbacks?
         const wavBuffer = pcmToWav(pcmInt16, 24000);
 
         // Convert WAV buffer back to base64 for storage/src
-        let binary = '';
-        const bytes = new Uint8Array(wavBuffer);
-        const len = bytes.byteLength;
-        for (let i = 0; i < len; i++) {
-            binary += String.fromCharCode(bytes[i]);
-        }
-        const wavBase64 = btoa(binary);
+        const wavBase64 = arrayBufferToBase64(wavBuffer);
 
         onProgress?.(100);
         return {
             url: `data:audio/wav;base64,${wavBase64}`,
-            generationConfig: { voice, creativity }
+            generationConfig: { voice, creativity },
+            usage: { model: ModelId.GEMINI_2_5_FLASH_TTS, mediaType: 'audio', ...getTokenUsage(response.usageMetadata) }
         };
 
     } catch (error) {
@@ -335,11 +338,22 @@ export const generateSpeechContent = async (options: GenerateOptions, callbacks?
     }
 };
 
+// The model has no mask parameter, so the mask is sent as the last image and explained in the prompt
+const buildInpaintPrompt = (prompt: string): string => [
+  'Edit the first image. The last image is a black and white mask of the same picture.',
+  'Change only the area that is white in the mask; keep everything in the black area exactly as it is.',
+  'Blend the edit seamlessly with its surroundings (lighting, perspective, grain) and keep the framing and aspect ratio of the first image.',
+  'Return the whole edited image, not the mask.',
+  '',
+  prompt
+].join('\n');
+
 /**
  * Generates an image based on a prompt and optional reference images.
  */
 export const generateImageContent = async (options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
-  const { prompt, model, referenceImages = [], aspectRatio = '1:1', creativity = 50, imageSize = '1K' } = options;
+  if (isMockMode()) return mockGenerateImage(options, callbacks);
+  const { prompt, model, referenceImages = [], maskImage, aspectRatio = '1:1', creativity = 50, imageSize = '1K' } = options;
   const { signal, onProgress } = callbacks || {};
 
   checkAbort(signal);
@@ -368,8 +382,13 @@ export const generateImageContent = async (options: GenerateOptions, callbacks?:
       });
     });
 
+    // Inpainting: the mask follows the references, and the prompt says how to use it
+    if (maskImage) {
+      parts.push({ inlineData: { mimeType: 'image/png', data: maskImage.split(',')[1] || maskImage } });
+    }
+
     // Use prompt directly - reference mapping already prepended by buildPromptWithReferences
-    parts.push({ text: prompt });
+    parts.push({ text: maskImage ? buildInpaintPrompt(prompt) : prompt });
 
     // Map creativity (0-100) to temperature
     const temperature = creativity / 100;
@@ -424,7 +443,8 @@ export const generateImageContent = async (options: GenerateOptions, callbacks?:
               aspectRatio,
               creativity,
               imageSize: model === ModelId.GEMINI_3_PRO_IMAGE ? imageSize : undefined
-          }
+          },
+          usage: { model, mediaType: 'image', imageSize: effectiveImageSize, ...getTokenUsage(response.usageMetadata) }
       };
     }
 
@@ -444,10 +464,77 @@ export const generateImageContent = async (options: GenerateOptions, callbacks?:
   }
 };
 
+const VIDEO_POLL_INTERVAL = 10000; // Poll every 10s
+const MAX_VIDEO_POLLS = 60; // 10 minute timeout (60 * 10s = 600s)
+
+const throwIfOperationFailed = (operation: GenerateVideosOperation) => {
+  if (operation.error) {
+    throw new Error(`Video generation failed: ${operation.error.message || JSON.stringify(operation.error)}`);
+  }
+};
+
+// Poll a Veo operation to completion and download the clip. elapsedPolls
+// carries progress over when resuming an operation started before a reload.
+const pollVideoOperation = async (
+  ai: GoogleGenAI,
+  operation: GenerateVideosOperation,
+  callbacks: GenerationCallbacks = {},
+  elapsedPolls = 0
+): Promise<{ url: string; video: any }> => {
+  const { signal, onProgress } = callbacks;
+  let pollCount = 0;
+  throwIfOperationFailed(operation);
+
+  while (!operation.done && pollCount < MAX_VIDEO_POLLS) {
+    // Check abort before polling
+    checkAbort(signal);
+
+    await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_INTERVAL));
+    pollCount++;
+
+    // Report progress: 10% start + up to 80% during polling
+    const pollProgress = 10 + Math.min(80, Math.floor(((elapsedPolls + pollCount) / MAX_VIDEO_POLLS) * 80));
+    onProgress?.(pollProgress);
+
+    checkAbort(signal);
+    operation = await ai.operations.getVideosOperation({operation: operation});
+    throwIfOperationFailed(operation);
+  }
+
+  if (pollCount >= MAX_VIDEO_POLLS && !operation.done) {
+    throw new Error("Video generation timed out after 10 minutes.");
+  }
+
+  onProgress?.(90);
+  const generatedVideo = operation.response?.generatedVideos?.[0];
+  const downloadLink = generatedVideo?.video?.uri;
+
+  if (!downloadLink) {
+    if (operation.response && (operation.response as any).error) {
+         throw new Error(`Video generation failed: ${(operation.response as any).error.message}`);
+    }
+    throw new Error("No video URI returned in response.");
+  }
+
+  // Fetch and Blob
+  checkAbort(signal);
+  onProgress?.(95);
+
+  const videoRes = await fetch(`${downloadLink}&key=${getApiKey()}`);
+  if (!videoRes.ok) {
+     throw new Error(`Failed to download video: ${videoRes.statusText}`);
+  }
+
+  checkAbort(signal);
+  const blob = await videoRes.blob();
+  return { url: URL.createObjectURL(blob), video: generatedVideo?.video };
+};
+
 /**
  * Generates a video based on a prompt and optional reference images using Veo.
  */
 export const generateVideoContent = async (options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  if (isMockMode()) return mockGenerateVideo(options, callbacks);
   const {
     prompt,
     model,
@@ -460,7 +547,7 @@ export const generateVideoContent = async (options: GenerateOptions, callbacks?:
     durationSeconds = "8",
     videoMode = 'standard'
   } = options;
-  const { signal, onProgress } = callbacks || {};
+  const { signal, onProgress, onPolling } = callbacks || {};
 
   checkAbort(signal);
 
@@ -562,58 +649,10 @@ export const generateVideoContent = async (options: GenerateOptions, callbacks?:
     checkAbort(signal);
     onProgress?.(10);
     let operation = await ai.models.generateVideos(veoParams);
+    onPolling?.(operation.name);
 
-    // 4. Poll for completion with progress tracking
-    const MAX_POLLS = 60; // 10 minute timeout (60 * 10s = 600s)
-    let pollCount = 0;
-
-    while (!operation.done && pollCount < MAX_POLLS) {
-      // Check abort before polling
-      checkAbort(signal);
-
-      await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10s
-      pollCount++;
-
-      // Report progress: 10% start + up to 80% during polling
-      const pollProgress = 10 + Math.floor((pollCount / MAX_POLLS) * 80);
-      onProgress?.(pollProgress);
-
-      checkAbort(signal);
-      operation = await ai.operations.getVideosOperation({operation: operation});
-
-      if (operation.error) {
-          throw new Error(`Video generation failed: ${operation.error.message || JSON.stringify(operation.error)}`);
-      }
-    }
-
-    if (pollCount >= MAX_POLLS && !operation.done) {
-      throw new Error("Video generation timed out after 10 minutes.");
-    }
-
-    onProgress?.(90);
-    const generatedVideo = operation.response?.generatedVideos?.[0];
-    const downloadLink = generatedVideo?.video?.uri;
-
-    if (!downloadLink) {
-      if (operation.response && (operation.response as any).error) {
-           throw new Error(`Video generation failed: ${(operation.response as any).error.message}`);
-      }
-      throw new Error("No video URI returned in response.");
-    }
-
-    // 5. Fetch and Blob
-    checkAbort(signal);
-    onProgress?.(95);
-
-    const videoRes = await fetch(`${downloadLink}&key=${getApiKey()}`);
-    if (!videoRes.ok) {
-       throw new Error(`Failed to download video: ${videoRes.statusText}`);
-    }
-
-    checkAbort(signal);
-    const blob = await videoRes.blob();
-    const url = URL.createObjectURL(blob);
-
+    // 4. Poll for completion, then fetch the clip
+    const { url, video: generatedVideo } = await pollVideoOperation(ai, operation, callbacks);
     // Capture metadata used
     const metadataResult: GenerationMetadata = {
         model: veoParams.model,
@@ -626,8 +665,9 @@ export const generateVideoContent = async (options: GenerateOptions, callbacks?:
     onProgress?.(100);
     return {
         url,
-        metadata: generatedVideo?.video,
-        generationConfig: metadataResult
+        metadata: generatedVideo,
+        generationConfig: metadataResult,
+        usage: { model: veoParams.model, mediaType: 'video', videoSeconds: parseInt(metadataResult.duration) || numericDuration }
     };
 
   } catch (error) {
@@ -638,3 +678,353 @@ export const generateVideoContent = async (options: GenerateOptions, callbacks?:
     throw error;
   }
 };
+
+/**
+ * Picks up a Veo operation started in an earlier session (e.g. before a page
+ * reload) and finishes it like generateVideoContent would. The settings used
+ * aren't known here, so the result carries no generationConfig.
+ */
+export const resumeVideoContent = async (operationId: string, startedAt: number, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  if (isMockOperation(operationId)) return mockResumeVideo(operationId, startedAt, callbacks);
+  const { signal, onPolling } = callbacks || {};
+
+  checkAbort(signal);
+  const ai = getAiClient();
+  onPolling?.(operationId);
+
+  try {
+    const pending = new GenerateVideosOperation();
+    pending.name = operationId;
+    const operation = await ai.operations.getVideosOperation({ operation: pending });
+    const { url, video } = await pollVideoOperation(ai, operation, callbacks, Math.floor((Date.now() - startedAt) / VIDEO_POLL_INTERVAL));
+
+    callbacks?.onProgress?.(100);
+    return { url, metadata: video };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    console.error("Gemini Video Resume Error:", error);
+    throw error;
+  }
+};
+
+// --- Mock Mode ---
+// Offline stand-ins for every call above, so the queue, placeholder and
+// history pipeline can be exercised without a key or network. Output is
+// deterministic per request. Simulated failures are off unless
+// GEMINI_MOCK_FAILURE_RATE (0-1) is set in .env.local.
+
+const MOCK_MODE_STORAGE_KEY = 'gencanvas_mock_generation';
+
+interface MockGenerationSettings {
+  failureRate: number;  // 0-1 chance that a request fails with a simulated API error
+  latencyScale: number; // Multiplier on simulated latencies (0 = instant)
+}
+
+const mockSettings: MockGenerationSettings = {
+  failureRate: Math.min(1, Math.max(0, parseFloat(process.env.MOCK_FAILURE_RATE || '') || 0)),
+  latencyScale: 1,
+};
+
+// Stored toggle wins; otherwise GEMINI_MOCK=true in .env.local turns it on
+export const isMockMode = (): boolean => {
+  try {
+    const stored = localStorage.getItem(MOCK_MODE_STORAGE_KEY);
+    if (stored !== null) return stored === 'true';
+  } catch {
+    // Storage unavailable - fall through to the build flag
+  }
+  return process.env.MOCK_GENERATION === 'true';
+};
+
+export const setMockMode = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(MOCK_MODE_STORAGE_KEY, String(enabled));
+  } catch (e) {
+    console.error('Failed to store mock mode:', e);
+  }
+};
+
+// Errors shaped like the SDK's, so callers see the same status codes and messages
+const MOCK_FAILURES: { status: number; statusText: string; code: string; message: string }[] = [
+  { status: 429, statusText: 'Too Many Requests', code: 'RESOURCE_EXHAUSTED', message: 'Resource has been exhausted (e.g. check quota).' },
+  { status: 503, statusText: 'Service Unavailable', code: 'UNAVAILABLE', message: 'The model is overloaded. Please try again later.' },
+  { status: 500, statusText: 'Internal Server Error', code: 'INTERNAL', message: 'An internal error has occurred.' },
+  { status: 400, statusText: 'Bad Request', code: 'INVALID_ARGUMENT', message: 'The request was blocked by safety filters.' },
+];
+
+const maybeFailMock = (): void => {
+  if (Math.random() >= mockSettings.failureRate) return;
+  const failure = MOCK_FAILURES[Math.floor(Math.random() * MOCK_FAILURES.length)];
+  const body = JSON.stringify({ error: { code: failure.status, message: `${failure.message} (mock)`, status: failure.code } });
+  throw new ApiError({ message: `got status: ${failure.status} ${failure.statusText}. ${body}`, status: failure.status });
+};
+
+// Resolves after the scaled delay; rejects as soon as the signal aborts
+const mockDelay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  checkAbort(signal);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Generation cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms * mockSettings.latencyScale);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// FNV-1a hash of the request, used as the seed for everything drawn
+const hashMockRequest = (...parts: unknown[]): number => {
+  const text = JSON.stringify(parts);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 - small seeded PRNG
+const createMockRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const MOCK_IMAGE_EDGES: Record<string, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+// Output size for an "W:H" ratio at roughly edge x edge pixels
+const getMockDimensions = (aspectRatio: string, edge: number): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const ratio = w > 0 && h > 0 ? w / h : 1;
+  return { width: Math.round(edge * Math.sqrt(ratio)), height: Math.round(edge / Math.sqrt(ratio)) };
+};
+
+// "Auto" follows the first reference image, like the real model
+const resolveMockAspectRatio = async (aspectRatio: string, referenceImages: string[]): Promise<string> => {
+  if (aspectRatio !== 'Auto') return aspectRatio;
+  if (referenceImages.length === 0) return '1:1';
+  const img = new Image();
+  img.src = referenceImages[0];
+  try {
+    await img.decode();
+    return `${img.naturalWidth}:${img.naturalHeight}`;
+  } catch {
+    return '1:1';
+  }
+};
+
+// Seeded gradient and shapes with the prompt written across, at any size
+const drawMockFrame = (ctx: CanvasRenderingContext2D, seed: number, prompt: string, caption: string, time = 0) => {
+  const { width, height } = ctx.canvas;
+  const random = createMockRandom(seed);
+  const hue = Math.floor(random() * 360);
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 28%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 12%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const unit = Math.min(width, height);
+  for (let i = 0; i < 6; i++) {
+    const x = random() * width + Math.sin(time * (0.5 + random())) * unit * 0.1;
+    const y = random() * height + Math.cos(time * (0.5 + random())) * unit * 0.1;
+    ctx.fillStyle = `hsla(${(hue + random() * 120) % 360}, 70%, 60%, 0.35)`;
+    ctx.beginPath();
+    ctx.arc(x, y, unit * (0.08 + random() * 0.2), 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `600 ${Math.round(unit * 0.06)}px sans-serif`;
+  ctx.fillText(prompt.length > 40 ? `${prompt.substring(0, 40)}…` : prompt || 'Untitled', width / 2, height / 2);
+  ctx.font = `${Math.round(unit * 0.035)}px monospace`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.fillText(caption, width / 2, height / 2 + unit * 0.08);
+};
+
+const mockGenerateLayerTitle = async (prompt: string): Promise<string> => {
+  await mockDelay(300);
+  return prompt.substring(0, 30);
+};
+
+const mockImprovePrompt = async (prompt: string): Promise<string> => {
+  await mockDelay(500);
+  return prompt;
+};
+
+const mockGenerateImage = async (options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  const { prompt, model, referenceImages = [], aspectRatio = '1:1', creativity = 50, imageSize = '1K' } = options;
+  const { signal, onProgress } = callbacks || {};
+
+  checkAbort(signal);
+  onProgress?.(10);
+  await mockDelay(600, signal);
+  maybeFailMock();
+  onProgress?.(30);
+  await mockDelay(1200, signal);
+
+  // Only Pro honours imageSize; Flash always returns 1K
+  const effectiveImageSize = model === ModelId.GEMINI_3_PRO_IMAGE ? imageSize : '1K';
+  const ratio = await resolveMockAspectRatio(aspectRatio, referenceImages);
+  const { width, height } = getMockDimensions(ratio, MOCK_IMAGE_EDGES[effectiveImageSize] || MOCK_IMAGE_EDGES['1K']);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  drawMockFrame(canvas.getContext('2d')!, hashMockRequest(prompt, model, aspectRatio, effectiveImageSize, creativity, referenceImages.length), prompt, `MOCK ${width}×${height}`);
+
+  checkAbort(signal);
+  onProgress?.(100);
+  return {
+    url: canvas.toDataURL('image/png'),
+    generationConfig: {
+      model,
+      aspectRatio,
+      creativity,
+      imageSize: model === ModelId.GEMINI_3_PRO_IMAGE ? imageSize : undefined
+    }
+  };
+};
+
+const MOCK_VIDEO_SECONDS = 2; // Recorded in real time, so kept short whatever the requested duration
+const MOCK_VIDEO_POLLS = 6;
+const MOCK_VIDEO_POLL_INTERVAL = 1000;
+
+// Record an animated canvas to a short webm clip
+const recordMockVideo = (width: number, height: number, draw: (ctx: CanvasRenderingContext2D, time: number) => void, signal?: AbortSignal): Promise<Blob> => new Promise((resolve, reject) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  if (typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+    reject(new Error('Mock video generation needs MediaRecorder support in this browser.'));
+    return;
+  }
+  const ctx = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: MediaRecorder.isTypeSupported('video/webm') ? 'video/webm' : undefined });
+  const chunks: Blob[] = [];
+  const start = performance.now();
+  draw(ctx, 0);
+  const frameTimer = setInterval(() => draw(ctx, (performance.now() - start) / 1000), 1000 / 30);
+  const onAbort = () => recorder.stop();
+
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.onstop = () => {
+    clearInterval(frameTimer);
+    clearTimeout(stopTimer);
+    signal?.removeEventListener('abort', onAbort);
+    if (signal?.aborted) reject(new DOMException('Generation cancelled', 'AbortError'));
+    else resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  recorder.start();
+  const stopTimer = setTimeout(() => recorder.stop(), MOCK_VIDEO_SECONDS * 1000);
+});
+
+const mockGenerateVideo = async (options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  const { prompt, model, aspectRatio = '16:9', resolution = '720p', inputVideoMetadata, durationSeconds = '8', videoMode = 'standard' } = options;
+  const { signal, onProgress, onPolling } = callbacks || {};
+
+  checkAbort(signal);
+  onProgress?.(5);
+  await mockDelay(400, signal);
+
+  // Same forced values as the real request builder
+  const forced = !!inputVideoMetadata || videoMode !== 'standard';
+  const metadataResult: GenerationMetadata = {
+    model: inputVideoMetadata || videoMode === 'references' ? ModelId.VEO_3_1_HIGH : model,
+    resolution: forced ? '720p' : resolution,
+    aspectRatio: inputVideoMetadata || videoMode === 'references' ? '16:9' : aspectRatio,
+    duration: forced ? '8' : String(parseInt(durationSeconds) || 8),
+    videoMode
+  };
+
+  // Submitting the operation can be rejected outright (quota, overload)
+  maybeFailMock();
+  onProgress?.(10);
+  // The operation ID encodes what to draw, so a reload can resume it
+  const operationId = `${MOCK_OPERATION_PREFIX}${encodeURIComponent(JSON.stringify({ prompt, aspectRatio: metadataResult.aspectRatio, resolution: metadataResult.resolution, duration: metadataResult.duration }))}`;
+  onPolling?.(operationId);
+
+  const result = await pollMockOperation(operationId, 0, callbacks);
+  return { ...result, generationConfig: metadataResult };
+};
+
+const MOCK_OPERATION_PREFIX = 'mock-operations/';
+
+/**
+ * Whether an operation ID came from mock mode (nothing was billed for it)
+ */
+export const isMockOperation = (operationId: string): boolean => operationId.startsWith(MOCK_OPERATION_PREFIX);
+
+// Simulated long-running operation, which can also fail mid-way
+const pollMockOperation = async (operationId: string, elapsedPolls: number, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  const { signal, onProgress } = callbacks || {};
+  const { prompt = '', aspectRatio = '16:9', resolution = '720p', duration = '8' } = JSON.parse(decodeURIComponent(operationId.slice(MOCK_OPERATION_PREFIX.length)));
+
+  for (let pollCount = elapsedPolls + 1; pollCount <= MOCK_VIDEO_POLLS; pollCount++) {
+    await mockDelay(MOCK_VIDEO_POLL_INTERVAL, signal);
+    onProgress?.(10 + Math.floor((pollCount / MOCK_VIDEO_POLLS) * 80));
+    if (Math.random() < mockSettings.failureRate / MOCK_VIDEO_POLLS) {
+      throw new Error('Video generation failed: The operation was aborted by the server (mock).');
+    }
+  }
+
+  onProgress?.(90);
+  const seed = hashMockRequest(operationId);
+  const edge = resolution === '1080p' ? 1080 : 720;
+  const [w, h] = aspectRatio === '9:16' ? [edge, Math.round(edge * 16 / 9)] : [Math.round(edge * 16 / 9), edge];
+  const caption = `MOCK ${duration}s ${resolution}`;
+  const blob = await recordMockVideo(w, h, (ctx, time) => drawMockFrame(ctx, seed, prompt, caption, time), signal);
+
+  checkAbort(signal);
+  onProgress?.(100);
+  return {
+    url: URL.createObjectURL(blob),
+    metadata: { uri: `mock://veo/${seed.toString(16)}`, mimeType: blob.type }
+  };
+};
+
+const mockResumeVideo = async (operationId: string, startedAt: number, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  checkAbort(callbacks?.signal);
+  callbacks?.onPolling?.(operationId);
+  const elapsedPolls = Math.floor((Date.now() - startedAt) / (MOCK_VIDEO_POLL_INTERVAL * mockSettings.latencyScale || 1));
+  return pollMockOperation(operationId, Math.min(elapsedPolls, MOCK_VIDEO_POLLS), callbacks);
+};
+
+const MOCK_SAMPLE_RATE = 24000; // Matches the TTS model's PCM output
+
+const mockGenerateSpeech = async (options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> => {
+  const { prompt, voice = 'Kore', creativity = 65 } = options;
+  const { signal, onProgress } = callbacks || {};
+
+  checkAbort(signal);
+  onProgress?.(10);
+  await mockDelay(800, signal);
+  maybeFailMock();
+  onProgress?.(80);
+
+  // A tone per voice, lasting roughly as long as the text would take to read
+  const random = createMockRandom(hashMockRequest(prompt, voice, creativity));
+  const frequency = 220 + Math.floor(random() * 440);
+  const seconds = Math.min(6, Math.max(1, prompt.length * 0.06));
+  const pcm = new Int16Array(Math.floor(seconds * MOCK_SAMPLE_RATE));
+  const fade = MOCK_SAMPLE_RATE * 0.05;
+  for (let i = 0; i < pcm.length; i++) {
+    const envelope = Math.min(1, i / fade, (pcm.length - i) / fade);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / MOCK_SAMPLE_RATE) * envelope * 0.3 * 32767);
+  }
+  const wavBase64 = arrayBufferToBase64(pcmToWav(pcm, MOCK_SAMPLE_RATE));
+
+  checkAbort(signal);
+  onProgress?.(100);
+  return {
+    url: `data:audio/wav;base64,${wavBase64}`,
+    generationConfig: { voice, creativity }
+  };
+};
@@ -0,0 +1,105 @@
+/**
+ * Generation Errors - Failure taxonomy with retry policies
+ *
+ * Providers throw whatever their SDK throws (API errors with a status code,
+ * fetch failures, plain messages from response validation). This sorts them
+ * into a few kinds. Each kind says whether the queue should retry on its own
+ * and how, and what the user can change when it gives up.
+ */
+
+import { GenerationErrorKind, LayerData } from '../types';
+
+export interface RetryPolicy {
+  maxRetries: number; // Automatic retries before the failure reaches the layer
+  baseDelayMs: number; // Doubles per attempt, with jitter
+  holdModel?: boolean; // Other requests for the model wait out the same delay
+}
+
+export interface GenerationErrorInfo {
+  label: string;
+  suggestion: string;
+  retry: RetryPolicy;
+}
+
+export const GENERATION_ERROR_INFO: Record<GenerationErrorKind, GenerationErrorInfo> = {
+  safety: {
+    label: 'Blocked by safety filters',
+    suggestion: 'Rephrase the prompt or swap the reference images. Sending the same request again will most likely be blocked again.',
+    retry: { maxRetries: 0, baseDelayMs: 0 },
+  },
+  quota: {
+    label: 'Rate limited',
+    suggestion: 'The model is busy or your quota ran out. Wait a minute, generate fewer images at once, or try another model.',
+    retry: { maxRetries: 4, baseDelayMs: 2000, holdModel: true },
+  },
+  truncated: {
+    label: 'Incomplete response',
+    suggestion: 'The result came back cut off or empty. Retrying usually works; a smaller output size helps.',
+    retry: { maxRetries: 2, baseDelayMs: 1000 },
+  },
+  timeout: {
+    label: 'Timed out',
+    suggestion: 'The model took too long. Retry, or pick a faster model, a lower resolution or a shorter clip.',
+    retry: { maxRetries: 1, baseDelayMs: 5000 },
+  },
+  network: {
+    label: 'Connection problem',
+    suggestion: 'The request didn\'t get through. Check your connection, then retry.',
+    retry: { maxRetries: 3, baseDelayMs: 2000 },
+  },
+  'invalid-params': {
+    label: 'Request rejected',
+    suggestion: 'The model doesn\'t accept these settings. Change the aspect ratio, size or number of references, try another model, or check your API key.',
+    retry: { maxRetries: 0, baseDelayMs: 0 },
+  },
+  unknown: {
+    label: 'Generation failed',
+    suggestion: 'Retry, or try a different model.',
+    retry: { maxRetries: 0, baseDelayMs: 0 },
+  },
+};
+
+// Failures that can come after a long-running operation was accepted, and billed:
+// only its polling or download went wrong, so submitting again pays twice
+const AFTER_SUBMIT_KINDS: GenerationErrorKind[] = ['timeout', 'truncated', 'network'];
+
+/**
+ * How the queue handles a failure. Long-running operations (video, resumed
+ * jobs) aren't retried automatically on failures that can follow submission.
+ */
+export function getRetryPolicy(kind: GenerationErrorKind, longRunning: boolean): RetryPolicy {
+  const { retry } = GENERATION_ERROR_INFO[kind];
+  return longRunning && AFTER_SUBMIT_KINDS.includes(kind) ? { ...retry, maxRetries: 0 } : retry;
+}
+
+// Checked in order: the first match wins
+const MESSAGE_PATTERNS: [GenerationErrorKind, RegExp][] = [
+  ['safety', /safety|blocked|PROHIBITED_CONTENT|RECITATION|responsible AI|text instead of image/i],
+  ['quota', /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|quota|overloaded|rate limit/i],
+  ['timeout', /timed out|timeout|DEADLINE_EXCEEDED|\b504\b/i],
+  ['truncated', /truncated|No image data|No candidates|No audio data|No video URI|Invalid base64/i],
+  ['network', /Failed to fetch|NetworkError|network|Failed to download|\b(500|502)\b|INTERNAL/i],
+  ['invalid-params', /\b(400|401|403|404)\b|INVALID_ARGUMENT|PERMISSION_DENIED|API key|not supported|doesn't support|requires|not available|can't generate/i],
+];
+
+export function classifyGenerationError(error: any): GenerationErrorKind {
+  const status: number | undefined = error?.status;
+  const message: string = error?.message || String(error ?? '');
+  // Message first: a 400 can still be a safety block
+  for (const [kind, pattern] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return kind;
+  }
+  if (status === 429 || status === 503) return 'quota';
+  if (status === 504) return 'timeout';
+  if (status !== undefined && status >= 500) return 'network';
+  if (status !== undefined && status >= 400) return 'invalid-params';
+  if (error instanceof TypeError) return 'network'; // fetch rejects with TypeError when offline
+  return 'unknown';
+}
+
+/**
+ * The fields a failed placeholder stores
+ */
+export function getLayerError(error: any, fallbackMessage: string = 'Generation failed'): Pick<LayerData, 'error' | 'errorKind'> {
+  return { error: error?.message || fallbackMessage, errorKind: classifyGenerationError(error) };
+}
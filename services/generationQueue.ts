@@ -0,0 +1,225 @@
+/**
+ * Generation Queue - Scheduler in front of the provider registry
+ *
+ * Every request waits its turn behind others for the same model: each model
+ * runs at most maxConcurrent requests (from its capability descriptor). A
+ * failure the error's retry policy allows (rate limits, truncated responses,
+ * network drops...) sends the job back to the queue with exponential backoff
+ * and jitter; rate limits also hold the whole model until the delay passes.
+ * Video operations are paid for once accepted: after that a retry picks the
+ * same operation up again instead of submitting a new one (and some failures
+ * aren't retried at all, see getRetryPolicy).
+ * The queue can be paused and single jobs moved to the front;
+ * subscribers get a snapshot on every change so placeholders can show their
+ * real status and position.
+ */
+
+import { GenerateOptions, GenerationCallbacks, GenerationErrorKind, GenerationModelId, GenerationResult, GenerationStatus } from '../types';
+import { generateContent, getModel, resumeGeneration } from './providerRegistry';
+import { classifyGenerationError, GENERATION_ERROR_INFO, getRetryPolicy } from './generationErrors';
+
+export type QueuedJobStatus = Extract<GenerationStatus, 'queued' | 'generating' | 'polling'>;
+
+export interface QueuedJobState {
+  id: string;
+  model: GenerationModelId;
+  status: QueuedJobStatus;
+  position?: number; // 1-based place in line for its model, while queued
+  retryAt?: number; // Backing off after a failure until this time
+  retryKind?: GenerationErrorKind; // The failure being retried
+  attempt: number; // Automatic retries so far
+}
+
+export interface QueueSnapshot {
+  paused: boolean;
+  jobs: QueuedJobState[];
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const BACKOFF_MAX_MS = 60000;
+
+interface Job extends QueuedJobState {
+  longRunning: boolean; // A video operation, submitted or resumed
+  submitted?: { operationId?: string; startedAt: number }; // Accepted by the provider, which is now polled
+  run: (callbacks: GenerationCallbacks) => Promise<GenerationResult>;
+  callbacks: GenerationCallbacks;
+  resolve: (result: GenerationResult) => void;
+  reject: (error: unknown) => void;
+}
+
+// Pending and running jobs, in priority order
+const jobs: Job[] = [];
+// Models held back after a rate limit, until the stored time
+const cooldowns = new Map<GenerationModelId, number>();
+const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+let paused = false;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Exponential backoff with equal jitter: half fixed, half random
+const getBackoffDelay = (baseDelayMs: number, attempt: number): number => {
+  const ceiling = Math.min(BACKOFF_MAX_MS, baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+const getConcurrencyLimit = (model: GenerationModelId): number =>
+  getModel(model)?.capabilities.maxConcurrent ?? DEFAULT_CONCURRENCY;
+
+const countRunning = (model: GenerationModelId): number =>
+  jobs.filter(j => j.model === model && j.status !== 'queued').length;
+
+export function getQueueSnapshot(): QueueSnapshot {
+  const positions = new Map<GenerationModelId, number>();
+  return {
+    paused,
+    jobs: jobs.map(({ id, model, status, retryAt, retryKind, attempt }) => {
+      if (status !== 'queued') return { id, model, status, attempt };
+      const position = (positions.get(model) ?? 0) + 1;
+      positions.set(model, position);
+      return { id, model, status, position, retryAt, retryKind, attempt };
+    }),
+  };
+}
+
+const emit = () => {
+  const snapshot = getQueueSnapshot();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const removeJob = (job: Job) => {
+  const index = jobs.indexOf(job);
+  if (index !== -1) jobs.splice(index, 1);
+};
+
+// Start every job whose model has a free slot, then sleep until the next backoff ends
+const pump = () => {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  if (!paused) {
+    const now = Date.now();
+    let nextWake = Infinity;
+    for (const job of jobs) {
+      if (job.status !== 'queued') continue;
+      const readyAt = Math.max(job.retryAt ?? 0, cooldowns.get(job.model) ?? 0);
+      if (readyAt > now) {
+        nextWake = Math.min(nextWake, readyAt);
+        continue;
+      }
+      if (countRunning(job.model) < getConcurrencyLimit(job.model)) startJob(job);
+    }
+    if (nextWake !== Infinity) wakeTimer = setTimeout(pump, nextWake - now);
+  }
+  emit();
+};
+
+const startJob = (job: Job) => {
+  job.status = 'generating';
+  job.retryAt = undefined;
+  job.retryKind = undefined;
+  const { signal, onProgress, onPolling } = job.callbacks;
+
+  job.run({
+    signal,
+    onProgress,
+    onPolling: (operationId) => {
+      job.status = 'polling';
+      job.submitted = { operationId: operationId ?? job.submitted?.operationId, startedAt: job.submitted?.startedAt ?? Date.now() };
+      onPolling?.(operationId);
+      emit();
+    },
+  }).then(result => {
+    removeJob(job);
+    job.resolve(result);
+    pump();
+  }).catch(error => {
+    const kind = error?.name === 'AbortError' ? null : classifyGenerationError(error);
+    const policy = kind ? getRetryPolicy(kind, job.longRunning) : null;
+    // Running it again would pay for a second operation; without an ID to resume there is nothing to retry
+    const { submitted } = job;
+    const canRetry = !submitted || !!submitted.operationId;
+    if (kind && policy && canRetry && job.attempt < policy.maxRetries) {
+      if (submitted?.operationId) {
+        const { operationId, startedAt } = submitted;
+        job.run = jobCallbacks => resumeGeneration(job.model, operationId, startedAt, jobCallbacks);
+      }
+      // Back to the queue; after a rate limit the model waits out the same delay so siblings don't pile on
+      const retryAt = Date.now() + getBackoffDelay(policy.baseDelayMs, job.attempt);
+      console.warn(`${GENERATION_ERROR_INFO[kind].label} on ${job.model}, retrying in ${Math.round((retryAt - Date.now()) / 1000)}s`, error);
+      job.attempt++;
+      job.status = 'queued';
+      job.retryAt = retryAt;
+      job.retryKind = kind;
+      if (policy.holdModel) cooldowns.set(job.model, Math.max(cooldowns.get(job.model) ?? 0, retryAt));
+    } else {
+      removeJob(job);
+      job.reject(error);
+    }
+    pump();
+  });
+};
+
+const addJob = (id: string, model: GenerationModelId, longRunning: boolean, run: Job['run'], callbacks: GenerationCallbacks): Promise<GenerationResult> => {
+  return new Promise((resolve, reject) => {
+    if (callbacks.signal?.aborted) {
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+      return;
+    }
+    const job: Job = { id, model, longRunning, status: 'queued', attempt: 0, run, callbacks, resolve, reject };
+    jobs.push(job);
+
+    callbacks.signal?.addEventListener('abort', () => {
+      // Running jobs are cancelled by the provider itself
+      if (job.status !== 'queued' || !jobs.includes(job)) return;
+      removeJob(job);
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+      pump();
+    }, { once: true });
+
+    pump();
+  });
+};
+
+/**
+ * Queue a request and resolve with its result once a slot frees up and it
+ * completes. The ID is the caller's handle for prioritizing (the placeholder
+ * layer ID in the app). Aborting the signal drops a waiting job immediately.
+ */
+export function enqueueGeneration(id: string, options: GenerateOptions, callbacks: GenerationCallbacks = {}): Promise<GenerationResult> {
+  return addJob(id, options.model, options.mediaType === 'video', jobCallbacks => generateContent(options, jobCallbacks), callbacks);
+}
+
+/**
+ * Queue the resumption of an operation from an earlier session; it holds a
+ * slot for its model like any running request.
+ */
+export function enqueueResume(id: string, model: GenerationModelId, operationId: string, startedAt: number, callbacks: GenerationCallbacks = {}): Promise<GenerationResult> {
+  return addJob(id, model, true, jobCallbacks => resumeGeneration(model, operationId, startedAt, jobCallbacks), callbacks);
+}
+
+/**
+ * Move a waiting job ahead of everything else queued
+ */
+export function prioritizeGeneration(id: string): void {
+  const job = jobs.find(j => j.id === id);
+  if (!job || job.status !== 'queued') return;
+  removeJob(job);
+  jobs.unshift(job);
+  pump();
+}
+
+/**
+ * Stop starting new jobs (running ones finish), or resume
+ */
+export function setQueuePaused(value: boolean): void {
+  paused = value;
+  pump();
+}
+
+export function subscribeToQueue(listener: (snapshot: QueueSnapshot) => void): () => void {
+  listeners.add(listener);
+  listener(getQueueSnapshot());
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Inpainting - Masked edits and blending them back into the original
+ *
+ * Inpainting: the mask brush records strokes in layer coordinates. They are
+ * rendered at the image's own resolution as a black mask with the region to
+ * change in white. Outpainting: the image is placed on a larger transparent
+ * canvas and the new border is the white region.
+ *
+ * Either way the mask goes to the model alongside the image. The model
+ * returns a whole new picture, so its output is cut back to the mask and
+ * laid over the original: pixels outside the mask come out as they were.
+ */
+
+import { MaskedEdit } from '../types';
+
+export interface MaskStroke {
+  points: { x: number; y: number }[]; // Layer coordinates, as displayed (before flips are undone)
+  size: number; // Brush diameter in layer pixels
+  erase?: boolean; // Removes paint instead of adding it
+}
+
+export interface OutpaintBounds {
+  x: number; // Layer coordinates; negative values reach past the layer's left/top edge
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Soft edge along the mask boundary so the edit fades into the kept pixels
+const FEATHER_RATIO = 0.01; // Of the image's longer side
+const MIN_FEATHER = 2;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for inpainting'));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return [canvas, ctx];
+};
+
+export async function getNaturalSize(src: string): Promise<{ width: number; height: number }> {
+  const img = await loadImage(src);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+}
+
+// Where the image sits inside its layer: shown object-contain, so it may be letterboxed
+const getImageFit = (layer: { width: number; height: number }, width: number, height: number) => {
+  const fit = Math.min(layer.width / width, layer.height / height);
+  return { fit, offsetX: (layer.width - width * fit) / 2, offsetY: (layer.height - height * fit) / 2 };
+};
+
+/**
+ * Map strokes drawn on a layer onto the pixels of the image it shows (width x height),
+ * undoing the object-contain fit and any flips
+ */
+export function toImageStrokes<T extends { points: { x: number; y: number }[]; size: number }>(strokes: T[], layer: { width: number; height: number; flipX?: boolean; flipY?: boolean }, width: number, height: number): T[] {
+  const { fit, offsetX, offsetY } = getImageFit(layer, width, height);
+  const toImage = (point: { x: number; y: number }) => {
+    const x = (point.x - offsetX) / fit;
+    const y = (point.y - offsetY) / fit;
+    return { x: layer.flipX ? width - x : x, y: layer.flipY ? height - y : y };
+  };
+  return strokes.map(stroke => ({ ...stroke, points: stroke.points.map(toImage), size: stroke.size / fit }));
+}
+
+/**
+ * Draw strokes onto a context. Used both for the on-canvas overlay and the exported mask.
+ */
+export function paintMaskStrokes(ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color: string): void {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  for (const stroke of strokes) {
+    ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+    if (stroke.points.length === 1) {
+      // A click without a drag still paints a dot
+      ctx.beginPath();
+      ctx.arc(stroke.points[0].x, stroke.points[0].y, stroke.size / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    ctx.beginPath();
+    ctx.lineWidth = stroke.size;
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    for (let i = 1; i < stroke.points.length; i++) ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Whether the strokes leave any painted area (erasing everything counts as empty)
+ */
+export function hasMaskedArea(strokes: MaskStroke[], width: number, height: number): boolean {
+  if (!strokes.some(s => !s.erase)) return false;
+  const [, ctx] = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  paintMaskStrokes(ctx, strokes, '#fff');
+  const { data } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Render the strokes as a black and white PNG at the image's native size.
+ * The layer shows the image object-contain and possibly flipped; both are undone here.
+ */
+export async function renderMaskImage(strokes: MaskStroke[], layer: { width: number; height: number; flipX?: boolean; flipY?: boolean }, imageSrc: string): Promise<string> {
+  const img = await loadImage(imageSrc);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  // Paint on a transparent layer first so eraser strokes don't punch through the black
+  const [paint, paintCtx] = createCanvas(width, height);
+  paintMaskStrokes(paintCtx, toImageStrokes(strokes, layer, width, height), '#fff');
+
+  ctx.drawImage(paint, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * The image on a canvas grown to the bounds, at the image's native scale, with
+ * a mask of the new border. Bounds are in layer coordinates as displayed; a
+ * flipped layer grows on the mirrored side of the stored image.
+ */
+export async function renderOutpaintCanvas(imageSrc: string, layer: { width: number; height: number; flipX?: boolean; flipY?: boolean }, bounds: OutpaintBounds): Promise<{ image: string; mask: string }> {
+  const img = await loadImage(imageSrc);
+  const { fit, offsetX, offsetY } = getImageFit(layer, img.naturalWidth, img.naturalHeight);
+  const boundsX = layer.flipX ? layer.width - (bounds.x + bounds.width) : bounds.x;
+  const boundsY = layer.flipY ? layer.height - (bounds.y + bounds.height) : bounds.y;
+  const width = Math.round(bounds.width / fit);
+  const height = Math.round(bounds.height / fit);
+  const imageX = Math.round((offsetX - boundsX) / fit);
+  const imageY = Math.round((offsetY - boundsY) / fit);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, imageX, imageY);
+
+  const [maskCanvas, maskCtx] = createCanvas(width, height);
+  maskCtx.fillStyle = '#fff';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000';
+  maskCtx.fillRect(imageX, imageY, img.naturalWidth, img.naturalHeight);
+
+  return { image: canvas.toDataURL('image/png'), mask: maskCanvas.toDataURL('image/png') };
+}
+
+/**
+ * Lay the model's result over the original through the mask, at the original's size.
+ * The seam feathers to one side of the mask edge: 'inside' leaves everything
+ * outside the mask untouched (inpainting); 'outside' crossfades a thin band of
+ * the original into the generated border so the join doesn't show (outpainting).
+ */
+export async function blendMaskedResult(originalSrc: string, resultSrc: string, maskSrc: string, seam: MaskedEdit['seam']): Promise<string> {
+  const [original, result, mask] = await Promise.all([loadImage(originalSrc), loadImage(resultSrc), loadImage(maskSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  const feather = Math.max(MIN_FEATHER, Math.round(Math.max(width, height) * FEATHER_RATIO));
+
+  const [, hardCtx] = createCanvas(width, height);
+  hardCtx.drawImage(mask, 0, 0, width, height);
+  const hard = hardCtx.getImageData(0, 0, width, height).data;
+
+  const [, softCtx] = createCanvas(width, height);
+  softCtx.filter = `blur(${feather}px)`;
+  softCtx.drawImage(mask, 0, 0, width, height);
+  const soft = softCtx.getImageData(0, 0, width, height).data;
+
+  // The model may answer at another size or ratio; it is stretched onto the original's frame
+  const [edit, editCtx] = createCanvas(width, height);
+  editCtx.drawImage(result, 0, 0, width, height);
+  const editData = editCtx.getImageData(0, 0, width, height);
+  const pixels = editData.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    // Red channel; the mask is greyscale
+    const coverage = seam === 'inside' ? Math.min(hard[i], soft[i]) : Math.max(hard[i], soft[i]);
+    pixels[i + 3] = Math.round(pixels[i + 3] * coverage / 255);
+  }
+  editCtx.putImageData(editData, 0, 0);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(edit, 0, 0);
+  return canvas.toDataURL('image/png');
+}
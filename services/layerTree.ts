@@ -0,0 +1,173 @@
+/**
+ * Layer Tree - Group hierarchy helpers
+ *
+ * Layers form a tree through LayerData.parentId (a parent is always a group).
+ * The layer array stays flat; these helpers answer subtree questions on it and
+ * keep the hierarchy free of cycles.
+ */
+
+import { LayerData } from '../types';
+import { getLayerBounds } from './transformService';
+
+// Padding kept between a group frame and its outermost children when fitting
+export const GROUP_FIT_PADDING = 40;
+
+const buildChildIndex = (layers: LayerData[]) => {
+  const children = new Map<string, LayerData[]>();
+  for (const layer of layers) {
+    if (!layer.parentId) continue;
+    const siblings = children.get(layer.parentId);
+    if (siblings) siblings.push(layer); else children.set(layer.parentId, [layer]);
+  }
+  return children;
+};
+
+/**
+ * IDs of the given roots plus every layer nested below them
+ */
+export function collectSubtreeIds(layers: LayerData[], rootIds: Iterable<string>): Set<string> {
+  const children = buildChildIndex(layers);
+  const result = new Set<string>();
+  const stack = [...rootIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (result.has(id)) continue; // Guards against cycles in corrupt data
+    result.add(id);
+    for (const child of children.get(id) || []) stack.push(child.id);
+  }
+  return result;
+}
+
+/**
+ * Drop IDs whose ancestor is also in the set - those move or copy with their ancestor
+ */
+export function getTopmostIds(layers: LayerData[], ids: Iterable<string>): string[] {
+  const idSet = new Set(ids);
+  const byId = new Map(layers.map(l => [l.id, l]));
+  return [...idSet].filter(id => {
+    const seen = new Set<string>();
+    let parentId = byId.get(id)?.parentId;
+    while (parentId && !seen.has(parentId)) {
+      if (idSet.has(parentId)) return false;
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+    return true;
+  });
+}
+
+/**
+ * Nesting depth of a layer (0 = top level)
+ */
+export function getDepth(layers: LayerData[], id: string): number {
+  const byId = new Map(layers.map(l => [l.id, l]));
+  const seen = new Set<string>();
+  let depth = 0;
+  let parentId = byId.get(id)?.parentId;
+  while (parentId && !seen.has(parentId)) {
+    seen.add(parentId);
+    depth++;
+    parentId = byId.get(parentId)?.parentId;
+  }
+  return depth;
+}
+
+/**
+ * Innermost group whose bounds contain the layer's center, excluding the
+ * layer's own subtree. Returns undefined for the top level.
+ */
+export function findDropParentId(layers: LayerData[], layer: LayerData): string | undefined {
+  const excluded = collectSubtreeIds(layers, [layer.id]);
+  const cx = layer.x + layer.width / 2;
+  const cy = layer.y + layer.height / 2;
+  let best: LayerData | undefined;
+  for (const candidate of layers) {
+    if (candidate.type !== 'group' || excluded.has(candidate.id)) continue;
+    if (cx < candidate.x || cx > candidate.x + candidate.width || cy < candidate.y || cy > candidate.y + candidate.height) continue;
+    if (!best || candidate.width * candidate.height < best.width * best.height) best = candidate;
+  }
+  return best?.id;
+}
+
+/**
+ * Copy layers with their whole subtrees. Copies get fresh IDs, internal
+ * parent links are remapped, and roots keep their original parent.
+ */
+export function duplicateSubtrees(layers: LayerData[], rootIds: string[], offset: number = 20): { copies: LayerData[]; rootCopyIds: string[] } {
+  const topmost = getTopmostIds(layers, rootIds);
+  const subtree = collectSubtreeIds(layers, topmost);
+  const idMap = new Map<string, string>();
+  for (const id of subtree) idMap.set(id, crypto.randomUUID());
+
+  const now = Date.now();
+  const topmostSet = new Set(topmost);
+  // Preserve array order so stacking inside the copy matches the original
+  const copies = layers.filter(l => subtree.has(l.id)).map(layer => ({
+    ...layer,
+    id: idMap.get(layer.id)!,
+    parentId: layer.parentId && idMap.has(layer.parentId) ? idMap.get(layer.parentId) : layer.parentId,
+    x: layer.x + offset,
+    y: layer.y + offset,
+    title: topmostSet.has(layer.id) ? `${layer.title} (Copy)` : layer.title,
+    createdAt: now,
+  }));
+  return { copies, rootCopyIds: topmost.map(id => idMap.get(id)!) };
+}
+
+// Rotated or skewed children count with the box they cover on the canvas
+const getChildBounds = (children: LayerData[]) => {
+  const bounds = children.map(getLayerBounds);
+  return {
+    left: Math.min(...bounds.map(b => b.x)),
+    top: Math.min(...bounds.map(b => b.y)),
+    right: Math.max(...bounds.map(b => b.x + b.width)),
+    bottom: Math.max(...bounds.map(b => b.y + b.height)),
+  };
+};
+
+/**
+ * Resize a group so it wraps its direct children with padding. Groups without children are left alone.
+ */
+export function fitGroupToChildren(layers: LayerData[], groupId: string, padding: number = GROUP_FIT_PADDING): LayerData[] {
+  const children = layers.filter(l => l.parentId === groupId);
+  if (children.length === 0) return layers;
+  const { left, top, right, bottom } = getChildBounds(children);
+  return layers.map(l => l.id === groupId
+    ? { ...l, x: left - padding, y: top - padding, width: right - left + padding * 2, height: bottom - top + padding * 2 }
+    : l);
+}
+
+/**
+ * Grow the ancestors of the given layers (innermost first) just enough to
+ * contain their children. Never shrinks a frame the user sized by hand.
+ */
+export function growAncestorsToFit(layers: LayerData[], ids: Iterable<string>, padding: number = GROUP_FIT_PADDING): LayerData[] {
+  let result = layers;
+  const byId = new Map(layers.map(l => [l.id, l]));
+  // Collect ancestor chains, deepest groups first so growth propagates upwards
+  const ancestors: string[] = [];
+  for (const id of ids) {
+    const seen = new Set<string>();
+    let parentId = byId.get(id)?.parentId;
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      if (!ancestors.includes(parentId)) ancestors.push(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+  }
+  ancestors.sort((a, b) => getDepth(layers, b) - getDepth(layers, a));
+
+  for (const groupId of ancestors) {
+    const group = result.find(l => l.id === groupId);
+    const children = result.filter(l => l.parentId === groupId);
+    if (!group || children.length === 0) continue;
+    const bounds = getChildBounds(children);
+    const left = Math.min(group.x, bounds.left - padding);
+    const top = Math.min(group.y, bounds.top - padding);
+    const right = Math.max(group.x + group.width, bounds.right + padding);
+    const bottom = Math.max(group.y + group.height, bounds.bottom + padding);
+    if (left === group.x && top === group.y && right === group.x + group.width && bottom === group.y + group.height) continue;
+    result = result.map(l => l.id === groupId ? { ...l, x: left, y: top, width: right - left, height: bottom - top } : l);
+  }
+  return result;
+}
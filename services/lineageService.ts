@@ -0,0 +1,102 @@
+/**
+ * Lineage - Generation provenance between layers
+ *
+ * A generated layer records the layers it was made from in
+ * LayerData.sourceLayerIds (the layer that was edited plus any canvas layers
+ * used as references). Derived layers are found by scanning for the reverse
+ * link, so deleting a layer never leaves dangling child lists behind.
+ */
+
+import { Attachment, LayerData } from '../types';
+
+export interface LineageEdge {
+  fromId: string; // Source layer
+  toId: string;   // Layer generated from it
+}
+
+export interface LineageNode {
+  layer: LayerData;
+  next: LineageNode[]; // Sources or derived layers, depending on the walk direction
+}
+
+export type LineageDirection = 'sources' | 'derived';
+
+// Deep chains are cut off in the sidebar tree rather than rendered endlessly
+const MAX_TREE_DEPTH = 12;
+
+/**
+ * Unique source layer IDs for a generation: explicit IDs first, then the layers attachments came from
+ */
+export function collectSourceLayerIds(attachments: Attachment[], ...layerIds: (string | undefined)[]): string[] {
+  const ids = [...layerIds, ...attachments.map(a => a.sourceLayerId)].filter((id): id is string => !!id);
+  return [...new Set(ids)];
+}
+
+/**
+ * Source → derived connections where both layers still exist
+ */
+export function getLineageEdges(layers: LayerData[]): LineageEdge[] {
+  const ids = new Set(layers.map(l => l.id));
+  const edges: LineageEdge[] = [];
+  for (const layer of layers) {
+    for (const sourceId of layer.sourceLayerIds || []) {
+      if (sourceId !== layer.id && ids.has(sourceId)) edges.push({ fromId: sourceId, toId: layer.id });
+    }
+  }
+  return edges;
+}
+
+export function getSourceLayers(layers: LayerData[], layer: LayerData): LayerData[] {
+  return (layer.sourceLayerIds || []).map(id => layers.find(l => l.id === id)).filter((l): l is LayerData => !!l);
+}
+
+export function getDerivedLayers(layers: LayerData[], id: string): LayerData[] {
+  return layers.filter(l => l.id !== id && l.sourceLayerIds?.includes(id));
+}
+
+/**
+ * Walk the lineage from a layer towards its sources or its derived layers.
+ * Each layer appears once; later encounters are pruned to keep the tree finite.
+ */
+export function buildLineageTree(layers: LayerData[], id: string, direction: LineageDirection): LineageNode[] {
+  const root = layers.find(l => l.id === id);
+  if (!root) return [];
+  const visited = new Set<string>([id]);
+
+  const walk = (layer: LayerData, depth: number): LineageNode[] => {
+    if (depth >= MAX_TREE_DEPTH) return [];
+    const next = direction === 'sources' ? getSourceLayers(layers, layer) : getDerivedLayers(layers, layer.id);
+    const nodes: LineageNode[] = [];
+    for (const candidate of next) {
+      if (visited.has(candidate.id)) continue;
+      visited.add(candidate.id);
+      nodes.push({ layer: candidate, next: walk(candidate, depth + 1) });
+    }
+    return nodes;
+  };
+
+  return walk(root, 0);
+}
+
+// Point where the ray from a box center towards (tx, ty) leaves the box
+const clipToBox = (layer: LayerData, tx: number, ty: number) => {
+  const cx = layer.x + layer.width / 2;
+  const cy = layer.y + layer.height / 2;
+  const dx = tx - cx;
+  const dy = ty - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+  const t = Math.min(
+    dx !== 0 ? (layer.width / 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (layer.height / 2) / Math.abs(dy) : Infinity
+  );
+  return { x: cx + dx * Math.min(t, 1), y: cy + dy * Math.min(t, 1) };
+};
+
+/**
+ * Start and end points for a connector drawn between the edges of two layers
+ */
+export function getConnectorPoints(from: LayerData, to: LayerData) {
+  const start = clipToBox(from, to.x + to.width / 2, to.y + to.height / 2);
+  const end = clipToBox(to, from.x + from.width / 2, from.y + from.height / 2);
+  return { start, end };
+}
@@ -0,0 +1,194 @@
+/**
+ * Matting - Local background removal, no model call
+ *
+ * The background is taken to be whatever touches the image border. Border
+ * colours are clustered into a small palette and every pixel gets its
+ * distance to the nearest palette colour. A flood fill from the border takes
+ * away what is close enough and connected to it, so subject pixels that merely
+ * share the background colour survive. Pixels in the band between "clearly
+ * background" and "clearly subject" get partial alpha, with the background's
+ * share taken out of their colour so edges don't keep a halo.
+ *
+ * Refine strokes (in image pixels) then force areas opaque, transparent, or
+ * back to soft alpha from the colour match. The result is a transparent PNG.
+ */
+
+import { MatteStroke } from '../types';
+import { paintMaskStrokes } from './inpaintService';
+
+const PALETTE_SIZE = 4;
+const KMEANS_ITERATIONS = 8;
+const BORDER_RATIO = 0.02; // Border band sampled for background colours, of the shorter side
+const MAX_BORDER_SAMPLES = 4000;
+const MIN_THRESHOLD = 10; // Colour distance still counted as background
+const EDGE_BAND = 48; // Colour distance over which alpha ramps from background to subject
+const MIN_DECONTAMINATE_ALPHA = 0.05;
+
+// Overlay colours the refine strokes are painted in, one channel per mode
+const STROKE_COLORS: Record<MatteStroke['mode'], string> = { keep: '#f00', remove: '#0f0', edge: '#00f' };
+
+type Rgb = [number, number, number];
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for background removal'));
+  img.src = src;
+});
+
+const getDistance = (data: Uint8ClampedArray, offset: number, color: Rgb): number => {
+  const dr = data[offset] - color[0];
+  const dg = data[offset + 1] - color[1];
+  const db = data[offset + 2] - color[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+// Indices of visible pixels in the border band, thinned out to a workable sample
+const sampleBorder = (data: Uint8ClampedArray, width: number, height: number): number[] => {
+  const band = Math.max(1, Math.round(Math.min(width, height) * BORDER_RATIO));
+  const indices: number[] = [];
+  for (let y = 0; y < height; y++) {
+    const isEdgeRow = y < band || y >= height - band;
+    for (let x = 0; x < width; x++) {
+      if (!isEdgeRow && x === band) x = width - band; // Skip the interior of the row
+      const i = y * width + x;
+      if (data[i * 4 + 3] > 0) indices.push(i);
+    }
+  }
+  const stride = Math.max(1, Math.floor(indices.length / MAX_BORDER_SAMPLES));
+  return stride === 1 ? indices : indices.filter((_, n) => n % stride === 0);
+};
+
+// k-means over the sampled colours, seeded evenly along the border
+const clusterColors = (data: Uint8ClampedArray, samples: number[], k: number): Rgb[] => {
+  if (samples.length === 0) return [];
+  let centers: Rgb[] = Array.from({ length: Math.min(k, samples.length) }, (_, j) => {
+    const offset = samples[Math.floor(j * samples.length / k)] * 4;
+    return [data[offset], data[offset + 1], data[offset + 2]];
+  });
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const i of samples) {
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((center, c) => {
+        const distance = getDistance(data, i * 4, center);
+        if (distance < bestDistance) { bestDistance = distance; best = c; }
+      });
+      sums[best][0] += data[i * 4]; sums[best][1] += data[i * 4 + 1]; sums[best][2] += data[i * 4 + 2]; sums[best][3]++;
+    }
+    centers = sums.filter(sum => sum[3] > 0).map(([r, g, b, count]) => [r / count, g / count, b / count]);
+  }
+  return centers;
+};
+
+// 3x3 box blur, to soften the stair-stepped edge the flood fill leaves
+const blurAlpha = (alpha: Float32Array, width: number, height: number): Float32Array => {
+  const horizontal = new Float32Array(alpha.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      horizontal[i] = (alpha[x > 0 ? i - 1 : i] + alpha[i] + alpha[x < width - 1 ? i + 1 : i]) / 3;
+    }
+  }
+  const result = new Float32Array(alpha.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      result[i] = (horizontal[y > 0 ? i - width : i] + horizontal[i] + horizontal[y < height - 1 ? i + width : i]) / 3;
+    }
+  }
+  return result;
+};
+
+/**
+ * Cut the subject out of an image. Returns a PNG data URL at the image's size.
+ */
+export async function removeBackground(src: string, strokes: MatteStroke[] = []): Promise<string> {
+  const img = await loadImage(src);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const pixelCount = width * height;
+
+  // Background palette, and how far each pixel is from it
+  const samples = sampleBorder(data, width, height);
+  const palette = clusterColors(data, samples, PALETTE_SIZE);
+  const distance = new Float32Array(pixelCount).fill(Infinity);
+  const nearest = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    for (let c = 0; c < palette.length; c++) {
+      const d = getDistance(data, i * 4, palette[c]);
+      if (d < distance[i]) { distance[i] = d; nearest[i] = c; }
+    }
+  }
+
+  // Thresholds follow how much the border itself strays from its palette (noise, gradients)
+  const borderDistances = samples.map(i => distance[i]).sort((a, b) => a - b);
+  const low = Math.max(MIN_THRESHOLD, (borderDistances[Math.floor(borderDistances.length * 0.9)] ?? 0) * 1.5);
+  const high = low + EDGE_BAND;
+  const softAlpha = (i: number) => Math.min(1, Math.max(0, (distance[i] - low) / (high - low)));
+
+  // Flood fill from the image edges through anything that could be background
+  const reached = new Uint8Array(pixelCount);
+  const stack = new Int32Array(pixelCount);
+  let top = 0;
+  const visit = (i: number) => {
+    if (!reached[i] && distance[i] < high) { reached[i] = 1; stack[top++] = i; }
+  };
+  for (let x = 0; x < width; x++) { visit(x); visit((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { visit(y * width); visit(y * width + width - 1); }
+  while (top > 0) {
+    const i = stack[--top];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < pixelCount - width) visit(i + width);
+  }
+
+  let alpha = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) alpha[i] = reached[i] ? softAlpha(i) : 1;
+  alpha = blurAlpha(alpha, width, height);
+
+  // Refine strokes, in order, each blended by its own antialiased coverage
+  if (strokes.length > 0) {
+    const overlay = document.createElement('canvas');
+    overlay.width = width;
+    overlay.height = height;
+    const overlayCtx = overlay.getContext('2d', { willReadFrequently: true });
+    if (!overlayCtx) throw new Error('Could not get canvas context');
+    strokes.forEach(stroke => paintMaskStrokes(overlayCtx, [stroke], STROKE_COLORS[stroke.mode]));
+    const marks = overlayCtx.getImageData(0, 0, width, height).data;
+    for (let i = 0; i < pixelCount; i++) {
+      const coverage = marks[i * 4 + 3] / 255;
+      if (coverage === 0) continue;
+      const [r, g, b] = [marks[i * 4], marks[i * 4 + 1], marks[i * 4 + 2]];
+      const target = r >= g && r >= b ? 1 : g >= b ? 0 : softAlpha(i);
+      alpha[i] = alpha[i] * (1 - coverage) + target * coverage;
+    }
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    const a = alpha[i];
+    const offset = i * 4;
+    // Take the background's share out of edge colours: C = aF + (1 - a)B, solved for F
+    if (a >= MIN_DECONTAMINATE_ALPHA && a < 1 && palette.length > 0) {
+      const background = palette[nearest[i]];
+      for (let channel = 0; channel < 3; channel++) {
+        data[offset + channel] = (data[offset + channel] - (1 - a) * background[channel]) / a;
+      }
+    }
+    data[offset + 3] = Math.round(data[offset + 3] * a);
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,43 @@
+/**
+ * Media Assets - Persist layer media (image, video, audio) in the asset store
+ *
+ * The full media blob is stored under LayerData.imageId. Images and videos
+ * also get a small thumbnail under thumbnailId (a poster frame for video) so
+ * zoomed-out views and the sidebar never decode the full file.
+ */
+
+import { MediaType } from '../types';
+import { storeAsset, storeAssetBlob, getAssetUrl } from './assetStore';
+import { generateThumbnail, generateVideoPoster } from './thumbnailService';
+
+export interface StoredMedia {
+  src: string;
+  thumbnail?: string;
+  imageId?: string;
+  thumbnailId?: string;
+}
+
+/**
+ * Store media from a data URL, blob URL or Blob and return the layer fields
+ * pointing at it. Thumbnail failures are non-fatal.
+ */
+export async function storeLayerMedia(source: string | Blob, mediaType: MediaType): Promise<StoredMedia> {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const imageId = await storeAssetBlob(blob);
+  const src = await getAssetUrl(imageId);
+  if (!src) throw new Error('Stored media could not be read back');
+
+  let thumbnail: string | undefined;
+  let thumbnailId: string | undefined;
+  if (mediaType === 'image' || mediaType === 'video') {
+    try {
+      const thumbnailBase64 = mediaType === 'video' ? await generateVideoPoster(src) : await generateThumbnail(src);
+      thumbnailId = await storeAsset(thumbnailBase64);
+      thumbnail = (await getAssetUrl(thumbnailId)) || undefined;
+    } catch (e) {
+      console.warn('Thumbnail generation failed for stored media', e);
+    }
+  }
+
+  return { src, thumbnail, imageId, thumbnailId };
+}
@@ -0,0 +1,210 @@
+/**
+ * Provider Registry - Pluggable generation backends
+ *
+ * A provider bundles a set of models with the functions that run them. Each
+ * model publishes a capability descriptor (aspect ratios, sizes, reference
+ * limits, video modes...) which drives the PromptBar options and the
+ * validation of every request before it reaches a backend.
+ *
+ * The built-in Gemini provider is registered on load. Other backends (an
+ * OpenAI-compatible or self-hosted endpoint, a local mock) call
+ * registerProvider at startup with their own model IDs.
+ */
+
+import { GenerateOptions, GenerationCallbacks, GenerationModelId, GenerationResult, MediaType, VideoMode } from '../types';
+import { geminiProvider } from './geminiProvider';
+
+export type GenerativeMediaType = Extract<MediaType, 'image' | 'video' | 'audio'>;
+
+// Reference-image bounds for one mode. 0 as max means the model ignores attachments;
+// no max means it takes as many as are sent.
+export interface ReferenceLimits {
+  minReferenceImages?: number;
+  maxReferenceImages?: number;
+}
+
+export interface ModelCapabilities extends ReferenceLimits {
+  aspectRatios: string[]; // "Auto" = derive from the first reference (images only)
+  imageSizes?: string[]; // Selectable output sizes; omitted when the size is fixed
+  resolutions?: ('720p' | '1080p')[];
+  durations?: string[]; // Seconds, as strings
+  maxBatch: number; // Results per request the UI may ask for
+  maxConcurrent?: number; // Requests the generation queue runs at once (default 2)
+  supportsCreativity: boolean;
+  voices?: { id: string; name: string }[];
+  videoModes?: VideoMode[];
+  // Tighter constraints that apply while a video mode is active
+  modeOverrides?: Partial<Record<VideoMode, Partial<Omit<ModelCapabilities, 'modeOverrides' | 'videoModes'>>>>;
+  supportsExtension?: boolean; // Can continue an existing video
+}
+
+export interface ModelDescriptor {
+  id: GenerationModelId;
+  name: string;
+  type: GenerativeMediaType;
+  description: string;
+  capabilities: ModelCapabilities;
+}
+
+export interface GenerationProvider {
+  id: string;
+  name: string;
+  models: ModelDescriptor[];
+  generateImage?: (options: GenerateOptions, callbacks?: GenerationCallbacks) => Promise<GenerationResult>;
+  generateVideo?: (options: GenerateOptions, callbacks?: GenerationCallbacks) => Promise<GenerationResult>;
+  generateSpeech?: (options: GenerateOptions, callbacks?: GenerationCallbacks) => Promise<GenerationResult>;
+  // Finish a video operation started in an earlier session, from the ID reported through onPolling
+  resumeVideo?: (operationId: string, startedAt: number, callbacks?: GenerationCallbacks) => Promise<GenerationResult>;
+}
+
+// What a request asks of a model, independent of how attachments are passed
+export interface GenerationRequestSpec {
+  model: GenerationModelId;
+  mediaType: MediaType;
+  videoMode?: VideoMode;
+  aspectRatio?: string;
+  imageSize?: string;
+  resolution?: '720p' | '1080p';
+  duration?: string;
+  referenceCount: number;
+}
+
+export const VIDEO_MODE_LABELS: Record<VideoMode, string> = {
+  standard: 'Text/Image to Video',
+  references: 'Reference Images',
+  interpolation: 'Frame Interpolation',
+};
+
+const providers = new Map<string, GenerationProvider>();
+
+/**
+ * Add a provider (or replace one with the same ID). Later registrations win model ID clashes.
+ */
+export function registerProvider(provider: GenerationProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function unregisterProvider(id: string): void {
+  providers.delete(id);
+}
+
+export function getProviders(): GenerationProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Registered models, optionally only those producing one media type
+ */
+export function getModels(type?: MediaType): ModelDescriptor[] {
+  const byId = new Map<GenerationModelId, ModelDescriptor>();
+  for (const provider of providers.values()) {
+    for (const model of provider.models) byId.set(model.id, model);
+  }
+  const models = [...byId.values()];
+  return type ? models.filter(m => m.type === type) : models;
+}
+
+export function getModel(id: GenerationModelId): ModelDescriptor | undefined {
+  return getModels().find(m => m.id === id);
+}
+
+export function getProviderForModel(id: GenerationModelId): GenerationProvider | undefined {
+  return getProviders().reverse().find(p => p.models.some(m => m.id === id));
+}
+
+/**
+ * Capabilities with the active video mode's overrides applied
+ */
+export function getEffectiveCapabilities(model: ModelDescriptor, videoMode?: VideoMode): ModelCapabilities {
+  const { modeOverrides, ...base } = model.capabilities;
+  const override = model.type === 'video' && videoMode ? modeOverrides?.[videoMode] : undefined;
+  return { ...base, ...override };
+}
+
+/**
+ * Check a request against its model's capabilities. Returns a user-facing
+ * message for the first problem found, or null when the request is valid.
+ */
+export function validateGenerationRequest(spec: GenerationRequestSpec): string | null {
+  const model = getModel(spec.model);
+  if (!model) return `Model "${spec.model}" is not available. Pick another model in settings.`;
+  if (model.type !== spec.mediaType) return `${model.name} can't generate ${spec.mediaType}.`;
+
+  const videoMode = spec.videoMode || 'standard';
+  if (model.type === 'video' && model.capabilities.videoModes && !model.capabilities.videoModes.includes(videoMode)) {
+    return `${model.name} doesn't support ${VIDEO_MODE_LABELS[videoMode]}.`;
+  }
+  const caps = getEffectiveCapabilities(model, videoMode);
+  const modeLabel = model.type === 'video' ? VIDEO_MODE_LABELS[videoMode] : model.name;
+
+  if (caps.maxReferenceImages !== 0) {
+    const min = caps.minReferenceImages ?? 0;
+    if (min > 0 && min === caps.maxReferenceImages && spec.referenceCount !== min) {
+      return `${modeLabel} requires exactly ${min} images.`;
+    }
+    if (spec.referenceCount < min) return `${modeLabel} requires at least ${min} images.`;
+    if (caps.maxReferenceImages !== undefined && spec.referenceCount > caps.maxReferenceImages) {
+      return `${modeLabel} supports a maximum of ${caps.maxReferenceImages} reference image${caps.maxReferenceImages === 1 ? '' : 's'}.`;
+    }
+  }
+  if (spec.aspectRatio && !caps.aspectRatios.includes(spec.aspectRatio) && !(spec.aspectRatio === 'Auto' && model.type !== 'video')) {
+    return `${modeLabel} doesn't support the ${spec.aspectRatio} aspect ratio.`;
+  }
+  if (spec.imageSize && caps.imageSizes && !caps.imageSizes.includes(spec.imageSize)) {
+    return `${model.name} doesn't support ${spec.imageSize} output.`;
+  }
+  if (model.type === 'video') {
+    if (spec.resolution && caps.resolutions && !caps.resolutions.includes(spec.resolution)) {
+      return `${modeLabel} doesn't support ${spec.resolution}.`;
+    }
+    if (spec.duration && caps.durations && !caps.durations.includes(spec.duration)) {
+      return `${modeLabel} doesn't support ${spec.duration}s clips.`;
+    }
+  }
+  return null;
+}
+
+// Images the backend will actually receive for these options
+const countReferences = (options: GenerateOptions): number => {
+  if (options.mediaType !== 'video') return options.referenceImages?.length ?? 0;
+  if (options.videoMode === 'references') return options.referenceImages?.length ?? 0;
+  return (options.startImage ? 1 : 0) + (options.endImage ? 1 : 0);
+};
+
+/**
+ * Validate the options and run them on the provider that owns the model
+ */
+export async function generateContent(options: GenerateOptions, callbacks?: GenerationCallbacks): Promise<GenerationResult> {
+  // Extensions continue an existing clip, so mode and reference limits don't apply
+  if (!options.inputVideoMetadata) {
+    const error = validateGenerationRequest({
+      model: options.model,
+      mediaType: options.mediaType,
+      videoMode: options.videoMode,
+      aspectRatio: options.aspectRatio,
+      imageSize: options.imageSize,
+      resolution: options.mediaType === 'video' ? options.resolution : undefined,
+      duration: options.mediaType === 'video' ? options.durationSeconds : undefined,
+      referenceCount: countReferences(options),
+    });
+    if (error) throw new Error(error);
+  }
+
+  const provider = getProviderForModel(options.model);
+  const run = options.mediaType === 'video' ? provider?.generateVideo
+    : options.mediaType === 'audio' ? provider?.generateSpeech
+    : provider?.generateImage;
+  if (!provider || !run) throw new Error(`No provider can generate ${options.mediaType} with "${options.model}".`);
+  return run(options, callbacks);
+}
+
+/**
+ * Continue a long-running operation on the provider that owns the model
+ */
+export async function resumeGeneration(model: GenerationModelId, operationId: string, startedAt: number, callbacks?: GenerationCallbacks): Promise<GenerationResult> {
+  const resume = getProviderForModel(model)?.resumeVideo;
+  if (!resume) throw new Error(`Generations with "${model}" can't be resumed.`);
+  return resume(operationId, startedAt, callbacks);
+}
+
+registerProvider(geminiProvider);
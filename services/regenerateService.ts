@@ -0,0 +1,93 @@
+/**
+ * Regenerate - Rebuild a generation request from what a layer stored
+ *
+ * Generated layers keep their prompt (promptUsed / improvedPrompt), the
+ * reference images that were sent and the settings the model reported back
+ * (generationMetadata). These helpers turn that record into PromptBar state
+ * and attachments so the same request can be queued again or tweaked.
+ */
+
+import { Attachment, LayerData, PromptState } from '../types';
+import { DEFAULT_MODEL } from '../constants';
+import { getModel, getModels, ModelDescriptor, validateGenerationRequest } from './providerRegistry';
+
+/**
+ * Whether the layer carries enough of its original request to run it again
+ */
+export function canRegenerate(layer: LayerData): boolean {
+  // Some registered model must still produce this media type
+  if (layer.isLoading || getModels(layer.type).length === 0) return false;
+  return !!layer.promptUsed?.trim() || (layer.referenceImages?.length ?? 0) > 0;
+}
+
+/**
+ * Video extensions keep no settings of their own; their one source is the clip being extended
+ */
+export function isExtensionPlaceholder(layer: LayerData): boolean {
+  return layer.type === 'video' && !layer.generationMetadata && layer.sourceLayerIds?.length === 1;
+}
+
+/**
+ * Whether a failed generation stored enough of its request (when it was queued) to send it again
+ */
+export function canRetryGeneration(layer: LayerData): boolean {
+  if (!layer.error) return false;
+  return isExtensionPlaceholder(layer) || canRegenerate(layer);
+}
+
+/**
+ * PromptBar settings matching the layer's original generation
+ */
+export function getStoredPromptState(layer: LayerData): PromptState {
+  const metadata = layer.generationMetadata || {};
+  const storedModel = metadata.model ? getModel(metadata.model) : undefined;
+  // Fall back to the first model for the media type when none was stored (speech results never record one)
+  const fallbackModel = getModels(layer.type)[0];
+  return {
+    prompt: layer.promptUsed || '',
+    mediaType: layer.type,
+    model: storedModel?.type === layer.type ? storedModel.id : fallbackModel?.id || DEFAULT_MODEL,
+    aspectRatio: metadata.aspectRatio || (layer.type === 'video' ? '16:9' : 'Auto'),
+    creativity: metadata.creativity ?? 65,
+    imageSize: metadata.imageSize || '1K',
+    videoResolution: metadata.resolution === '1080p' ? '1080p' : '720p',
+    videoDuration: metadata.duration || '8',
+    imageCount: 1,
+    videoMode: metadata.videoMode || 'standard',
+    includeStartFrameInRefs: false,
+    voice: metadata.voice || 'Kore',
+  };
+}
+
+/**
+ * Other models that would accept the layer's stored request unchanged
+ */
+export function getRetryModels(layer: LayerData): ModelDescriptor[] {
+  if (isExtensionPlaceholder(layer)) return [];
+  const settings = getStoredPromptState(layer);
+  const refCount = layer.referenceImages?.length ?? 0;
+  // Video modes only send some of the stored images (see handleLayerGenerate)
+  const referenceCount = layer.type !== 'video' || settings.videoMode === 'references' ? refCount
+    : Math.min(refCount, settings.videoMode === 'interpolation' ? 2 : 1);
+  return getModels(layer.type).filter(model => model.id !== settings.model && validateGenerationRequest({
+    model: model.id,
+    mediaType: layer.type,
+    videoMode: settings.videoMode,
+    aspectRatio: settings.aspectRatio,
+    imageSize: settings.imageSize,
+    resolution: layer.type === 'video' ? settings.videoResolution : undefined,
+    duration: layer.type === 'video' ? settings.videoDuration : undefined,
+    referenceCount,
+  }) === null);
+}
+
+/**
+ * The stored reference images as attachments, in their original order (video modes depend on it)
+ */
+export function getStoredReferenceAttachments(layer: LayerData): Attachment[] {
+  return (layer.referenceImages || []).map((base64, index) => {
+    const mimeType = base64.match(/^data:([^;]+);base64,/)?.[1] || 'image/png';
+    const name = `reference-${index + 1}.${mimeType.split('/')[1] || 'png'}`;
+    return { id: crypto.randomUUID(), file: new File([], name, { type: mimeType }), previewUrl: base64, mimeType, base64, displayName: `Reference ${index + 1}` };
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Storage Quota - Usage reporting and eviction for IndexedDB-backed boards
+ *
+ * Usage is attributed from AssetRecord.size: every asset referenced by a
+ * project's layers or saved history counts towards that project. Assets
+ * shared between duplicated projects count towards each of them, so project
+ * totals can add up to more than the overall total.
+ */
+
+import { LayerData, MediaType } from '../types';
+import { getAllAssetInfo } from './assetStore';
+import { loadPersistedLayerStatesByProject, updatePersistedLayers } from './storageService';
+
+export const QUOTA_WARNING_RATIO = 0.8;
+export const QUOTA_CRITICAL_RATIO = 0.95;
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+export type StorageCategory = MediaType | 'thumbnail';
+
+export interface QuotaStatus {
+  usage: number;
+  quota: number;
+  level: QuotaLevel;
+}
+
+export interface ProjectStorageUsage {
+  projectId: string;
+  bytes: number;
+  assetCount: number;
+  byCategory: Partial<Record<StorageCategory, number>>;
+}
+
+export interface StorageReport {
+  quota: QuotaStatus | null;
+  persisted: boolean;
+  totalAssetBytes: number;
+  unreferencedBytes: number;
+  byCategory: Partial<Record<StorageCategory, number>>;
+  projects: ProjectStorageUsage[];
+}
+
+/**
+ * Read the browser's storage estimate. Returns null where the API is missing.
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota) return null;
+  const ratio = usage / quota;
+  const level: QuotaLevel = ratio >= QUOTA_CRITICAL_RATIO ? 'critical' : ratio >= QUOTA_WARNING_RATIO ? 'warning' : 'ok';
+  return { usage, quota, level };
+}
+
+/**
+ * Ask the browser not to evict our data under storage pressure
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
+
+/**
+ * Build a usage report per project and per layer type.
+ * @param liveStates - In-memory layer states of the open project, which may be ahead of storage
+ */
+export async function getStorageReport(liveStates?: { projectId: string; states: LayerData[][] }): Promise<StorageReport> {
+  const [assets, statesByProject, quota, persisted] = await Promise.all([
+    getAllAssetInfo(),
+    loadPersistedLayerStatesByProject(),
+    getQuotaStatus(),
+    navigator.storage?.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  if (liveStates) {
+    statesByProject.set(liveStates.projectId, [...liveStates.states, ...(statesByProject.get(liveStates.projectId) || [])]);
+  }
+
+  const sizes = new Map(assets.map(asset => [asset.id, asset.size || 0]));
+  const categories = new Map<string, StorageCategory>();
+  const projects: ProjectStorageUsage[] = [];
+
+  for (const [projectId, states] of statesByProject) {
+    const referenced = new Map<string, StorageCategory>();
+    for (const state of states) {
+      for (const layer of state) {
+        if (layer.thumbnailId) referenced.set(layer.thumbnailId, 'thumbnail');
+        // A full-res eviction points imageId at the thumbnail - keep it counted as one
+        if (layer.imageId && !referenced.has(layer.imageId)) referenced.set(layer.imageId, layer.type);
+      }
+    }
+
+    const usage: ProjectStorageUsage = { projectId, bytes: 0, assetCount: 0, byCategory: {} };
+    for (const [id, category] of referenced) {
+      const size = sizes.get(id);
+      if (size === undefined) continue;
+      usage.bytes += size;
+      usage.assetCount++;
+      usage.byCategory[category] = (usage.byCategory[category] || 0) + size;
+      categories.set(id, category);
+    }
+    projects.push(usage);
+  }
+
+  const byCategory: Partial<Record<StorageCategory, number>> = {};
+  let totalAssetBytes = 0;
+  let unreferencedBytes = 0;
+  for (const [id, size] of sizes) {
+    totalAssetBytes += size;
+    const category = categories.get(id);
+    if (category) byCategory[category] = (byCategory[category] || 0) + size;
+    else unreferencedBytes += size;
+  }
+
+  return {
+    quota,
+    persisted,
+    totalAssetBytes,
+    unreferencedBytes,
+    byCategory,
+    projects: projects.sort((a, b) => b.bytes - a.bytes),
+  };
+}
+
+/**
+ * Eviction: point image layers at their thumbnail and drop the full-res
+ * reference, in both the saved layers and the saved history. The freed blobs
+ * are removed by the next garbage collection.
+ * @param olderThan - Only evict layers created before this timestamp
+ * @returns Number of current layers that were evicted
+ */
+export async function evictFullResolution(projectId: string, olderThan: number = Infinity): Promise<number> {
+  return updatePersistedLayers(projectId, layer => {
+    if (layer.type !== 'image' || !layer.imageId || !layer.thumbnailId || layer.fullResEvicted) return layer;
+    if (layer.createdAt >= olderThan) return layer;
+    return { ...layer, imageId: layer.thumbnailId, fullResEvicted: true };
+  });
+}
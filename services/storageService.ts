@@ -1,16 +1,39 @@
-import { LayerData } from '../types';
+import { LayerData, PersistedGenerationJob, ProjectMeta, UsageEntry } from '../types';
 import { generateThumbnail } from './thumbnailService';
 import { storeAsset, getAssetUrl } from './assetStore';
+import { storeLayerMedia } from './mediaAssetService';
 
 const DB_NAME = 'gemini-canvas-db';
-const DB_VERSION = 2;
+const DB_VERSION = 3;
 const LAYERS_STORE = 'layers';
 const STATE_STORE = 'canvasState';
+const PROJECTS_STORE = 'projects';
+
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+const USAGE_LEDGER_KEY = 'usageLedger'; // Shared by all projects: spend outlives deleted canvases
+const DEFAULT_PROJECT_NAME = 'Untitled Canvas';
+
+// Per-project keys in the canvasState store
+const viewStateKey = (projectId: string) => `viewState:${projectId}`;
+const historyKey = (projectId: string) => `history:${projectId}`;
+const generationJobsKey = (projectId: string) => `generationJobs:${projectId}`;
 
 const MAX_HISTORY_STATES = 20;
 
 let dbInstance: IDBDatabase | null = null;
 
+// Autosave swallows errors; this lets the UI hear about a full disk
+let quotaExceededHandler: (() => void) | null = null;
+
+export function onStorageQuotaExceeded(handler: (() => void) | null): void {
+  quotaExceededHandler = handler;
+}
+
+function reportSaveError(message: string, error: unknown): void {
+  console.error(message, error);
+  if ((error as DOMException)?.name === 'QuotaExceededError') quotaExceededHandler?.();
+}
+
 function initDB(): Promise<IDBDatabase> {
   if (dbInstance) return Promise.resolve(dbInstance);
 
@@ -32,11 +55,196 @@ function initDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STATE_STORE)) {
         db.createObjectStore(STATE_STORE);
       }
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      // v2 stored a single canvas under 'current' - move it into a project
+      if (event.oldVersion > 0 && event.oldVersion < 3) {
+        migrateSingleCanvas(request.transaction!);
+      }
     };
   });
 }
 
-export async function saveLayers(layers: LayerData[]): Promise<void> {
+/**
+ * Move the pre-project 'current' layers, view state and history into a
+ * default project. Runs inside the versionchange transaction.
+ */
+function migrateSingleCanvas(tx: IDBTransaction): void {
+  const now = Date.now();
+  const project: ProjectMeta = { id: crypto.randomUUID(), name: DEFAULT_PROJECT_NAME, createdAt: now, updatedAt: now };
+  const layersStore = tx.objectStore(LAYERS_STORE);
+  const stateStore = tx.objectStore(STATE_STORE);
+
+  tx.objectStore(PROJECTS_STORE).put(project);
+  stateStore.put(project.id, ACTIVE_PROJECT_KEY);
+
+  const layersReq = layersStore.get('current');
+  layersReq.onsuccess = () => {
+    if (layersReq.result) layersStore.put(layersReq.result, project.id);
+    layersStore.delete('current');
+  };
+  const viewReq = stateStore.get('viewState');
+  viewReq.onsuccess = () => {
+    if (viewReq.result) stateStore.put(viewReq.result, viewStateKey(project.id));
+    stateStore.delete('viewState');
+  };
+  const historyReq = stateStore.get('history');
+  historyReq.onsuccess = () => {
+    if (historyReq.result) stateStore.put(historyReq.result, historyKey(project.id));
+    stateStore.delete('history');
+  };
+}
+
+// --- Projects ---
+
+export async function listProjects(): Promise<ProjectMeta[]> {
+  try {
+    const db = await initDB();
+    const projects = await new Promise<ProjectMeta[]>((resolve, reject) => {
+      const tx = db.transaction(PROJECTS_STORE, 'readonly');
+      const request = tx.objectStore(PROJECTS_STORE).getAll();
+      request.onsuccess = () => resolve(request.result as ProjectMeta[]);
+      request.onerror = () => reject(request.error);
+    });
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Failed to list projects:', error);
+    return [];
+  }
+}
+
+async function putProject(project: ProjectMeta): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    tx.objectStore(PROJECTS_STORE).put(project);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function getProject(id: string): Promise<ProjectMeta | null> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECTS_STORE, 'readonly');
+    const request = tx.objectStore(PROJECTS_STORE).get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function createProject(name: string = DEFAULT_PROJECT_NAME): Promise<ProjectMeta> {
+  const now = Date.now();
+  const project: ProjectMeta = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+  await putProject(project);
+  return project;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  try {
+    const project = await getProject(id);
+    if (!project) return;
+    await putProject({ ...project, name, updatedAt: Date.now() });
+  } catch (error) {
+    console.error('Failed to rename project:', error);
+  }
+}
+
+/**
+ * Copy a project's layers, view state and history into a new project.
+ * Asset blobs are shared by ID, not copied.
+ */
+export async function duplicateProject(id: string, name?: string): Promise<ProjectMeta | null> {
+  try {
+    const source = await getProject(id);
+    if (!source) return null;
+    const db = await initDB();
+    const now = Date.now();
+    const copy: ProjectMeta = { id: crypto.randomUUID(), name: name || `${source.name} (Copy)`, createdAt: now, updatedAt: now };
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([PROJECTS_STORE, LAYERS_STORE, STATE_STORE], 'readwrite');
+      const layersStore = tx.objectStore(LAYERS_STORE);
+      const stateStore = tx.objectStore(STATE_STORE);
+      tx.objectStore(PROJECTS_STORE).put(copy);
+
+      const layersReq = layersStore.get(id);
+      layersReq.onsuccess = () => { if (layersReq.result) layersStore.put(layersReq.result, copy.id); };
+      const viewReq = stateStore.get(viewStateKey(id));
+      viewReq.onsuccess = () => { if (viewReq.result) stateStore.put(viewReq.result, viewStateKey(copy.id)); };
+      const historyReq = stateStore.get(historyKey(id));
+      historyReq.onsuccess = () => { if (historyReq.result) stateStore.put(historyReq.result, historyKey(copy.id)); };
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    return copy;
+  } catch (error) {
+    console.error('Failed to duplicate project:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a project and all of its records.
+ */
+export async function deleteProject(id: string): Promise<void> {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([PROJECTS_STORE, LAYERS_STORE, STATE_STORE], 'readwrite');
+      tx.objectStore(PROJECTS_STORE).delete(id);
+      tx.objectStore(LAYERS_STORE).delete(id);
+      tx.objectStore(STATE_STORE).delete(viewStateKey(id));
+      tx.objectStore(STATE_STORE).delete(historyKey(id));
+      tx.objectStore(STATE_STORE).delete(generationJobsKey(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error('Failed to delete project:', error);
+  }
+}
+
+export async function saveActiveProjectId(id: string): Promise<void> {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STATE_STORE, 'readwrite');
+      tx.objectStore(STATE_STORE).put(id, ACTIVE_PROJECT_KEY);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error('Failed to save active project:', error);
+  }
+}
+
+/**
+ * Resolve the project to open on startup. Falls back to the first project,
+ * creating one if none exist yet.
+ */
+export async function getActiveProjectId(): Promise<string> {
+  const db = await initDB();
+  const storedId = await new Promise<string | null>((resolve, reject) => {
+    const tx = db.transaction(STATE_STORE, 'readonly');
+    const request = tx.objectStore(STATE_STORE).get(ACTIVE_PROJECT_KEY);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+
+  const projects = await listProjects();
+  if (storedId && projects.some(p => p.id === storedId)) return storedId;
+
+  const fallback = projects[0] || await createProject();
+  await saveActiveProjectId(fallback.id);
+  return fallback.id;
+}
+
+// --- Per-project canvas data ---
+
+export async function saveLayers(projectId: string, layers: LayerData[]): Promise<void> {
   try {
     const db = await initDB();
     // Strip blob URLs when asset IDs exist (blob URLs are runtime-only)
@@ -52,25 +260,26 @@ export async function saveLayers(layers: LayerData[]): Promise<void> {
       }
       return layer;
     });
-    return new Promise((resolve, reject) => {
+    // Await so transaction failures (e.g. quota) reach the catch below
+    return await new Promise<void>((resolve, reject) => {
       const tx = db.transaction(LAYERS_STORE, 'readwrite');
       const store = tx.objectStore(LAYERS_STORE);
-      store.put(layersForStorage, 'current');
+      store.put(layersForStorage, projectId);
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
   } catch (error) {
-    console.error('Failed to save layers:', error);
+    reportSaveError('Failed to save layers:', error);
   }
 }
 
-export async function loadLayers(): Promise<LayerData[] | null> {
+export async function loadLayers(projectId: string): Promise<LayerData[] | null> {
   try {
     const db = await initDB();
     const layers = await new Promise<LayerData[] | null>((resolve, reject) => {
       const tx = db.transaction(LAYERS_STORE, 'readonly');
       const store = tx.objectStore(LAYERS_STORE);
-      const request = store.get('current');
+      const request = store.get(projectId);
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(request.error);
     });
@@ -141,13 +350,23 @@ export async function loadLayers(): Promise<LayerData[] | null> {
           }
         }
 
+        // Migrate old video/audio layers that kept the whole file inline as Base64
+        if ((layer.type === 'video' || layer.type === 'audio') && layer.src && !layer.imageId && layer.src.startsWith('data:')) {
+          try {
+            updated = { ...updated, ...(await storeLayerMedia(layer.src, layer.type)) };
+            needsSave = true;
+          } catch (e) {
+            console.warn('Failed to migrate media layer to asset store', layer.id, e);
+          }
+        }
+
         return updated;
       })
     );
 
     // Save migrated layers back if any were updated
     if (needsSave) {
-      await saveLayers(processedLayers);
+      await saveLayers(projectId, processedLayers);
     }
 
     return processedLayers;
@@ -158,24 +377,25 @@ export async function loadLayers(): Promise<LayerData[] | null> {
 }
 
 export async function saveViewState(
+  projectId: string,
   offset: { x: number; y: number },
   scale: number
 ): Promise<void> {
   try {
     const db = await initDB();
-    return new Promise((resolve, reject) => {
+    return await new Promise<void>((resolve, reject) => {
       const tx = db.transaction(STATE_STORE, 'readwrite');
       const store = tx.objectStore(STATE_STORE);
-      store.put({ offset, scale }, 'viewState');
+      store.put({ offset, scale }, viewStateKey(projectId));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
   } catch (error) {
-    console.error('Failed to save view state:', error);
+    reportSaveError('Failed to save view state:', error);
   }
 }
 
-export async function loadViewState(): Promise<{
+export async function loadViewState(projectId: string): Promise<{
   offset: { x: number; y: number };
   scale: number;
 } | null> {
@@ -184,7 +404,7 @@ export async function loadViewState(): Promise<{
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STATE_STORE, 'readonly');
       const store = tx.objectStore(STATE_STORE);
-      const request = store.get('viewState');
+      const request = store.get(viewStateKey(projectId));
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(request.error);
     });
@@ -208,6 +428,7 @@ function stripBlobUrlsFromLayer(layer: LayerData): LayerData {
 }
 
 export async function saveHistory(
+  projectId: string,
   history: LayerData[][],
   historyIndex: number
 ): Promise<void> {
@@ -222,19 +443,19 @@ export async function saveHistory(
       layers.map(stripBlobUrlsFromLayer)
     );
 
-    return new Promise((resolve, reject) => {
+    return await new Promise<void>((resolve, reject) => {
       const tx = db.transaction(STATE_STORE, 'readwrite');
       const store = tx.objectStore(STATE_STORE);
-      store.put({ history: historyForStorage, index: adjustedIndex }, 'history');
+      store.put({ history: historyForStorage, index: adjustedIndex }, historyKey(projectId));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
   } catch (error) {
-    console.error('Failed to save history:', error);
+    reportSaveError('Failed to save history:', error);
   }
 }
 
-export async function loadHistory(): Promise<{
+export async function loadHistory(projectId: string): Promise<{
   history: LayerData[][];
   index: number;
 } | null> {
@@ -243,7 +464,7 @@ export async function loadHistory(): Promise<{
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STATE_STORE, 'readonly');
       const store = tx.objectStore(STATE_STORE);
-      const request = store.get('history');
+      const request = store.get(historyKey(projectId));
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(request.error);
     });
@@ -253,13 +474,84 @@ export async function loadHistory(): Promise<{
   }
 }
 
-export async function clearAllData(): Promise<void> {
+/**
+ * Record the project's running generations so they can be resumed (or
+ * reported as lost) after a reload. Replaces the previous record.
+ */
+export async function saveGenerationJobs(projectId: string, jobs: PersistedGenerationJob[]): Promise<void> {
+  try {
+    const db = await initDB();
+    return await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STATE_STORE, 'readwrite');
+      const store = tx.objectStore(STATE_STORE);
+      if (jobs.length > 0) store.put(jobs, generationJobsKey(projectId));
+      else store.delete(generationJobsKey(projectId));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    reportSaveError('Failed to save generation jobs:', error);
+  }
+}
+
+export async function loadGenerationJobs(projectId: string): Promise<PersistedGenerationJob[]> {
+  try {
+    const db = await initDB();
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STATE_STORE, 'readonly');
+      const store = tx.objectStore(STATE_STORE);
+      const request = store.get(generationJobsKey(projectId));
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to load generation jobs:', error);
+    return [];
+  }
+}
+
+export async function saveUsageLedger(entries: UsageEntry[]): Promise<void> {
+  try {
+    const db = await initDB();
+    return await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STATE_STORE, 'readwrite');
+      tx.objectStore(STATE_STORE).put(entries, USAGE_LEDGER_KEY);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    reportSaveError('Failed to save usage ledger:', error);
+  }
+}
+
+export async function loadUsageLedger(): Promise<UsageEntry[]> {
+  try {
+    const db = await initDB();
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STATE_STORE, 'readonly');
+      const request = tx.objectStore(STATE_STORE).get(USAGE_LEDGER_KEY);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to load usage ledger:', error);
+    return [];
+  }
+}
+
+/**
+ * Wipe the layers, view state and history of a single project.
+ * Other projects and the project record itself are left untouched.
+ */
+export async function clearAllData(projectId: string): Promise<void> {
   try {
     const db = await initDB();
     return new Promise((resolve, reject) => {
       const tx = db.transaction([LAYERS_STORE, STATE_STORE], 'readwrite');
-      tx.objectStore(LAYERS_STORE).clear();
-      tx.objectStore(STATE_STORE).clear();
+      tx.objectStore(LAYERS_STORE).delete(projectId);
+      tx.objectStore(STATE_STORE).delete(viewStateKey(projectId));
+      tx.objectStore(STATE_STORE).delete(historyKey(projectId));
+      tx.objectStore(STATE_STORE).delete(generationJobsKey(projectId));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
@@ -267,3 +559,76 @@ export async function clearAllData(): Promise<void> {
     console.error('Failed to clear data:', error);
   }
 }
+
+/**
+ * Load every persisted layer state of every project: its current layers plus
+ * every entry of its saved history, keyed by project ID. Used to find which
+ * assets are still referenced and by whom.
+ */
+export async function loadPersistedLayerStatesByProject(): Promise<Map<string, LayerData[][]>> {
+  const db = await initDB();
+  const projects = await listProjects();
+
+  return new Promise((resolve, reject) => {
+    const statesByProject = new Map<string, LayerData[][]>();
+    const tx = db.transaction([LAYERS_STORE, STATE_STORE], 'readonly');
+    const layersStore = tx.objectStore(LAYERS_STORE);
+    const stateStore = tx.objectStore(STATE_STORE);
+
+    for (const project of projects) {
+      const states: LayerData[][] = [];
+      statesByProject.set(project.id, states);
+      const layersReq = layersStore.get(project.id);
+      layersReq.onsuccess = () => { if (layersReq.result) states.push(layersReq.result); };
+      const historyReq = stateStore.get(historyKey(project.id));
+      historyReq.onsuccess = () => { if (historyReq.result?.history) states.push(...historyReq.result.history); };
+    }
+
+    tx.oncomplete = () => resolve(statesByProject);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function loadAllPersistedLayerStates(): Promise<LayerData[][]> {
+  const statesByProject = await loadPersistedLayerStatesByProject();
+  return [...statesByProject.values()].flat();
+}
+
+/**
+ * Rewrite a project's persisted layers and history in place, one layer at a
+ * time. Returns how many current layers the transform changed.
+ */
+export async function updatePersistedLayers(
+  projectId: string,
+  transform: (layer: LayerData) => LayerData
+): Promise<number> {
+  const db = await initDB();
+
+  return new Promise((resolve, reject) => {
+    let changedCount = 0;
+    const tx = db.transaction([LAYERS_STORE, STATE_STORE], 'readwrite');
+    const layersStore = tx.objectStore(LAYERS_STORE);
+    const stateStore = tx.objectStore(STATE_STORE);
+
+    const layersReq = layersStore.get(projectId);
+    layersReq.onsuccess = () => {
+      const layers: LayerData[] | undefined = layersReq.result;
+      if (!layers) return;
+      const updated = layers.map(layer => {
+        const next = transform(layer);
+        if (next !== layer) changedCount++;
+        return next;
+      });
+      layersStore.put(updated, projectId);
+    };
+    const historyReq = stateStore.get(historyKey(projectId));
+    historyReq.onsuccess = () => {
+      const saved = historyReq.result;
+      if (!saved?.history) return;
+      stateStore.put({ ...saved, history: saved.history.map((state: LayerData[]) => state.map(transform)) }, historyKey(projectId));
+    };
+
+    tx.oncomplete = () => resolve(changedCount);
+    tx.onerror = () => reject(tx.error);
+  });
+}
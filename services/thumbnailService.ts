@@ -1,5 +1,14 @@
 const THUMBNAIL_SIZE = 256;
 
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  if (width < 1 || height < 1) return false;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
 export async function generateThumbnail(base64Src: string): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -25,9 +34,52 @@ export async function generateThumbnail(base64Src: string): Promise<string> {
       }
 
       ctx.drawImage(img, 0, 0, width, height);
-      resolve(canvas.toDataURL('image/jpeg', 0.7)); // JPEG at 70% quality for smaller size
+      // JPEG at 70% quality for smaller size; PNG when there is transparency to keep (cutouts)
+      resolve(hasTransparency(ctx, canvas.width, canvas.height) ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.7));
     };
     img.onerror = () => reject(new Error('Failed to load image for thumbnail'));
     img.src = base64Src;
   });
 }
+
+/**
+ * Capture a poster frame from a video as a thumbnail-sized JPEG.
+ * Seeks slightly past the start to skip black lead-in frames.
+ */
+export async function generateVideoPoster(videoSrc: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(0.5, (video.duration || 0) / 2);
+    };
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+
+      let width = THUMBNAIL_SIZE;
+      let height = THUMBNAIL_SIZE;
+      if (video.videoWidth > video.videoHeight) {
+        height = (video.videoHeight / video.videoWidth) * THUMBNAIL_SIZE;
+      } else {
+        width = (video.videoWidth / video.videoHeight) * THUMBNAIL_SIZE;
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(video, 0, 0, width, height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    video.onerror = () => reject(new Error('Failed to load video for poster frame'));
+    video.src = videoSrc;
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Transform - Rotation and skew of layers about their centre
+ *
+ * x/y/width/height describe a layer's box before it is transformed. Rotation
+ * and skew apply around the box's centre, the way CSS composes
+ * `rotate() skew()` with transform-origin: center. Anything that needs where
+ * a layer really sits on the canvas (snapping, the minimap, culling, exports)
+ * works from the transformed corners or their bounding box here. Pointer
+ * movement is mapped back the other way so handles and drawing follow the
+ * layer's own axes.
+ */
+
+import { LayerData } from '../types';
+
+type TransformedBox = Pick<LayerData, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'skewX' | 'skewY'>;
+type Point = { x: number; y: number };
+type Matrix = [number, number, number, number]; // CSS matrix(a, b, c, d): x' = a x + c y, y' = b x + d y
+
+export type ResizeCorner = 'nw' | 'ne' | 'se' | 'sw';
+export type LayerGeometry = Partial<TransformedBox>;
+
+export const ROTATION_SNAP = 15; // Degrees, with Shift held
+export const MAX_SKEW = 60; // Degrees either way; tan() runs away past this
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+export const hasTransform = (layer: TransformedBox): boolean => !!(layer.rotation || layer.skewX || layer.skewY);
+
+const getMatrix = (layer: TransformedBox): Matrix => {
+  const cos = Math.cos(toRadians(layer.rotation ?? 0));
+  const sin = Math.sin(toRadians(layer.rotation ?? 0));
+  const tanX = Math.tan(toRadians(layer.skewX ?? 0));
+  const tanY = Math.tan(toRadians(layer.skewY ?? 0));
+  return [cos - sin * tanY, sin + cos * tanY, cos * tanX - sin, sin * tanX + cos];
+};
+
+const apply = ([a, b, c, d]: Matrix, x: number, y: number): Point => ({ x: a * x + c * y, y: b * x + d * y });
+
+/**
+ * CSS transform for the layer's element (with transform-origin: center)
+ */
+export function getLayerTransform(layer: TransformedBox): string | undefined {
+  if (!hasTransform(layer)) return undefined;
+  return `rotate(${layer.rotation ?? 0}deg) skew(${layer.skewX ?? 0}deg, ${layer.skewY ?? 0}deg)`;
+}
+
+/**
+ * Canvas positions of the box's corners: top-left, top-right, bottom-right, bottom-left
+ */
+export function getLayerCorners(layer: TransformedBox): Point[] {
+  const matrix = getMatrix(layer);
+  const centerX = layer.x + layer.width / 2;
+  const centerY = layer.y + layer.height / 2;
+  const halfWidth = layer.width / 2;
+  const halfHeight = layer.height / 2;
+  return [[-halfWidth, -halfHeight], [halfWidth, -halfHeight], [halfWidth, halfHeight], [-halfWidth, halfHeight]].map(([x, y]) => {
+    const point = apply(matrix, x, y);
+    return { x: centerX + point.x, y: centerY + point.y };
+  });
+}
+
+/**
+ * Axis-aligned box around the layer as displayed; the layer's own box when untransformed
+ */
+export function getLayerBounds(layer: TransformedBox): { x: number; y: number; width: number; height: number } {
+  if (!hasTransform(layer)) return { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
+  const corners = getLayerCorners(layer);
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * A movement on the canvas expressed along the layer's own axes
+ */
+export function toLocalVector(layer: TransformedBox, dx: number, dy: number): Point {
+  if (!hasTransform(layer)) return { x: dx, y: dy };
+  const [a, b, c, d] = getMatrix(layer);
+  const determinant = a * d - b * c;
+  return { x: (d * dx - c * dy) / determinant, y: (a * dy - b * dx) / determinant };
+}
+
+/**
+ * A movement along the layer's own axes expressed on the canvas
+ */
+export function toCanvasVector(layer: TransformedBox, dx: number, dy: number): Point {
+  return apply(getMatrix(layer), dx, dy);
+}
+
+/**
+ * New top-left for a box resized to width x height with the corner opposite the
+ * dragged one held in place on the canvas
+ */
+export function resizeFromCorner(start: TransformedBox, corner: ResizeCorner, width: number, height: number): Point {
+  const matrix = getMatrix(start);
+  // The fixed corner, as an offset from the centre in units of the box's size
+  const anchorX = corner === 'nw' || corner === 'sw' ? 0.5 : -0.5;
+  const anchorY = corner === 'nw' || corner === 'ne' ? 0.5 : -0.5;
+  const startOffset = apply(matrix, anchorX * start.width, anchorY * start.height);
+  const anchor = { x: start.x + start.width / 2 + startOffset.x, y: start.y + start.height / 2 + startOffset.y };
+  const offset = apply(matrix, anchorX * width, anchorY * height);
+  return { x: anchor.x - offset.x - width / 2, y: anchor.y - offset.y - height / 2 };
+}
+
+/**
+ * Angle in (-180, 180], optionally snapped to ROTATION_SNAP steps
+ */
+export function normalizeRotation(degrees: number, snap = false): number {
+  const snapped = snap ? Math.round(degrees / ROTATION_SNAP) * ROTATION_SNAP : degrees;
+  const wrapped = ((snapped % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/**
+ * Draw an image (shown object-contain in the layer's box) rotated and skewed like
+ * the layer, on a transparent canvas the size of its bounds, at the image's own scale
+ */
+export async function renderTransformedImage(src: string, layer: TransformedBox): Promise<string> {
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image for transform'));
+    image.src = src;
+  });
+  const pixelsPerUnit = Math.max(img.naturalWidth / layer.width, img.naturalHeight / layer.height);
+  const bounds = getLayerBounds({ ...layer, x: 0, y: 0 });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bounds.width * pixelsPerUnit));
+  canvas.height = Math.max(1, Math.round(bounds.height * pixelsPerUnit));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  const [a, b, c, d] = getMatrix(layer);
+  ctx.setTransform(a, b, c, d, canvas.width / 2, canvas.height / 2);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,192 @@
+/**
+ * Usage Ledger - What generations cost, per project, day and model
+ *
+ * Every finished generation that reports usage (tokens, Veo seconds, image
+ * size) is recorded with its project and time. Costs are worked out on read
+ * from an editable price table, so changing a price re-prices the history.
+ * An optional budget cap for a day, a month or all time blocks new requests
+ * once the spend for that period reaches it.
+ */
+
+import { GenerationModelId, GenerationUsage, ModelId, UsageEntry } from '../types';
+import { loadUsageLedger, saveUsageLedger } from './storageService';
+
+// USD list prices. Token prices apply when the response reports tokens; perImage is the fallback.
+export interface ModelPrice {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perImage?: Record<string, number>; // By image size
+  perVideoSecond?: number;
+}
+
+export type PriceTable = Record<GenerationModelId, ModelPrice>;
+export type BudgetPeriod = 'day' | 'month' | 'all';
+
+export interface UsageSettings {
+  prices: PriceTable;
+  budgetCap?: number; // USD; no cap when unset
+  budgetPeriod: BudgetPeriod;
+}
+
+export interface UsageTotals {
+  count: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  videoSeconds: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byDay: [string, UsageTotals][]; // Newest first, keyed YYYY-MM-DD (local time)
+  byModel: [GenerationModelId, UsageTotals][]; // Most expensive first
+  byProject: [string, UsageTotals][]; // Most expensive first
+}
+
+export interface BudgetStatus {
+  cap?: number;
+  period: BudgetPeriod;
+  spent: number;
+  exceeded: boolean;
+}
+
+export const DEFAULT_PRICES: PriceTable = {
+  [ModelId.GEMINI_2_5_FLASH_IMAGE]: { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: { '1K': 0.039 } },
+  [ModelId.GEMINI_3_PRO_IMAGE]: { inputPerMillionTokens: 2, outputPerMillionTokens: 120, perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  [ModelId.VEO_3_1_FAST]: { perVideoSecond: 0.15 },
+  [ModelId.VEO_3_1_HIGH]: { perVideoSecond: 0.4 },
+  [ModelId.GEMINI_2_5_FLASH_TTS]: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+};
+
+const SETTINGS_STORAGE_KEY = 'gencanvas_usage_settings';
+
+let entries: UsageEntry[] = [];
+let loadPromise: Promise<UsageEntry[]> | null = null;
+
+export function getUsageSettings(): UsageSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (stored) return { ...stored, prices: { ...DEFAULT_PRICES, ...stored.prices } };
+  } catch {
+    // Unreadable settings fall back to the defaults
+  }
+  return { prices: DEFAULT_PRICES, budgetPeriod: 'month' };
+}
+
+export function saveUsageSettings(settings: UsageSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to store usage settings:', e);
+  }
+}
+
+/**
+ * Read the ledger from storage once; later calls share the result
+ */
+export function loadUsage(): Promise<UsageEntry[]> {
+  if (!loadPromise) {
+    loadPromise = loadUsageLedger().then(stored => {
+      entries = [...stored, ...entries];
+      return entries;
+    });
+  }
+  return loadPromise;
+}
+
+export function getUsageEntries(): UsageEntry[] {
+  return entries;
+}
+
+export async function recordUsage(projectId: string, usage: GenerationUsage): Promise<void> {
+  await loadUsage();
+  entries = [...entries, { ...usage, id: crypto.randomUUID(), projectId, timestamp: Date.now() }];
+  await saveUsageLedger(entries);
+}
+
+export async function clearUsage(): Promise<void> {
+  await loadUsage();
+  entries = [];
+  await saveUsageLedger(entries);
+}
+
+export function estimateCost(usage: GenerationUsage, prices: PriceTable = getUsageSettings().prices): number {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  if (usage.videoSeconds !== undefined) return usage.videoSeconds * (price.perVideoSecond ?? 0);
+  const hasTokenPrices = price.inputPerMillionTokens !== undefined || price.outputPerMillionTokens !== undefined;
+  if (hasTokenPrices && (usage.inputTokens !== undefined || usage.outputTokens !== undefined)) {
+    return ((usage.inputTokens ?? 0) * (price.inputPerMillionTokens ?? 0) + (usage.outputTokens ?? 0) * (price.outputPerMillionTokens ?? 0)) / 1_000_000;
+  }
+  if (usage.mediaType === 'image' && price.perImage) return price.perImage[usage.imageSize || '1K'] ?? 0;
+  return 0;
+}
+
+const emptyTotals = (): UsageTotals => ({ count: 0, cost: 0, inputTokens: 0, outputTokens: 0, videoSeconds: 0 });
+
+const addToTotals = (totals: UsageTotals, entry: UsageEntry, cost: number) => {
+  totals.count++;
+  totals.cost += cost;
+  totals.inputTokens += entry.inputTokens ?? 0;
+  totals.outputTokens += entry.outputTokens ?? 0;
+  totals.videoSeconds += entry.videoSeconds ?? 0;
+};
+
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Totals overall and grouped by day, model and project, optionally for one project only
+ */
+export function summarizeUsage(usageEntries: UsageEntry[], prices: PriceTable = getUsageSettings().prices, projectId?: string): UsageSummary {
+  const total = emptyTotals();
+  const byDay = new Map<string, UsageTotals>();
+  const byModel = new Map<GenerationModelId, UsageTotals>();
+  const byProject = new Map<string, UsageTotals>();
+  const group = <K,>(map: Map<K, UsageTotals>, key: K) => {
+    if (!map.has(key)) map.set(key, emptyTotals());
+    return map.get(key)!;
+  };
+
+  for (const entry of usageEntries) {
+    if (projectId && entry.projectId !== projectId) continue;
+    const cost = estimateCost(entry, prices);
+    addToTotals(total, entry, cost);
+    addToTotals(group(byDay, getDayKey(entry.timestamp)), entry, cost);
+    addToTotals(group(byModel, entry.model), entry, cost);
+    addToTotals(group(byProject, entry.projectId), entry, cost);
+  }
+
+  const byCost = (a: [unknown, UsageTotals], b: [unknown, UsageTotals]) => b[1].cost - a[1].cost;
+  return {
+    total,
+    byDay: [...byDay.entries()].sort((a, b) => b[0].localeCompare(a[0])),
+    byModel: [...byModel.entries()].sort(byCost),
+    byProject: [...byProject.entries()].sort(byCost),
+  };
+}
+
+// Start of the budget period containing now
+const getPeriodStart = (period: BudgetPeriod, now: number): number => {
+  if (period === 'all') return 0;
+  const date = new Date(now);
+  return period === 'day'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+/**
+ * Spend against the cap for the current period. Call loadUsage first; until
+ * then only this session's entries count.
+ */
+export function getBudgetStatus(settings: UsageSettings = getUsageSettings(), now: number = Date.now()): BudgetStatus {
+  const start = getPeriodStart(settings.budgetPeriod, now);
+  const spent = entries.reduce((sum, entry) => entry.timestamp >= start ? sum + estimateCost(entry, settings.prices) : sum, 0);
+  const cap = settings.budgetCap;
+  return { cap, period: settings.budgetPeriod, spent, exceeded: cap !== undefined && spent >= cap };
+}
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0.00' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
@@ -6,8 +6,10 @@ export interface Attachment {
   mimeType: string;
   base64: string;
   displayName?: string; // layer.title or file.name for @image references
+  sourceLayerId?: string; // Canvas layer the attachment was taken from (recorded as lineage)
 }
 
+// Built-in Gemini models. Other providers register their own model IDs (see services/providerRegistry.ts).
 export enum ModelId {
   GEMINI_2_5_FLASH_IMAGE = 'gemini-2.5-flash-image',
   GEMINI_3_PRO_IMAGE = 'gemini-3-pro-image-preview',
@@ -16,10 +18,15 @@ export enum ModelId {
   GEMINI_2_5_FLASH_TTS = 'gemini-2.5-flash-preview-tts',
 }
 
+export type GenerationModelId = ModelId | string;
+
 export type MediaType = 'image' | 'video' | 'sticky' | 'group' | 'drawing' | 'text' | 'audio';
 export type VideoMode = 'standard' | 'interpolation' | 'references';
 
 // Generation task management for non-blocking UI
+// Failure categories; each has a retry policy and suggested fix in services/generationErrors.ts
+export type GenerationErrorKind = 'safety' | 'quota' | 'truncated' | 'timeout' | 'network' | 'invalid-params' | 'unknown';
+
 export type GenerationStatus = 'queued' | 'generating' | 'polling' | 'completed' | 'failed';
 
 export interface GenerationTask {
@@ -28,10 +35,18 @@ export interface GenerationTask {
   status: GenerationStatus;
   abortController: AbortController;
   progress?: number; // 0-100 for video polling
+  queuePosition?: number; // Place in line while queued
+  retryAt?: number; // Set while waiting to retry after a failure
+  retryKind?: GenerationErrorKind; // What the pending retry is recovering from
   mediaType: MediaType;
   startedAt: number;
+  model?: GenerationModelId;
+  operationId?: string; // Provider's long-running operation (Veo), resumable after a reload
 }
 
+// What survives a reload of a running GenerationTask
+export type PersistedGenerationJob = Pick<GenerationTask, 'layerId' | 'mediaType' | 'startedAt' | 'model' | 'operationId'>;
+
 export interface GenerationMetadata {
     model?: string;
     aspectRatio?: string;
@@ -45,7 +60,7 @@ export interface GenerationMetadata {
 
 export interface PromptState {
     prompt: string;
-    model: ModelId;
+    model: GenerationModelId;
     aspectRatio: string;
     creativity: number;
     imageSize: string;
@@ -64,6 +79,7 @@ export interface DrawingPath {
     points: {x: number, y: number}[];
     color: string;
     width: number;
+    opacity?: number; // Highlighter strokes are translucent
 }
 
 export interface TextAnnotation {
@@ -84,7 +100,82 @@ export interface RectangleAnnotation {
     strokeWidth: number;
 }
 
-export type Annotation = DrawingPath | TextAnnotation | RectangleAnnotation;
+export interface LineAnnotation {
+    id: string;
+    type: 'line' | 'arrow'; // An arrow has its head at end
+    start: {x: number, y: number};
+    end: {x: number, y: number};
+    color: string;
+    strokeWidth: number;
+}
+
+export interface EllipseAnnotation {
+    id: string;
+    type: 'ellipse';
+    x: number; // Bounding box
+    y: number;
+    width: number;
+    height: number;
+    color: string;
+    strokeWidth: number;
+}
+
+// Numbered marker, optionally labelled, for referring to spots in a prompt ("make 2 brighter")
+export interface CalloutAnnotation {
+    id: string;
+    type: 'callout';
+    x: number; // Centre of the marker
+    y: number;
+    number: number;
+    label?: string;
+    color: string;
+    fontSize: number; // Of the number; the marker scales with it
+}
+
+export type Annotation = DrawingPath | TextAnnotation | RectangleAnnotation | LineAnnotation | EllipseAnnotation | CalloutAnnotation;
+
+// A mask-constrained edit of an image (inpainting or outpainting); the first reference is the image being edited
+export interface MaskedEdit {
+    mask: string; // Black and white PNG at the first reference's size; white = region the model fills
+    seam: 'inside' | 'outside'; // Side of the mask edge the blend feathers into (see services/inpaintService.ts)
+    width?: number; // Layer size of the result when it differs from the edited layer (outpainting)
+    height?: number;
+}
+
+// Refine brush stroke on a background cutout, in the source image's pixels
+export interface MatteStroke {
+    points: {x: number, y: number}[];
+    size: number; // Brush diameter
+    mode: 'keep' | 'remove' | 'edge'; // Force opaque, force transparent, or soft alpha from the colour match
+}
+
+// A cutout made locally from another layer, kept so the cut can be redone or refined
+export interface LayerMatte {
+    sourceLayerId: string; // The original, left on the canvas untouched
+    strokes: MatteStroke[];
+}
+
+// Non-destructive image adjustments, applied in display and baked into exports and references.
+// Unset values are neutral. See services/adjustmentService.ts for the order they apply in.
+export interface ImageAdjustments {
+    exposure?: number; // Stops, -2 to 2
+    contrast?: number; // -100 to 100
+    saturation?: number; // -100 to 100
+    hue?: number; // Degrees, -180 to 180
+    temperature?: number; // -100 (cool) to 100 (warm)
+    grayscale?: number; // 0 to 100
+    sharpen?: number; // 0 to 100
+    blur?: number; // 0 to 100
+}
+
+// Part of an image or video frame that a layer shows, as fractions of the media's own size.
+// The layer's box takes the cropped part's proportions. See services/cropService.ts.
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
 
 export interface LayerData {
   id: string;
@@ -97,8 +188,9 @@ export interface LayerData {
   src: string; // Base64 or Blob URL (empty for stickies/groups)
   thumbnail?: string; // 256px thumbnail Base64 for LOD rendering
   // Asset store IDs (blob-based storage for performance)
-  imageId?: string; // Reference to asset store for full-res image
-  thumbnailId?: string; // Reference to asset store for thumbnail
+  imageId?: string; // Reference to asset store for full-res media (image, video or audio)
+  thumbnailId?: string; // Reference to asset store for thumbnail (poster frame for video)
+  fullResEvicted?: boolean; // Full-res image was dropped to save space; imageId now points at the thumbnail
   color?: string; // For stickies, groups, and text
   text?: string; // Main text content for stickies and text layers
   fontSize?: number; // Custom font size for text content
@@ -106,21 +198,38 @@ export interface LayerData {
   improvedPrompt?: string;      // AI-enhanced prompt that CREATED this layer (sidebar display)
   lastDraftPrompt?: string;     // Last prompt typed into this layer's PromptBar (draft input)
   referenceImages?: string[]; // Store base64 of refs used for generation
+  maskedEdit?: MaskedEdit; // Inpainting or outpainting applied to the first reference
+  matte?: LayerMatte; // Set on background cutouts
+  sourceLayerIds?: string[]; // Layers this one was generated from (edited layer and canvas references)
   videoMetadata?: any; // Store Veo video object/handle for extension
   generationMetadata?: GenerationMetadata;
   title: string;
   createdAt: number;
   flipX?: boolean;
   flipY?: boolean;
+  rotation?: number; // Degrees clockwise about the centre (see services/transformService.ts)
+  skewX?: number; // Degrees
+  skewY?: number;
   duration?: number; // Video duration in seconds
   isLoading?: boolean;
   error?: string;
+  errorKind?: GenerationErrorKind;
   annotations?: Annotation[];
+  adjustments?: ImageAdjustments;
+  crop?: CropRect; // Image and video layers
+}
+
+// A named canvas. Layers, view state and history are stored per project.
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface GenerateOptions {
   prompt: string;
-  model: ModelId;
+  model: GenerationModelId;
   mediaType: MediaType;
   videoMode?: VideoMode;
   
@@ -128,6 +237,7 @@ export interface GenerateOptions {
   startImage?: string; // Base64 for 'image' param (animate this)
   endImage?: string;   // Base64 for 'lastFrame' param
   referenceImages?: string[]; // Array of base64 for 'referenceImages' param
+  maskImage?: string; // Inpainting: black and white PNG, white marks the region of the first reference to change
   
   inputVideoMetadata?: any; // For extending videos
   aspectRatio?: string;
@@ -137,3 +247,35 @@ export interface GenerateOptions {
   durationSeconds?: string; // "4", "6", "8"
   voice?: string;
 }
+
+// What one generation consumed, as reported by the provider (priced by services/usageLedger.ts)
+export interface GenerationUsage {
+    model: GenerationModelId;
+    mediaType: MediaType;
+    inputTokens?: number;
+    outputTokens?: number; // Includes thinking tokens, which are billed as output
+    totalTokens?: number;
+    videoSeconds?: number;
+    imageSize?: string;
+}
+
+// One ledger row: usage of a finished generation, in a project, at a time
+export interface UsageEntry extends GenerationUsage {
+    id: string;
+    projectId: string;
+    timestamp: number;
+}
+
+export interface GenerationResult {
+    url: string;
+    metadata?: any;
+    generationConfig?: GenerationMetadata;
+    usage?: GenerationUsage;
+}
+
+// Cancellation options for generation functions
+export interface GenerationCallbacks {
+    signal?: AbortSignal;
+    onProgress?: (progress: number) => void;
+    onPolling?: (operationId?: string) => void; // Long-running operation accepted; now waiting on the server
+}
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MOCK_GENERATION': JSON.stringify(env.GEMINI_MOCK),
+        'process.env.MOCK_FAILURE_RATE': JSON.stringify(env.GEMINI_MOCK_FAILURE_RATE)
       },
       resolve: {
         alias: {